@@ -1,8 +1,7 @@
 import * as T from './types';
-
-import got from 'got';
-
-const ENDPOINT = 'https://www.seedr.cc';
+import { AuthError, errorFromResponse } from './Errors';
+import { Transport } from './Transport';
+import { sleep } from './utils';
 
 /**
  * Handles authentication and manages tokens for Seedr.
@@ -10,13 +9,27 @@ const ENDPOINT = 'https://www.seedr.cc';
 export class Auth {
   #store: T.IStore;
   #auth?: T.AuthState;
+  #transport: Transport;
+  #refreshMargin: number;
+  #refreshing?: Promise<string>;
 
   /**
    * Creates an instance of `Auth`.
    * @param {T.IStore} store - Auth State persistence handler.
+   * @param {T.ClientOptions | Transport} [transport] - (optional) HTTP client options or a shared `Transport`.
+   * @param {T.ClientOptions} [options] - (optional) Client options, when `transport` is a shared `Transport`.
    */
-  constructor(store: T.IStore) {
+  constructor(
+    store: T.IStore,
+    transport?: T.ClientOptions | Transport,
+    options: T.ClientOptions = transport instanceof Transport
+      ? {}
+      : transport ?? {}
+  ) {
     this.#store = store;
+    this.#transport =
+      transport instanceof Transport ? transport : new Transport(transport);
+    this.#refreshMargin = options.refreshMargin ?? 30000;
   }
 
   /**
@@ -27,7 +40,7 @@ export class Auth {
    * @param {string} [password] - Password for login (optional).
    * @param {boolean} [save=false] - Whether to save the login credentials. Defaults to false.
    * @returns {Promise<T.RTokenFetch>} Promise resolving new Access and Refresh tokens.
-   * @throws {Error} If the API returns a non-200 status code or an error key in the response object.
+   * @throws {SeedrAPIError} If the API returns a non-200 status code or an error key in the response object.
    */
   async loginOAuth(
     username?: string,
@@ -39,32 +52,32 @@ export class Auth {
     password = this.#auth.credential?.password ?? password;
 
     if (username == undefined || password == undefined) {
-      throw new Error('No username or password provided');
+      throw new AuthError('No username or password provided');
     }
 
     if (this.#auth.access) {
       if (Date.now() < this.#auth.access.expiry) {
-        throw new Error('Valid Token already exists');
+        throw new AuthError('Valid Token already exists');
       }
     }
-    const response = await got.post<T.Either<T.RTokenFetch, T.SeedrError>>(
-      `${ENDPOINT}/oauth_test/token.php`,
-      {
-        form: {
-          grant_type: 'password',
-          username,
-          password,
-          client_id: 'seedr_chrome',
-        },
-        responseType: 'json',
-        throwHttpErrors: false,
-      }
-    );
-    if (response.statusCode != 200) {
-      throw new Error(response.body.error_description);
+    const response = await this.#transport.request<
+      T.Either<T.RTokenFetch, T.SeedrError>
+    >('POST', '/oauth_test/token.php', {
+      func: 'token.php',
+      form: {
+        grant_type: 'password',
+        username,
+        password,
+        client_id: 'seedr_chrome',
+      },
+    });
+    if (response.statusCode != 200 || response.body.error) {
+      throw errorFromResponse(response, 'token.php');
     }
     if (save) {
-      console.warn('Username/Password stored in state as plain-text');
+      this.#transport.logger.warn(
+        'Username/Password stored in state as plain-text'
+      );
       this.#auth.credential = {
         username,
         password,
@@ -84,27 +97,25 @@ export class Auth {
   /**
    * Obtains a new Access Token with Refresh Token if it exists.
    * @returns {Promise<T.RTokenRefresh>} Promise resolving new Access Token.
-   * @throws {Error} If the API returns a non-200 status code or an error key in the response object.
+   * @throws {SeedrAPIError} If the API returns a non-200 status code or an error key in the response object.
    */
   async refreshTokenOAuth(): Promise<T.RTokenRefresh> {
     if (!this.#auth) this.#auth = await this.#store.load();
     if (!this.#auth.refresh) {
-      throw new Error('Attempted to refresh without refresh token');
-    }
-    const response = await got.post<T.Either<T.RTokenRefresh, T.SeedrError>>(
-      `${ENDPOINT}/oauth_test/token.php`,
-      {
-        form: {
-          grant_type: 'refresh_token',
-          refresh_token: this.#auth.refresh.token,
-          client_id: 'seedr_chrome',
-        },
-        responseType: 'json',
-        throwHttpErrors: false,
-      }
-    );
-    if (response.statusCode != 200) {
-      throw new Error(response.body.error_description);
+      throw new AuthError('Attempted to refresh without refresh token');
+    }
+    const response = await this.#transport.request<
+      T.Either<T.RTokenRefresh, T.SeedrError>
+    >('POST', '/oauth_test/token.php', {
+      func: 'token.php',
+      form: {
+        grant_type: 'refresh_token',
+        refresh_token: this.#auth.refresh.token,
+        client_id: 'seedr_chrome',
+      },
+    });
+    if (response.statusCode != 200 || response.body.error) {
+      throw errorFromResponse(response, 'token.php');
     }
     this.#auth.access = {
       token: response.body.access_token,
@@ -117,70 +128,129 @@ export class Auth {
   /**
    * Initial Flow to Register XBMC device with Seedr.
    * Use the generated code to authorize in https://www.seedr.cc/devices
+   * A new code is issued if a previous one expired without being authorized.
    * @returns {Promise<T.RDeviceGen>} Promise resolving newly generated XBMC Code.
-   * @throws {Error} If the API returns a non-200 status code or an error key in the response object.
+   * @throws {SeedrAPIError} If the API returns a non-200 status code or an error key in the response object.
    */
   async obtainDeviceCode(): Promise<T.RDeviceGen> {
     if (!this.#auth) this.#auth = await this.#store.load();
     if (this.#auth.xbmc) {
-      if (Date.now() < this.#auth.xbmc.expiry) {
-        throw new Error(
+      if (this.#auth.xbmc.expiry === undefined) {
+        throw new AuthError('Device Code already registered');
+      } else if (Date.now() < this.#auth.xbmc.expiry) {
+        throw new AuthError(
           `Device code is valid, yet to be authorized, use ${
             this.#auth.xbmc.user_code
-          } in https://www.seedr.cc/devices`
+          } in https://www.seedr.cc/devices`,
+          { error: 'authorization_pending' }
         );
-      } else {
-        throw new Error('Device Code already registered');
       }
     }
-    const response = await got.get<T.Either<T.RDeviceGen, unknown>>(
-      `${ENDPOINT}/api/device/code`,
-      {
-        searchParams: {
-          client_id: 'seedr_xbmc',
-        },
-        responseType: 'json',
-      }
-    );
+    const response = await this.#transport.request<
+      T.Either<T.RDeviceGen, T.SeedrError>
+    >('GET', '/api/device/code', {
+      func: 'device/code',
+      searchParams: {
+        client_id: 'seedr_xbmc',
+      },
+    });
     if (response.statusCode != 200) {
-      throw new Error(JSON.stringify(response.body));
+      throw errorFromResponse(response, 'device/code');
     }
     this.#auth.xbmc = {
       device_code: response.body.device_code,
       user_code: response.body.user_code,
       expiry: response.body.expires_in * 1000 + Date.now(),
+      interval: response.body.interval,
     };
     await this.#store.save(this.#auth);
     return response.body;
   }
 
+  /**
+   * Complete flow to register an XBMC device, polling until the code is authorized.
+   * Obtains a device code (or resumes a pending one), passes it to `onCode` for display,
+   * then polls at the server provided `interval` until authorized, expired or aborted.
+   * @param {object} [options] - (optional) Callback and cancellation.
+   * @param {(code: T.RDeviceGen) => void | Promise<void>} [options.onCode] - Called with `user_code` / `verification_url` to show to the user.
+   * @param {AbortSignal} [options.signal] - Stops polling.
+   * @returns {Promise<T.RTokenRefresh>} Promise resolving new Access Token, persisted in the store.
+   * @throws {AuthError} If the code expires, is denied, or the device is already registered.
+   */
+  async authorizeDevice(
+    options: {
+      onCode?: (code: T.RDeviceGen) => void | Promise<void>;
+      signal?: AbortSignal;
+    } = {}
+  ): Promise<T.RTokenRefresh> {
+    if (!this.#auth) this.#auth = await this.#store.load();
+    const pending = this.#auth.xbmc;
+    const code: T.RDeviceGen =
+      pending?.expiry !== undefined && Date.now() < pending.expiry
+        ? {
+            device_code: pending.device_code,
+            user_code: pending.user_code,
+            expires_in: Math.ceil((pending.expiry - Date.now()) / 1000),
+            interval: pending.interval ?? 5,
+            verification_url: 'https://www.seedr.cc/devices',
+          }
+        : await this.obtainDeviceCode();
+    await options.onCode?.(code);
+    const expiry = Date.now() + code.expires_in * 1000;
+    let interval = code.interval * 1000;
+    for (;;) {
+      await sleep(interval, options.signal);
+      try {
+        return await this.refreshTokenXBMC();
+      } catch (e) {
+        if (!(e instanceof AuthError)) throw e;
+        if (e.error == 'slow_down') interval += 5000;
+        else if (e.error != 'authorization_pending') throw e;
+      }
+      if (Date.now() >= expiry) {
+        throw new AuthError('Device code expired before authorization', {
+          error: 'expired_token',
+          func: 'device/authorize',
+        });
+      }
+    }
+  }
+
   /**
    * Refreshes Access Token (XBMC) using Device Code.
    * Obtains a new long validity Access Token.
    * @returns {Promise<T.RTokenRefresh>} Promise resolving new Access Token.
-   * @throws {Error} If the API returns a non-200 status code or an error key in the response object.
+   * @throws {SeedrAPIError} If the API returns a non-200 status code or an error key in the response object.
    */
   async refreshTokenXBMC(): Promise<T.RTokenRefresh> {
     if (!this.#auth) this.#auth = await this.#store.load();
     if (!this.#auth.xbmc) {
-      throw new Error('No device code, generate code and authorize');
-    }
-    const response = await got.get<T.Either<T.RTokenRefresh, T.SeedrError>>(
-      'https://www.seedr.cc/api/device/authorize',
-      {
-        searchParams: {
-          device_code: this.#auth.xbmc.device_code,
-          client_id: 'seedr_xbmc',
-        },
-        responseType: 'json',
-      }
-    );
+      throw new AuthError('No device code, generate code and authorize');
+    }
+    const response = await this.#transport.request<
+      T.Either<T.RTokenRefresh, T.SeedrError>
+    >('GET', '/api/device/authorize', {
+      func: 'device/authorize',
+      searchParams: {
+        device_code: this.#auth.xbmc.device_code,
+        client_id: 'seedr_xbmc',
+      },
+    });
     if (response.body.error == 'authorization_pending') {
-      throw new Error(
+      throw new AuthError(
         `Device code is valid, yet to be authorized, use ${
           this.#auth.xbmc.user_code
-        } in https://www.seedr.cc/devices`
+        } in https://www.seedr.cc/devices`,
+        {
+          status: response.statusCode,
+          error: response.body.error,
+          error_description: response.body.error_description,
+          func: 'device/authorize',
+          body: response.body,
+        }
       );
+    } else if (response.statusCode != 200 || response.body.error) {
+      throw errorFromResponse(response, 'device/authorize');
     } else
       Object.assign(this.#auth.xbmc, {
         expiry: undefined,
@@ -195,47 +265,119 @@ export class Auth {
 
   /**
    * Makes sure an Access Token is available and valid, if not attempts to get a new one.
+   * Tokens are renewed `refreshMargin` before they expire, concurrent callers share a single renewal.
    * @returns {Promise<string>} Promise resolving new Access Token.
-   * @throws {Error} If an existing token is invalid and a new Access Token cannot be obtained.
+   * @throws {AuthError} If an existing token is invalid and a new Access Token cannot be obtained.
    */
   async getAccessToken(): Promise<string> {
     if (!this.#auth) this.#auth = await this.#store.load();
-    if (this.#auth.access) {
-      if (Date.now() < this.#auth.access?.expiry) {
-        return this.#auth.access.token;
-      } else {
-        console.warn('Token expired');
+    if (this.#isFresh(this.#auth.access)) return this.#auth.access.token;
+    return this.#refresh();
+  }
+
+  /**
+   * Renews the Access Token, eg. after the server rejected it.
+   * Does nothing if `stale` was already replaced by a concurrent renewal.
+   * @param {string} [stale] - (optional) The rejected Access Token, defaults to the current one.
+   * @returns {Promise<string>} Promise resolving new Access Token.
+   * @throws {AuthError} If a new Access Token cannot be obtained.
+   */
+  async refreshAccessToken(stale?: string): Promise<string> {
+    if (!this.#auth) this.#auth = await this.#store.load();
+    stale ??= this.#auth.access?.token;
+    if (
+      this.#auth.access?.token !== stale &&
+      this.#isFresh(this.#auth.access)
+    ) {
+      return this.#auth.access.token;
+    }
+    return this.#refresh(stale);
+  }
+
+  #isFresh(
+    access?: T.AuthState['access']
+  ): access is NonNullable<T.AuthState['access']> {
+    return !!access && Date.now() < access.expiry - this.#refreshMargin;
+  }
+
+  #refresh(stale?: string): Promise<string> {
+    this.#refreshing ??= (async () => {
+      try {
+        return this.#store.lock
+          ? await this.#store.lock(() => this.#renew(stale))
+          : await this.#renew(stale);
+      } finally {
+        this.#refreshing = undefined;
       }
+    })();
+    return this.#refreshing;
+  }
+
+  async #renew(stale?: string): Promise<string> {
+    if (this.#store.lock) {
+      // Another process may have renewed the token while waiting on the lock.
+      this.#auth = await this.#store.load();
     }
-    if (this.#auth.xbmc && !(this.#auth.xbmc.expiry < Date.now())) {
-      console.log('Refreshing Token with XBMC');
+    const auth = this.#auth!;
+    const previous = auth.access;
+    if (previous?.token !== stale && this.#isFresh(previous)) {
+      return previous.token;
+    }
+    if (previous) {
+      this.#transport.logger.info('Token expired', {
+        expiry: previous.expiry,
+      });
+      auth.access = undefined;
+    }
+    if (auth.xbmc && (auth.xbmc.expiry ?? Infinity) >= Date.now()) {
+      this.#transport.logger.info('Refreshing Token', { grant: 'xbmc' });
       try {
         await this.refreshTokenXBMC();
       } catch (e) {
-        console.warn(`Refresh (XBMC) failed: ${(e as Error).message}`);
+        this.#transport.logger.warn('Refresh failed', {
+          grant: 'xbmc',
+          error: e,
+        });
       }
     }
-    if (this.#auth.refresh) {
-      console.log('Refreshing Token with OAuth');
+    if (!auth.access && auth.refresh) {
+      this.#transport.logger.info('Refreshing Token', {
+        grant: 'refresh_token',
+      });
       try {
         await this.refreshTokenOAuth();
       } catch (e) {
-        console.warn(`Refresh failed: ${(e as Error).message}`);
+        this.#transport.logger.warn('Refresh failed', {
+          grant: 'refresh_token',
+          error: e,
+        });
       }
     }
-    if (this.#auth.credential) {
-      console.log('Logging in with OAuth');
+    if (!auth.access && auth.credential) {
+      this.#transport.logger.info('Logging in', { grant: 'password' });
       try {
         await this.loginOAuth();
       } catch (e) {
-        console.warn(`Login failed: ${(e as Error).message}`);
+        this.#transport.logger.warn('Login failed', {
+          grant: 'password',
+          error: e,
+        });
       }
     }
-    if (!this.#auth.access) {
-      throw new Error(
+    if (
+      !auth.access &&
+      previous &&
+      previous.token !== stale &&
+      Date.now() < previous.expiry
+    ) {
+      // Renewal ahead of expiry failed, the current token is still usable.
+      auth.access = previous;
+    }
+    if (!auth.access) {
+      throw new AuthError(
         'Not Logged in / Registered for the first time, use loginOAuth() or obtainDeviceCode() with persistence'
       );
     }
-    return this.#auth.access.token;
+    return auth.access.token;
   }
 }
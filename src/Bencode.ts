@@ -0,0 +1,123 @@
+/**
+ * A decoded bencode value, byte strings are kept as `Buffer`.
+ */
+export type BencodeValue =
+  | number
+  | Buffer
+  | BencodeValue[]
+  | { [key: string]: BencodeValue };
+
+/**
+ * A value that can be bencoded, strings are encoded as UTF-8.
+ */
+export type BencodeInput =
+  | number
+  | string
+  | Uint8Array
+  | BencodeInput[]
+  | { [key: string]: BencodeInput };
+
+/** Raw encoded bytes of every decoded dictionary, eg. to hash the `info` dictionary as received. */
+const RAW = new WeakMap<object, Buffer>();
+
+/**
+ * Decodes bencoded data, such as a .torrent file.
+ * @param {Uint8Array} data - Bencoded bytes.
+ * @returns {BencodeValue} The decoded value.
+ * @throws {Error} If the data is not valid bencode.
+ */
+export function decode(data: Uint8Array): BencodeValue {
+  const buffer = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+  const [value, end] = decodeAt(buffer, 0);
+  if (end != buffer.length) {
+    throw new Error(`Invalid bencode: trailing data at ${end}`);
+  }
+  return value;
+}
+
+/**
+ * Returns the raw encoded bytes a dictionary was decoded from.
+ * @param {object} dict - Dictionary returned by `decode`.
+ * @returns {Buffer | undefined} The raw bytes, `undefined` if not decoded by `decode`.
+ */
+export function raw(dict: object): Buffer | undefined {
+  return RAW.get(dict);
+}
+
+/**
+ * Encodes a value as bencode, dictionary keys are sorted.
+ * @param {BencodeInput} value - Value to encode.
+ * @returns {Buffer} The bencoded bytes.
+ */
+export function encode(value: BencodeInput): Buffer {
+  if (typeof value == 'number') {
+    if (!Number.isInteger(value)) throw new Error('Bencode integers only');
+    return Buffer.from(`i${value}e`);
+  }
+  if (typeof value == 'string') value = Buffer.from(value);
+  if (value instanceof Uint8Array) {
+    return Buffer.concat([Buffer.from(`${value.length}:`), value]);
+  }
+  if (Array.isArray(value)) {
+    return Buffer.concat([
+      Buffer.from('l'),
+      ...value.map((item) => encode(item)),
+      Buffer.from('e'),
+    ]);
+  }
+  const entries = Object.keys(value)
+    .sort((a, b) => Buffer.compare(Buffer.from(a), Buffer.from(b)))
+    .flatMap((key) => [encode(key), encode(value[key]!)]);
+  return Buffer.concat([Buffer.from('d'), ...entries, Buffer.from('e')]);
+}
+
+function decodeAt(buffer: Buffer, start: number): [BencodeValue, number] {
+  const type = buffer[start];
+  if (type === undefined) {
+    throw new Error(`Invalid bencode: unexpected end at ${start}`);
+  }
+  // i<integer>e
+  if (type == 0x69) {
+    const end = buffer.indexOf(0x65, start);
+    const text = end == -1 ? '' : buffer.toString('ascii', start + 1, end);
+    if (!/^(0|-?[1-9]\d*)$/.test(text)) {
+      throw new Error(`Invalid bencode: bad integer at ${start}`);
+    }
+    return [Number(text), end + 1];
+  }
+  // l<values>e
+  if (type == 0x6c) {
+    const list: BencodeValue[] = [];
+    let pos = start + 1;
+    while (buffer[pos] != 0x65) {
+      const [item, next] = decodeAt(buffer, pos);
+      list.push(item);
+      pos = next;
+    }
+    return [list, pos + 1];
+  }
+  // d<key><value>e
+  if (type == 0x64) {
+    const dict: { [key: string]: BencodeValue } = {};
+    let pos = start + 1;
+    while (buffer[pos] != 0x65) {
+      const [key, afterKey] = decodeAt(buffer, pos);
+      if (!Buffer.isBuffer(key)) {
+        throw new Error(`Invalid bencode: non-string key at ${pos}`);
+      }
+      const [item, next] = decodeAt(buffer, afterKey);
+      dict[key.toString()] = item;
+      pos = next;
+    }
+    RAW.set(dict, buffer.subarray(start, pos + 1));
+    return [dict, pos + 1];
+  }
+  // <length>:<bytes>
+  const colon = buffer.indexOf(0x3a, start);
+  const text = colon == -1 ? '' : buffer.toString('ascii', start, colon);
+  if (!/^\d+$/.test(text) || colon + 1 + Number(text) > buffer.length) {
+    throw new Error(`Invalid bencode: bad string at ${start}`);
+  }
+  const end = colon + 1 + Number(text);
+  return [buffer.subarray(colon + 1, end), end];
+}
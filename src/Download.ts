@@ -0,0 +1,185 @@
+import * as T from './types';
+import {
+  ChecksumError,
+  TransportError,
+  UnexpectedResponseError,
+  errorFromRequest,
+} from './Errors';
+import type { Transport } from './Transport';
+
+import fs from 'fs-extra';
+import path from 'path';
+import crypto from 'crypto';
+import { once } from 'events';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+
+/** Statuses of a signed URL that has expired and must be fetched again. */
+const EXPIRED_STATUS = [401, 403, 404, 410];
+
+const HASH_ALGORITHMS: Record<number, string> = {
+  32: 'md5',
+  40: 'sha1',
+  64: 'sha256',
+};
+
+/**
+ * Hashes a local file with the algorithm matching a reference hash (md5, sha1 or sha256 by length).
+ * @param {string} file - Local path of the file.
+ * @param {string} reference - Hash the file is compared to, eg. `File.hash`.
+ * @returns {Promise<string | undefined>} Promise resolving the lowercase hex digest, `undefined` if the reference format is unknown.
+ */
+export async function hashFile(
+  file: string,
+  reference: string
+): Promise<string | undefined> {
+  const algorithm = HASH_ALGORITHMS[reference.length];
+  if (!algorithm) return undefined;
+  const hash = crypto.createHash(algorithm);
+  await pipeline(fs.createReadStream(file), hash);
+  return hash.digest('hex');
+}
+
+/**
+ * Aggregates bytes written across all files of a download and reports progress.
+ */
+export class DownloadTracker {
+  bytes = 0;
+  total?: number;
+  #transferred = 0;
+  #start = Date.now();
+  #onProgress?: (progress: T.DownloadProgress) => void;
+
+  /**
+   * Creates an instance of `DownloadTracker`.
+   * @param {number} [total] - (optional) Total bytes of the download.
+   * @param {(progress: T.DownloadProgress) => void} [onProgress] - (optional) Progress callback.
+   */
+  constructor(
+    total?: number,
+    onProgress?: (progress: T.DownloadProgress) => void
+  ) {
+    this.total = total;
+    this.#onProgress = onProgress;
+  }
+
+  /**
+   * Records written bytes and reports progress.
+   * @param {string} file - Local path of the file.
+   * @param {number} bytes - Bytes written, negative when a partial file is discarded.
+   * @param {boolean} [transferred=true] - Whether the bytes were received now, or already existed locally.
+   */
+  add(file: string, bytes: number, transferred: boolean = true): void {
+    this.bytes += bytes;
+    if (transferred && bytes > 0) this.#transferred += bytes;
+    if (!this.#onProgress) return;
+    const elapsed = (Date.now() - this.#start) / 1000;
+    const rate = elapsed > 0 ? this.#transferred / elapsed : 0;
+    this.#onProgress({
+      path: file,
+      bytes: this.bytes,
+      total: this.total,
+      rate,
+      eta:
+        this.total !== undefined && rate > 0
+          ? Math.max(this.total - this.bytes, 0) / rate
+          : undefined,
+    });
+  }
+}
+
+/**
+ * Streams a file to disk through a `.part` file, resuming with HTTP Range and re-fetching expired URLs.
+ * @param {Transport} transport - Transport used for the request.
+ * @param {object} file - The `folder_file_id`, and when known the size and hash of the file.
+ * @param {string} dest - Local path of the file.
+ * @param {() => Promise<string>} getUrl - Fetches a fresh signed URL of the file.
+ * @param {DownloadTracker} tracker - Progress tracker of the download.
+ * @param {T.DownloadOptions} [options] - (optional) Verification, retries and cancellation.
+ * @returns {Promise<T.DownloadedFile>} Promise resolving the written file.
+ * @throws {ChecksumError} If verification is enabled and the hash does not match.
+ */
+export async function downloadFile(
+  transport: Transport,
+  file: { id: number; size?: number; hash?: string },
+  dest: string,
+  getUrl: () => Promise<string>,
+  tracker: DownloadTracker,
+  options: T.DownloadOptions = {}
+): Promise<T.DownloadedFile> {
+  const part = `${dest}.part`;
+  if (!(await fs.pathExists(part)) && (await fs.pathExists(dest))) {
+    const { size } = await fs.stat(dest);
+    if (file.size === undefined || size == file.size) {
+      tracker.add(dest, size, false);
+      return { id: file.id, path: dest, size, skipped: true };
+    }
+  }
+  await fs.ensureDir(path.dirname(dest));
+
+  let offset = (await fs.pathExists(part)) ? (await fs.stat(part)).size : 0;
+  tracker.add(dest, offset, false);
+  let url = await getUrl();
+  for (let attempt = 0; ; attempt++) {
+    if (file.size !== undefined && offset >= file.size) {
+      await fs.ensureFile(part);
+      break;
+    }
+    try {
+      const stream = transport.stream(url, {
+        headers: offset ? { range: `bytes=${offset}-` } : undefined,
+        signal: options.signal,
+      });
+      const [response] = await once(stream, 'response');
+      const append = offset > 0 && response.statusCode == 206;
+      if (offset && !append) {
+        tracker.add(dest, -offset, false);
+        offset = 0;
+      }
+      await pipeline(
+        stream,
+        new Transform({
+          transform(chunk: Buffer, _, callback) {
+            offset += chunk.length;
+            tracker.add(dest, chunk.length);
+            callback(null, chunk);
+          },
+        }),
+        fs.createWriteStream(part, { flags: append ? 'a' : 'w' })
+      );
+      break;
+    } catch (e) {
+      if (options.signal?.aborted) throw options.signal.reason;
+      const error = errorFromRequest(e, 'fetch_file');
+      if (error.status == 416 && offset > 0) break;
+      if (attempt >= (options.retries ?? 3)) throw error;
+      if (error.status !== undefined && EXPIRED_STATUS.includes(error.status)) {
+        url = await getUrl();
+      } else if (!(error instanceof TransportError)) {
+        throw error;
+      }
+      offset = (await fs.pathExists(part)) ? (await fs.stat(part)).size : 0;
+    }
+  }
+
+  if (options.verify && file.hash) {
+    const digest = await hashFile(part, file.hash);
+    if (digest === undefined) {
+      throw new UnexpectedResponseError(
+        `Unknown hash format of ${path.basename(dest)}: ${file.hash}`,
+        { func: 'fetch_file' }
+      );
+    }
+    if (digest != file.hash.toLowerCase()) {
+      await fs.remove(part);
+      throw new ChecksumError(
+        `Hash mismatch of ${path.basename(dest)}: expected ${
+          file.hash
+        }, got ${digest}`,
+        { func: 'fetch_file' }
+      );
+    }
+  }
+  await fs.move(part, dest, { overwrite: true });
+  return { id: file.id, path: dest, size: offset, skipped: false };
+}
@@ -0,0 +1,211 @@
+import * as T from './types';
+
+import { RequestError, ParseError } from 'got';
+
+/**
+ * Details attached to every error raised by the client.
+ */
+export type ErrorDetails = {
+  status?: number;
+  error?: string;
+  error_description?: string;
+  func?: string;
+  body?: unknown;
+  cause?: unknown;
+};
+
+/**
+ * Base class of all errors thrown by `Seedr` and `Auth`.
+ */
+export class SeedrAPIError extends Error {
+  /** HTTP status code of the response, if one was received. */
+  status?: number;
+  /** Seedr `error` field of the response. */
+  error?: string;
+  /** Seedr `error_description` field of the response. */
+  error_description?: string;
+  /** Seedr API function name (`func`), or the endpoint for Auth calls. */
+  func?: string;
+  /** Raw response body. */
+  body?: unknown;
+
+  constructor(message: string, details: ErrorDetails = {}) {
+    super(message, { cause: details.cause });
+    this.name = new.target.name;
+    this.status = details.status;
+    this.error = details.error;
+    this.error_description = details.error_description;
+    this.func = details.func;
+    this.body = details.body;
+  }
+}
+
+/**
+ * Authentication failed, the token is missing / expired, or the login flow cannot proceed.
+ */
+export class AuthError extends SeedrAPIError {}
+
+/**
+ * The requested item (folder, file, torrent, wishlist item) does not exist.
+ */
+export class NotFoundError extends SeedrAPIError {}
+
+/**
+ * Not enough storage space / quota left on the account for the operation.
+ */
+export class QuotaError extends SeedrAPIError {}
+
+/**
+ * Too many requests were made, `retryAfter` holds the delay (ms) if the server provided one.
+ */
+export class RateLimitError extends SeedrAPIError {
+  retryAfter?: number;
+
+  constructor(
+    message: string,
+    details: ErrorDetails & { retryAfter?: number }
+  ) {
+    super(message, details);
+    this.retryAfter = details.retryAfter;
+  }
+}
+
+/**
+ * The request could not be completed (network failure, timeout, DNS, TLS).
+ */
+export class TransportError extends SeedrAPIError {}
+
+/**
+ * The server responded with a status or body that could not be understood.
+ */
+export class UnexpectedResponseError extends SeedrAPIError {}
+
+/**
+ * A downloaded file does not match the `hash` reported by Seedr.
+ */
+export class ChecksumError extends SeedrAPIError {}
+
+/**
+ * The torrent already exists in the account, `duplicates` lists the matching items.
+ */
+export class DuplicateError extends SeedrAPIError {
+  duplicates: T.TorrentDuplicate[];
+
+  constructor(
+    message: string,
+    details: ErrorDetails & { duplicates: T.TorrentDuplicate[] }
+  ) {
+    super(message, details);
+    this.duplicates = details.duplicates;
+  }
+}
+
+const AUTH_ERRORS = [
+  'invalid_grant',
+  'invalid_token',
+  'invalid_client',
+  'invalid_request',
+  'unauthorized_client',
+  'access_denied',
+  'expired_token',
+  'authorization_pending',
+  'slow_down',
+];
+
+/**
+ * Classifies a received response into the matching error class.
+ * @param {object} response - Status code, headers and body of the response.
+ * @param {string} [func] - (optional) Seedr API function name / endpoint.
+ * @returns {SeedrAPIError} Error instance describing the response.
+ */
+export function errorFromResponse(
+  response: {
+    statusCode: number;
+    headers?: Record<string, string | string[] | undefined>;
+    body: unknown;
+  },
+  func?: string
+): SeedrAPIError {
+  const body = response.body;
+  const fields: Partial<T.SeedrError> & { result?: unknown } =
+    body && typeof body === 'object' ? body : {};
+  const details: ErrorDetails = {
+    status: response.statusCode,
+    error: typeof fields.error === 'string' ? fields.error : undefined,
+    error_description:
+      typeof fields.error_description === 'string'
+        ? fields.error_description
+        : undefined,
+    func,
+    body,
+  };
+  const message =
+    details.error_description ??
+    details.error ??
+    `Unexpected Response (${response.statusCode}): ${JSON.stringify(body)}`;
+  const text = [details.error, details.error_description, fields.result]
+    .filter((value) => typeof value === 'string')
+    .join(' ')
+    .toLowerCase();
+
+  if (
+    response.statusCode == 401 ||
+    response.statusCode == 403 ||
+    AUTH_ERRORS.includes(details.error ?? '')
+  ) {
+    return new AuthError(message, details);
+  }
+  if (response.statusCode == 429 || text.includes('too many')) {
+    const retryAfter = Number(response.headers?.['retry-after']);
+    return new RateLimitError(message, {
+      ...details,
+      retryAfter: Number.isFinite(retryAfter) ? retryAfter * 1000 : undefined,
+    });
+  }
+  if (
+    response.statusCode == 413 ||
+    response.statusCode == 507 ||
+    /space|quota/.test(text)
+  ) {
+    return new QuotaError(message, details);
+  }
+  if (response.statusCode == 404 || /not[ _]found|not[ _]exist/.test(text)) {
+    return new NotFoundError(message, details);
+  }
+  return new UnexpectedResponseError(message, details);
+}
+
+/**
+ * Converts an error thrown while making a request into the matching error class.
+ * @param {unknown} e - The thrown error.
+ * @param {string} [func] - (optional) Seedr API function name / endpoint.
+ * @returns {SeedrAPIError} Error instance describing the failure.
+ */
+export function errorFromRequest(e: unknown, func?: string): SeedrAPIError {
+  if (e instanceof SeedrAPIError) return e;
+  if (e instanceof ParseError) {
+    return new UnexpectedResponseError(
+      `Unexpected Response (${e.response.statusCode}): ${e.message}`,
+      {
+        status: e.response.statusCode,
+        func,
+        body: e.response.body,
+        cause: e,
+      }
+    );
+  }
+  if (e instanceof RequestError && e.response) {
+    return errorFromResponse(
+      {
+        statusCode: e.response.statusCode,
+        headers: e.response.headers,
+        body: e.response.body,
+      },
+      func
+    );
+  }
+  return new TransportError(
+    `Request failed${func ? ` (${func})` : ''}: ${(e as Error).message}`,
+    { func, cause: e }
+  );
+}
@@ -0,0 +1,354 @@
+import * as T from './types';
+import { parseMagnet } from './TorrentInfo';
+import type { Seedr } from './Seedr';
+
+import { EventEmitter } from 'events';
+
+/** Item keys kept to skip processed items, oldest first. */
+const MAX_SEEN = 10000;
+/** Episode keys kept to skip duplicate episodes, oldest first. */
+const MAX_EPISODES = 10000;
+
+const UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1e3,
+  mb: 1e6,
+  gb: 1e9,
+  tb: 1e12,
+  kib: 1024,
+  mib: 1024 ** 2,
+  gib: 1024 ** 3,
+  tib: 1024 ** 4,
+};
+
+type Element = { attributes: Record<string, string>; text: string };
+
+function decodeEntities(text: string): string {
+  return text.replace(
+    /&(?:#(\d+)|#x([0-9a-f]+)|(amp|lt|gt|quot|apos));/gi,
+    (_, dec, hex, name: string | undefined) => {
+      if (dec) return String.fromCodePoint(Number(dec));
+      if (hex) return String.fromCodePoint(parseInt(hex, 16));
+      return { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }[
+        name!.toLowerCase() as 'amp'
+      ];
+    }
+  );
+}
+
+function decodeText(text: string): string {
+  const cdata = /^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/.exec(text);
+  return cdata ? cdata[1]!.trim() : decodeEntities(text).trim();
+}
+
+/**
+ * Elements of the given local name (any namespace prefix) in an XML fragment.
+ */
+function elements(xml: string, name: string): Element[] {
+  const pattern = new RegExp(
+    `<(?:[\\w.-]+:)?${name}(\\s[^>]*?)?(?:/>|>([\\s\\S]*?)</(?:[\\w.-]+:)?${name}\\s*>)`,
+    'gi'
+  );
+  return [...xml.matchAll(pattern)].map((match) => {
+    const attributes: Record<string, string> = {};
+    for (const [, key, double, single] of (match[1] ?? '').matchAll(
+      /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+    )) {
+      attributes[key!.toLowerCase()] = decodeEntities(double ?? single ?? '');
+    }
+    return { attributes, text: decodeText(match[2] ?? '') };
+  });
+}
+
+function text(xml: string, ...names: string[]): string | undefined {
+  for (const name of names) {
+    const value = elements(xml, name).find((element) => element.text)?.text;
+    if (value) return value;
+  }
+}
+
+/**
+ * Parses sizes like `1.5 GiB` or `700 MB`.
+ */
+function parseSize(value: string | undefined): number | undefined {
+  const match = /^([\d.]+)\s*([kmgt]i?b|b)?$/i.exec(value?.trim() ?? '');
+  if (!match) return;
+  const size = Math.round(
+    Number(match[1]) * (UNITS[(match[2] ?? 'b').toLowerCase()] ?? 1)
+  );
+  return Number.isFinite(size) && size > 0 ? size : undefined;
+}
+
+function parseItem(xml: string): T.FeedItem {
+  const title = text(xml, 'title') ?? '';
+  const enclosures = elements(xml, 'enclosure');
+  const links = elements(xml, 'link');
+  const candidates = [
+    ...enclosures.map((element) => element.attributes.url),
+    ...links.map((element) => element.attributes.href ?? element.text),
+    text(xml, 'magnetURI'),
+    text(xml, 'guid', 'id'),
+  ].filter((url): url is string => !!url);
+
+  let magnet = candidates.find((url) => url.startsWith('magnet:'));
+  const infoHash = text(xml, 'infoHash');
+  if (!magnet && infoHash && /^[0-9a-f]{40}$/i.test(infoHash)) {
+    magnet = `magnet:?xt=urn:btih:${infoHash}&dn=${encodeURIComponent(title)}`;
+  }
+  const torrent = [...enclosures, ...links].find((element) =>
+    /bittorrent/i.test(element.attributes.type ?? '')
+  );
+  const url =
+    torrent?.attributes.url ??
+    torrent?.attributes.href ??
+    candidates.find(
+      (url) => /^https?:/i.test(url) && /\.torrent(\?|#|$)/i.test(url)
+    );
+
+  let size =
+    parseSize(torrent?.attributes.length) ??
+    parseSize(text(xml, 'contentLength')) ??
+    parseSize(text(xml, 'size'));
+  if (size === undefined && magnet) {
+    try {
+      size = parseMagnet(magnet).size;
+    } catch {
+      // Invalid magnets are left to Seedr.
+    }
+  }
+  const date = text(xml, 'pubDate', 'published', 'updated', 'date');
+  const published = date ? new Date(date) : undefined;
+  return {
+    id: text(xml, 'guid', 'id') ?? url ?? magnet ?? title,
+    title,
+    magnet,
+    url,
+    size,
+    published: published && !isNaN(published.getTime()) ? published : undefined,
+  };
+}
+
+/**
+ * Parses the items of an RSS or Atom feed, finding magnets and .torrent URLs in enclosures, links, guids and torrent extensions.
+ * @param {string} xml - Feed document.
+ * @returns {T.FeedItem[]} Items in document order.
+ */
+export function parseFeed(xml: string): T.FeedItem[] {
+  return [
+    ...xml.matchAll(/<(item|entry)(?:\s[^>]*)?>([\s\S]*?)<\/\1\s*>/gi),
+  ].map((match) => parseItem(match[2]!));
+}
+
+/**
+ * Parses the show, season and episode of a release name.
+ * @param {string} title - Release name, eg. `[Group] Show.Name.S01E02.1080p`.
+ * @returns {T.Episode | undefined} The episode, undefined if not found.
+ */
+export function parseEpisode(title: string): T.Episode | undefined {
+  const name = title.replace(/^\s*(\[[^\]]*\]\s*)+/, '');
+  const match =
+    /^(.*?)\bS(\d{1,2})\s?E(\d{1,3})\b/i.exec(name) ??
+    /^(.*?)\b(\d{1,2})x(\d{2,3})\b/i.exec(name);
+  if (!match) return;
+  const show = match[1]!
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+  if (!show) return;
+  return { show, season: Number(match[2]), episode: Number(match[3]) };
+}
+
+function toRegExp(pattern: string | RegExp): RegExp {
+  return typeof pattern == 'string' ? new RegExp(pattern, 'i') : pattern;
+}
+
+function matches(pattern: RegExp, value: string): boolean {
+  pattern.lastIndex = 0;
+  return pattern.test(value);
+}
+
+/**
+ * Polls RSS and Atom feeds and adds new matching torrents, through `addTorrentMagnet` or `addTorrentURL`.
+ * Emits `added` and `skipped` for new items, items failing to be added are retried at the next poll.
+ */
+export class FeedWatcher extends EventEmitter<T.FeedWatcherEvents> {
+  #seedr: Seedr;
+  #options: T.FeedWatcherOptions;
+  #state?: Promise<T.FeedState>;
+  #timer?: ReturnType<typeof setTimeout>;
+  #polling?: Promise<T.FeedItem[]>;
+
+  /**
+   * Creates an instance of `FeedWatcher`.
+   * @param {Seedr} seedr - Client used to add torrents.
+   * @param {T.FeedWatcherOptions} options - Feeds, filters, target folder, store and interval.
+   */
+  constructor(seedr: Seedr, options: T.FeedWatcherOptions) {
+    super();
+    this.#seedr = seedr;
+    this.#options = options;
+  }
+
+  /**
+   * Whether polling is running.
+   */
+  get running(): boolean {
+    return this.#timer !== undefined;
+  }
+
+  /**
+   * Starts polling immediately and then at every interval.
+   */
+  start(): void {
+    if (this.#timer) return;
+    const tick = () => {
+      this.poll()
+        .catch((e) => {
+          if (this.listenerCount('error')) this.emit('error', e);
+        })
+        .finally(() => {
+          if (this.#timer) {
+            this.#timer = setTimeout(tick, this.#options.interval ?? 900000);
+          }
+        });
+    };
+    this.#timer = setTimeout(tick, 0);
+  }
+
+  /**
+   * Stops polling.
+   */
+  stop(): void {
+    clearTimeout(this.#timer);
+    this.#timer = undefined;
+  }
+
+  /**
+   * Polls all feeds once and adds new matching items, oldest first.
+   * A failing feed does not stop the others, the first error is thrown after polling them all.
+   * Concurrent calls share the same poll.
+   * @returns {Promise<T.FeedItem[]>} Promise resolving the added items.
+   */
+  poll(): Promise<T.FeedItem[]> {
+    this.#polling ??= this.#poll().finally(() => {
+      this.#polling = undefined;
+    });
+    return this.#polling;
+  }
+
+  async #poll(): Promise<T.FeedItem[]> {
+    const { feeds, store, interval, timeout, ...defaults } = this.#options;
+    const added: T.FeedItem[] = [];
+    let error: unknown;
+    for (const feed of feeds) {
+      const config = {
+        ...defaults,
+        ...(typeof feed == 'string' ? { url: feed } : feed),
+      };
+      try {
+        const xml = (
+          await this.#seedr.transport.external(config.url, {
+            func: 'feed',
+            timeout: timeout ?? 30000,
+          })
+        ).toString('utf-8');
+        await this.#process(config, parseFeed(xml), added);
+      } catch (e) {
+        this.#seedr.transport.logger.warn('Unable to poll feed', {
+          url: config.url,
+          error: e,
+        });
+        error ??= e;
+      }
+    }
+    if (error) throw error;
+    return added;
+  }
+
+  async #process(
+    config: T.FeedConfig,
+    items: T.FeedItem[],
+    added: T.FeedItem[]
+  ): Promise<void> {
+    const state = await this.#load();
+    const seen = new Set(state.seen);
+    // Feeds list the newest items first.
+    items.reverse();
+    if (items.every((item) => item.published)) {
+      items.sort((a, b) => a.published!.getTime() - b.published!.getTime());
+    }
+    let error: unknown;
+    for (const item of items) {
+      const key = `${config.url}#${item.id}`;
+      if (seen.has(key)) continue;
+      const episode = config.dedupeEpisodes
+        ? parseEpisode(item.title)
+        : undefined;
+      const episodeKey =
+        episode && `${episode.show}:${episode.season}:${episode.episode}`;
+      const reason = this.#filter(item, config, state, episodeKey);
+      if (reason) {
+        seen.add(key);
+        await this.#save(key);
+        this.emit('skipped', item, reason, config.url);
+        continue;
+      }
+      let response: T.RAddTorrent;
+      try {
+        response = item.magnet
+          ? await this.#seedr.addTorrentMagnet(item.magnet, config.folder_id)
+          : await this.#seedr.addTorrentURL(item.url!, config.folder_id);
+      } catch (e) {
+        // Retried at the next poll.
+        error ??= e;
+        continue;
+      }
+      seen.add(key);
+      await this.#save(key, episodeKey);
+      added.push(item);
+      this.emit('added', item, response, config.url);
+    }
+    if (error) throw error;
+  }
+
+  #filter(
+    item: T.FeedItem,
+    filter: T.FeedFilter,
+    state: T.FeedState,
+    episodeKey?: string
+  ): T.FeedSkipReason | undefined {
+    if (!item.magnet && !item.url) return 'no-torrent';
+    if (filter.include && !matches(toRegExp(filter.include), item.title)) {
+      return 'include';
+    }
+    if (filter.exclude && matches(toRegExp(filter.exclude), item.title)) {
+      return 'exclude';
+    }
+    if (
+      item.size !== undefined &&
+      (item.size < (filter.minSize ?? 0) ||
+        item.size > (filter.maxSize ?? Infinity))
+    ) {
+      return 'size';
+    }
+    if (episodeKey && state.episodes.includes(episodeKey)) return 'duplicate';
+  }
+
+  #load(): Promise<T.FeedState> {
+    this.#state ??= Promise.resolve(this.#options.store?.load()).then(
+      (state) => state ?? { seen: [], episodes: [] }
+    );
+    return this.#state;
+  }
+
+  async #save(key: string, episodeKey?: string): Promise<void> {
+    const state = await this.#load();
+    state.seen.push(key);
+    state.seen.splice(0, state.seen.length - MAX_SEEN);
+    if (episodeKey) {
+      state.episodes.push(episodeKey);
+      state.episodes.splice(0, state.episodes.length - MAX_EPISODES);
+    }
+    await this.#options.store?.save(state);
+  }
+}
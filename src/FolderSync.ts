@@ -0,0 +1,366 @@
+import * as T from './types';
+import { NotFoundError } from './Errors';
+import { DownloadTracker, downloadFile, hashFile } from './Download';
+import { writeAtomic } from './State';
+import { createLimiter, splitPath } from './utils';
+import type { SeedrExtended } from './SeedrExtended';
+
+import fs from 'fs-extra';
+import path from 'path';
+import { EventEmitter } from 'events';
+
+const MANIFEST = '.seedr-sync.json';
+
+/**
+ * Syncs a Seedr folder subtree onto a local directory, comparing sizes and hashes.
+ * Keeps a manifest of synced files for incremental runs, `start` runs continuously and emits `plan` before acting and `synced` after.
+ */
+export class FolderSync extends EventEmitter<T.FolderSyncEvents> {
+  #seedr: SeedrExtended;
+  #options: T.SyncOptions;
+  #manifest: string;
+  #timer?: ReturnType<typeof setTimeout>;
+  #syncing?: Promise<T.SyncPlan>;
+  /** Files found in sync by hash during the last plan, recorded by the next run. */
+  #verified = new Map<string, T.SyncManifestEntry>();
+
+  /**
+   * Creates an instance of `FolderSync`.
+   * @param {SeedrExtended} seedr - Client used to list, download and delete files.
+   * @param {T.SyncOptions} options - Local directory, Seedr folder, deletion and watch options.
+   */
+  constructor(seedr: SeedrExtended, options: T.SyncOptions) {
+    super();
+    this.#seedr = seedr;
+    this.#options = options;
+    this.#manifest = options.manifest ?? path.join(options.localDir, MANIFEST);
+  }
+
+  /**
+   * Whether the sync runs at every interval.
+   */
+  get running(): boolean {
+    return this.#timer !== undefined;
+  }
+
+  /**
+   * Compares the Seedr folder with the local directory, without changing anything.
+   * @returns {Promise<T.SyncPlan>} Promise resolving the actions a run would take.
+   * @throws {NotFoundError} If `options.path` does not resolve to a folder.
+   * @throws {Error} If `localDir` is missing after a previous sync, or the plan deletes more synced files than `maxDeleteRatio` allows.
+   */
+  async plan(): Promise<T.SyncPlan> {
+    const { localDir, mode, deleteOrphans, deleteRemote } = this.#options;
+    const manifest = await this.#loadManifest();
+    // An unmounted or moved directory would read as every file deleted locally.
+    if (
+      Object.keys(manifest.files).length &&
+      !(await fs.pathExists(localDir))
+    ) {
+      throw new Error(`Local directory not found: ${localDir}`);
+    }
+    const remote = await this.#listRemote();
+    const local = await this.#listLocal();
+    const downloads: T.SyncAction[] = [];
+    const deletions: T.SyncAction[] = [];
+    let unchanged = 0;
+    this.#verified.clear();
+
+    for (const [relative, file] of remote) {
+      const synced = manifest.files[relative];
+      const stat = local.get(relative);
+      if (!stat) {
+        if (mode == 'two-way' && synced?.hash == file.hash) {
+          deletions.push({
+            type: 'delete-remote',
+            path: relative,
+            file,
+            reason: 'deleted-locally',
+          });
+        } else {
+          downloads.push({
+            type: 'download',
+            path: relative,
+            file,
+            reason: 'new',
+          });
+        }
+        continue;
+      }
+      const dest = path.join(localDir, ...splitPath(relative));
+      if (!(await this.#matches(relative, dest, stat, file, synced))) {
+        downloads.push({
+          type: 'download',
+          path: relative,
+          file,
+          reason: 'changed',
+        });
+        continue;
+      }
+      unchanged++;
+      if (deleteRemote) {
+        deletions.push({
+          type: 'delete-remote',
+          path: relative,
+          file,
+          reason: 'downloaded',
+        });
+      }
+    }
+    if (deleteRemote) {
+      for (const action of downloads) {
+        if (action.type != 'download') continue;
+        deletions.push({
+          type: 'delete-remote',
+          path: action.path,
+          file: action.file,
+          reason: 'downloaded',
+        });
+      }
+    }
+    if (deleteOrphans) {
+      for (const relative of local.keys()) {
+        if (remote.has(relative) || manifest.files[relative]?.remoteDeleted) {
+          continue;
+        }
+        deletions.unshift({
+          type: 'delete-local',
+          path: relative,
+          reason: 'orphan',
+        });
+      }
+    }
+    const destructive = deletions.filter(
+      (action) => action.reason != 'downloaded'
+    ).length;
+    const synced = new Set([...Object.keys(manifest.files), ...local.keys()])
+      .size;
+    const ratio = this.#options.maxDeleteRatio ?? 0.5;
+    if (destructive > synced * ratio) {
+      throw new Error(
+        `Refusing to delete ${destructive} of ${synced} synced files, raise maxDeleteRatio to allow it`
+      );
+    }
+    return {
+      actions: [...downloads, ...deletions],
+      unchanged,
+      bytes: downloads.reduce(
+        (total, action) =>
+          total + (action.type == 'download' ? action.file.size : 0),
+        0
+      ),
+    };
+  }
+
+  /**
+   * Runs a sync: downloads, then deletes local orphans and remote files, and updates the manifest.
+   * Remote files are only deleted once downloaded, a failed download leaves its file on Seedr.
+   * @param {T.SyncPlan} [plan] - (optional) Plan from `plan()` to execute, computed when omitted.
+   * @returns {Promise<T.SyncPlan>} Promise resolving the executed plan.
+   */
+  run(plan?: T.SyncPlan): Promise<T.SyncPlan> {
+    this.#syncing ??= this.#run(plan).finally(() => {
+      this.#syncing = undefined;
+    });
+    return this.#syncing;
+  }
+
+  /**
+   * Runs immediately and then at every interval, emitting `plan` and `synced` for runs with actions.
+   */
+  start(): void {
+    if (this.#timer) return;
+    const tick = () => {
+      this.run()
+        .catch((e) => {
+          if (this.listenerCount('error')) this.emit('error', e);
+        })
+        .finally(() => {
+          if (this.#timer) {
+            this.#timer = setTimeout(tick, this.#options.interval ?? 60000);
+          }
+        });
+    };
+    this.#timer = setTimeout(tick, 0);
+  }
+
+  /**
+   * Stops running at every interval, a run in progress completes.
+   */
+  stop(): void {
+    clearTimeout(this.#timer);
+    this.#timer = undefined;
+  }
+
+  async #run(plan?: T.SyncPlan): Promise<T.SyncPlan> {
+    plan ??= await this.plan();
+    const manifest = await this.#loadManifest();
+    const verified = this.#verified.size;
+    for (const [relative, entry] of this.#verified) {
+      manifest.files[relative] = entry;
+    }
+    this.#verified.clear();
+    if (!plan.actions.length) {
+      if (verified) writeAtomic(this.#manifest, JSON.stringify(manifest));
+      return plan;
+    }
+    this.emit('plan', plan);
+    const { localDir } = this.#options;
+    const local = (relative: string) =>
+      path.join(localDir, ...splitPath(relative));
+    const record = async (relative: string, file: T.File) => {
+      const { mtimeMs } = await fs.stat(local(relative));
+      manifest.files[relative] = {
+        id: file.folder_file_id,
+        size: file.size,
+        hash: file.hash,
+        mtimeMs,
+      };
+    };
+
+    const downloads = plan.actions.filter(
+      (action) => action.type == 'download'
+    );
+    const tracker = new DownloadTracker(plan.bytes);
+    const limit = createLimiter(this.#options.concurrency ?? 2);
+    const failed = new Set<string>();
+    let error: unknown;
+    await Promise.all(
+      downloads.map((action) =>
+        limit(async () => {
+          const dest = local(action.path);
+          // Same-size changes would otherwise be skipped as complete, a `.part` file
+          // forces the download and only replaces the local file once it succeeds.
+          if (action.reason == 'changed') await fs.ensureFile(`${dest}.part`);
+          await downloadFile(
+            this.#seedr.transport,
+            {
+              id: action.file.folder_file_id,
+              size: action.file.size,
+              hash: action.file.hash,
+            },
+            dest,
+            async () =>
+              (
+                await this.#seedr.fetchFile(action.file.folder_file_id)
+              ).url,
+            tracker,
+            { verify: this.#options.verify }
+          );
+          await record(action.path, action.file);
+        }).catch((e) => {
+          failed.add(action.path);
+          error ??= e;
+        })
+      )
+    );
+
+    const remove: T.File[] = [];
+    for (const action of plan.actions) {
+      if (action.type == 'delete-local') {
+        await fs.remove(local(action.path));
+        delete manifest.files[action.path];
+      } else if (action.type == 'delete-remote' && !failed.has(action.path)) {
+        remove.push(action.file);
+        if (action.reason == 'deleted-locally') {
+          delete manifest.files[action.path];
+        } else {
+          manifest.files[action.path] ??= {
+            id: action.file.folder_file_id,
+            size: action.file.size,
+            hash: action.file.hash,
+            mtimeMs: 0,
+          };
+          manifest.files[action.path]!.remoteDeleted = true;
+        }
+      }
+    }
+    if (remove.length) {
+      await this.#seedr.delete({
+        file: remove.map((file) => file.folder_file_id),
+      });
+    }
+    writeAtomic(this.#manifest, JSON.stringify(manifest));
+    if (error) throw error;
+    this.emit('synced', plan);
+    return plan;
+  }
+
+  /**
+   * Whether a local file matches the remote one: trusted from the manifest when unmodified since the last sync, else by size and hash.
+   */
+  async #matches(
+    relative: string,
+    dest: string,
+    stat: fs.Stats,
+    file: T.File,
+    synced?: T.SyncManifestEntry
+  ): Promise<boolean> {
+    if (stat.size != file.size) return false;
+    if (synced && synced.size == stat.size && synced.mtimeMs == stat.mtimeMs) {
+      return synced.hash == file.hash;
+    }
+    const digest = file.hash ? await hashFile(dest, file.hash) : undefined;
+    if (digest !== undefined && digest != file.hash.toLowerCase()) return false;
+    this.#verified.set(relative, {
+      id: file.folder_file_id,
+      size: file.size,
+      hash: file.hash,
+      mtimeMs: stat.mtimeMs,
+    });
+    return true;
+  }
+
+  async #listRemote(): Promise<Map<string, T.File>> {
+    let folder_id = this.#options.folder_id;
+    if (this.#options.path !== undefined) {
+      const entry = await this.#seedr.resolvePath(this.#options.path);
+      if (entry.type != 'folder') {
+        throw new NotFoundError(`Not a folder: ${entry.path}`);
+      }
+      folder_id = entry.id;
+    }
+    const files = new Map<string, T.File>();
+    let base: string | undefined;
+    for await (const entry of this.#seedr.walk({ folder_id })) {
+      // The first entry's parent is the synced folder.
+      base ??= path.posix.dirname(entry.path);
+      if (entry.type == 'file') {
+        files.set(path.posix.relative(base, entry.path), entry.file);
+      }
+    }
+    return files;
+  }
+
+  async #listLocal(): Promise<Map<string, fs.Stats>> {
+    const files = new Map<string, fs.Stats>();
+    const manifest = path.resolve(this.#manifest);
+    const walk = async (dir: string, prefix: string): Promise<void> => {
+      const entries = await fs.readdir(dir, { withFileTypes: true });
+      for (const entry of entries) {
+        const full = path.join(dir, entry.name);
+        const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) {
+          await walk(full, relative);
+        } else if (
+          entry.isFile() &&
+          !entry.name.endsWith('.part') &&
+          // The manifest and its temporary files.
+          !path.resolve(full).startsWith(manifest)
+        ) {
+          files.set(relative, await fs.stat(full));
+        }
+      }
+    };
+    if (await fs.pathExists(this.#options.localDir)) {
+      await walk(this.#options.localDir, '');
+    }
+    return files;
+  }
+
+  async #loadManifest(): Promise<T.SyncManifest> {
+    if (!(await fs.pathExists(this.#manifest)))
+      return { version: 1, files: {} };
+    return fs.readJSON(this.#manifest);
+  }
+}
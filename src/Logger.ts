@@ -0,0 +1,60 @@
+import * as T from './types';
+
+const LEVELS: T.LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * Logger discarding everything, used when no `logger` option is given.
+ */
+export const noopLogger: T.Logger = {
+  debug() {},
+  info() {},
+  warn() {},
+  error() {},
+};
+
+/**
+ * Logger writing to `console`, with structured fields appended as JSON.
+ */
+export class ConsoleLogger implements T.Logger {
+  level: T.LogLevel;
+
+  /**
+   * Creates an instance of `ConsoleLogger`.
+   * @param {T.LogLevel} [level='info'] - (optional) Minimum level written.
+   */
+  constructor(level: T.LogLevel = 'info') {
+    this.level = level;
+  }
+
+  debug(message: string, fields?: T.LogFields): void {
+    this.#log('debug', message, fields);
+  }
+
+  info(message: string, fields?: T.LogFields): void {
+    this.#log('info', message, fields);
+  }
+
+  warn(message: string, fields?: T.LogFields): void {
+    this.#log('warn', message, fields);
+  }
+
+  error(message: string, fields?: T.LogFields): void {
+    this.#log('error', message, fields);
+  }
+
+  #log(level: T.LogLevel, message: string, fields?: T.LogFields): void {
+    if (LEVELS.indexOf(level) < LEVELS.indexOf(this.level)) return;
+    const text = `[seedr-js] ${message}`;
+    if (fields && Object.keys(fields).length) {
+      console[level](text, JSON.stringify(fields, replacer));
+    } else {
+      console[level](text);
+    }
+  }
+}
+
+function replacer(_: string, value: unknown): unknown {
+  return value instanceof Error
+    ? { name: value.name, message: value.message }
+    : value;
+}
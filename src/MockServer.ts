@@ -0,0 +1,1011 @@
+import * as T from './types';
+import { FileSchema, parse } from './Schema';
+import { parseTorrentFile } from './TorrentInfo';
+
+import http from 'http';
+import crypto from 'crypto';
+import type { AddressInfo } from 'net';
+
+const ROOT_ID = 1;
+
+type MockFolder = {
+  id: number;
+  name: string;
+  parent: number;
+  last_update: string;
+  is_shared: boolean;
+};
+
+/** Wire format of `V`: dates as `YYYY-MM-DD HH:MM:SS` strings and the `Flags` booleans as 0 / 1. */
+type Wire<V, Flags extends keyof V = never> = {
+  [K in keyof V]: V[K] extends Date ? string : K extends Flags ? number : V[K];
+};
+
+type MockFile = Wire<T.File, 'is_lost'>;
+
+type MockWishlistItem = Wire<T.WishlistItem, 'is_private'>;
+
+/** Wire format of a torrent, `progress` is a string and counters may be numeric strings, normalized by the client. */
+export type WireTorrent = Omit<
+  Wire<T.Torrent, 'stopped'>,
+  'progress' | 'download_rate' | 'seeders' | 'leechers'
+> & {
+  progress: string;
+  download_rate: number | string;
+  seeders: number | string;
+  leechers: number | string;
+};
+
+type MockTorrent = WireTorrent & {
+  folder_id: number;
+  files: { name: string; size: number }[];
+};
+
+type MockResponse = {
+  status: number;
+  body: unknown;
+  headers?: Record<string, string>;
+  raw?: Buffer;
+};
+
+type MockParams = Map<string, string | { filename: string; data: Buffer }>;
+
+export type MockServerOptions = {
+  /** Accepted login username. Defaults to `user@example.com`. */
+  username?: string;
+  /** Accepted login password. Defaults to `password`. */
+  password?: string;
+  /** Validity of OAuth access tokens in seconds. Defaults to 3600. */
+  tokenTTL?: number;
+  /** Validity of device codes in seconds. Defaults to 600. */
+  deviceCodeTTL?: number;
+  /** Polling interval of device codes in seconds. Defaults to 5. */
+  deviceInterval?: number;
+  /** Storage space of the account in bytes. Defaults to 5 GB. */
+  space_max?: number;
+};
+
+/**
+ * In-process fake of the Seedr OAuth, device and resource endpoints with an in-memory account.
+ * Point `Seedr` at it with the `baseUrl` client option.
+ */
+export class MockServer {
+  readonly username: string;
+  readonly password: string;
+  tokenTTL: number;
+  deviceCodeTTL: number;
+  deviceInterval: number;
+  space_max: number;
+  bandwidth_used = 0;
+
+  folders = new Map<number, MockFolder>();
+  files = new Map<number, MockFile>();
+  torrents = new Map<number, MockTorrent>();
+  wishlist = new Map<number, MockWishlistItem>();
+  devices: T.RDevices['devices'] = [];
+  settings: T.AccountSettings = {
+    allow_remote_access: true,
+    site_language: 'en',
+    subtitles_language: 'en',
+    email_announcements: false,
+    email_newsletter: false,
+  };
+  /** Subtitles of video files, keyed by `folder_file_id`. */
+  subtitles = new Map<number, (T.Subtitle & { content: string })[]>();
+  /** Results returned by `scan_page`, keyed by URL. */
+  scanResults = new Map<string, T.RScanResults['torrents']>();
+  /** Log of every received request as `func` name / endpoint. */
+  calls: string[] = [];
+
+  #server?: http.Server;
+  #url?: string;
+  #nextId = 100;
+  #tokens = new Map<string, number>();
+  #refreshTokens = new Set<string>();
+  #deviceCodes = new Map<
+    string,
+    { user_code: string; expiry: number; authorized: boolean }
+  >();
+  #failures = new Map<string, MockResponse[]>();
+  #contents = new Map<number, Buffer>();
+  #urlVersion = 0;
+
+  /**
+   * Creates an instance of `MockServer`.
+   * @param {MockServerOptions} [options] - (optional) Account and token settings.
+   */
+  constructor(options: MockServerOptions = {}) {
+    this.username = options.username ?? 'user@example.com';
+    this.password = options.password ?? 'password';
+    this.tokenTTL = options.tokenTTL ?? 3600;
+    this.deviceCodeTTL = options.deviceCodeTTL ?? 600;
+    this.deviceInterval = options.deviceInterval ?? 5;
+    this.space_max = options.space_max ?? 5 * 1024 ** 3;
+    this.folders.set(ROOT_ID, {
+      id: ROOT_ID,
+      name: '',
+      parent: 0,
+      last_update: timestamp(),
+      is_shared: false,
+    });
+  }
+
+  /**
+   * Base URL of the running server, to be used as `baseUrl`.
+   */
+  get url(): string {
+    if (!this.#url) throw new Error('MockServer is not started');
+    return this.#url;
+  }
+
+  /**
+   * Starts listening on localhost.
+   * @param {number} [port=0] - (optional) Port to listen on, random by default.
+   * @returns {Promise<string>} Promise resolving the base URL.
+   */
+  async start(port: number = 0): Promise<string> {
+    const server = http.createServer((req, res) => {
+      this.#handle(req).then(
+        ({ status, body, headers, raw }) => {
+          if (raw) {
+            res.writeHead(status, headers);
+            res.end(raw);
+            return;
+          }
+          res.writeHead(status, { 'content-type': 'application/json' });
+          res.end(JSON.stringify(body));
+        },
+        (e) => {
+          res.writeHead(500, { 'content-type': 'application/json' });
+          res.end(
+            JSON.stringify({
+              error: 'server_error',
+              error_description: String(e),
+            })
+          );
+        }
+      );
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(port, '127.0.0.1', resolve)
+    );
+    this.#server = server;
+    this.#url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    return this.#url;
+  }
+
+  /**
+   * Stops the server.
+   * @returns {Promise<void>} Promise resolving once closed.
+   */
+  async stop(): Promise<void> {
+    const server = this.#server;
+    if (!server) return;
+    this.#server = undefined;
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  }
+
+  /**
+   * Creates a folder in the account.
+   * @param {string} name - Folder name.
+   * @param {number} [parent] - (optional) Parent folder ID, defaults to root.
+   * @returns {number} ID of the new folder.
+   */
+  addFolder(name: string, parent: number = ROOT_ID): number {
+    if (!this.folders.has(parent)) throw new Error(`No folder ${parent}`);
+    const id = this.#nextId++;
+    this.folders.set(id, {
+      id,
+      name,
+      parent,
+      last_update: timestamp(),
+      is_shared: false,
+    });
+    return id;
+  }
+
+  /**
+   * Creates a file in the account.
+   * Files created with `content` are downloadable and hashed (md5), files created with a size only serve zero-filled bytes.
+   * @param {number} folder_id - Folder to place the file in.
+   * @param {string} name - File name.
+   * @param {number | Buffer} [content=0] - (optional) File size in bytes, or the file content.
+   * @returns {T.File} The created file, as seen by the client.
+   */
+  addFile(
+    folder_id: number,
+    name: string,
+    content: number | Buffer = 0
+  ): T.File {
+    if (!this.folders.has(folder_id)) throw new Error(`No folder ${folder_id}`);
+    const id = this.#nextId++;
+    const size = typeof content == 'number' ? content : content.length;
+    if (typeof content != 'number') this.#contents.set(id, content);
+    const video = /\.(mkv|mp4|avi|webm)$/i.test(name);
+    const file: MockFile = {
+      name,
+      size,
+      hash: crypto
+        .createHash('md5')
+        .update(typeof content == 'number' ? `${id}:${name}` : content)
+        .digest('hex'),
+      folder_id,
+      folder_file_id: id,
+      file_id: id,
+      last_update: timestamp(),
+      play_audio: /\.(mp3|flac|aac|ogg)$/i.test(name),
+      play_video: video,
+      video_progress: '',
+      is_lost: 0,
+      thumb: video ? `${this.#url ?? ''}/thumb/${id}.jpg` : '',
+    };
+    this.files.set(id, file);
+    return parse(FileSchema, file).value;
+  }
+
+  /**
+   * Adds an active torrent, as if added through `add_torrent`.
+   * @param {object} torrent - Torrent name, size, hash and optional file list / target folder.
+   * @returns {number} ID of the torrent.
+   */
+  addTorrent(torrent: {
+    name: string;
+    size?: number;
+    hash?: string;
+    folder_id?: number;
+    files?: { name: string; size: number }[];
+  }): number {
+    const id = this.#nextId++;
+    const size = torrent.size ?? 0;
+    this.torrents.set(id, {
+      id,
+      name: torrent.name,
+      folder: '',
+      size,
+      hash:
+        torrent.hash ??
+        crypto.createHash('sha1').update(torrent.name).digest('hex'),
+      download_rate: 0,
+      torrent_quality: 0,
+      connected_to: 0,
+      downloading_from: 0,
+      uploading_to: 0,
+      seeders: 0,
+      leechers: 0,
+      warnings: null,
+      stopped: 0,
+      progress: '0',
+      progress_url: '',
+      last_update: timestamp(),
+      folder_id: torrent.folder_id ?? ROOT_ID,
+      files: torrent.files ?? [{ name: torrent.name, size }],
+    });
+    return id;
+  }
+
+  /**
+   * Updates progress of an active torrent.
+   * @param {number} id - Torrent ID.
+   * @param {Partial<WireTorrent>} update - Fields to change in wire format, eg. `progress: '50'`, `download_rate`, `seeders`.
+   */
+  updateTorrent(id: number, update: Partial<WireTorrent>): void {
+    const torrent = this.torrents.get(id);
+    if (!torrent) throw new Error(`No torrent ${id}`);
+    Object.assign(torrent, update, { last_update: timestamp() });
+  }
+
+  /**
+   * Completes an active torrent, converting it into a folder with its files.
+   * @param {number} id - Torrent ID.
+   * @returns {number} ID of the resulting folder.
+   */
+  completeTorrent(id: number): number {
+    const torrent = this.torrents.get(id);
+    if (!torrent) throw new Error(`No torrent ${id}`);
+    this.torrents.delete(id);
+    const folder_id = this.addFolder(torrent.name, torrent.folder_id);
+    for (const file of torrent.files) {
+      this.addFile(folder_id, file.name, file.size);
+    }
+    return folder_id;
+  }
+
+  /**
+   * Adds a subtitle to a video file, served at its `url`.
+   * @param {number} folder_file_id - The video file.
+   * @param {object} subtitle - Language code, title and content of the subtitle.
+   * @returns {number} ID of the subtitle.
+   */
+  addSubtitle(
+    folder_file_id: number,
+    subtitle: { language: string; title?: string; content: string }
+  ): number {
+    const id = this.#nextId++;
+    const subtitles = this.subtitles.get(folder_file_id) ?? [];
+    subtitles.push({
+      id,
+      language: subtitle.language,
+      title: subtitle.title ?? subtitle.language,
+      url: `${this.url}/sub_get/${id}.srt`,
+      content: subtitle.content,
+    });
+    this.subtitles.set(folder_file_id, subtitles);
+    return id;
+  }
+
+  /**
+   * Adds a wishlist item.
+   * @param {object} item - Title, magnet, size and privacy of the item.
+   * @returns {number} ID of the wishlist item.
+   */
+  addWishlistItem(item: {
+    title: string;
+    torrent_magnet: string;
+    size?: number;
+    is_private?: number;
+  }): number {
+    const id = this.#nextId++;
+    this.wishlist.set(id, {
+      id,
+      user_id: 1,
+      title: item.title,
+      size: item.size ?? 0,
+      torrent_hash: magnetHash(item.torrent_magnet),
+      torrent_magnet: item.torrent_magnet,
+      torrent_meta: '',
+      created: timestamp(),
+      added: 0,
+      is_private: item.is_private ?? 0,
+    });
+    return id;
+  }
+
+  /**
+   * Approves a pending device code, as done by the user in https://www.seedr.cc/devices
+   * @param {string} user_code - Code shown to the user.
+   */
+  authorizeDevice(user_code: string): void {
+    for (const code of this.#deviceCodes.values()) {
+      if (code.user_code == user_code) code.authorized = true;
+    }
+  }
+
+  /**
+   * Invalidates every issued access token, the next resource call fails with `expired_token`.
+   */
+  expireTokens(): void {
+    for (const token of this.#tokens.keys()) this.#tokens.set(token, 0);
+  }
+
+  /**
+   * Invalidates every download URL returned by `fetch_file`, further requests to them fail with 403.
+   */
+  expireUrls(): void {
+    this.#urlVersion++;
+  }
+
+  /**
+   * Makes the next call to `func` (or an endpoint, eg. `token.php`) respond with the given status and body.
+   * @param {string} func - Seedr API function name / endpoint.
+   * @param {number} status - HTTP status code.
+   * @param {unknown} body - Response body.
+   */
+  failNext(func: string, status: number, body: unknown): void {
+    const queue = this.#failures.get(func) ?? [];
+    queue.push({ status, body });
+    this.#failures.set(func, queue);
+  }
+
+  /**
+   * Storage used by all files and active torrents in bytes.
+   */
+  get space_used(): number {
+    let used = 0;
+    for (const file of this.files.values()) used += file.size;
+    for (const torrent of this.torrents.values()) used += torrent.size;
+    return used;
+  }
+
+  async #handle(req: http.IncomingMessage): Promise<MockResponse> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk);
+    const raw = Buffer.concat(chunks);
+    const params = parseBody(raw, req.headers['content-type'] ?? '');
+    const query = (key: string) => {
+      const value = url.searchParams.get(key) ?? params.get(key);
+      return typeof value == 'string' ? value : null;
+    };
+
+    const endpoint =
+      url.pathname == '/oauth_test/resource.php'
+        ? url.searchParams.get('func') ?? ''
+        : /^\/(ff_get|thumb|sub_get)\//.test(url.pathname)
+        ? url.pathname.split('/')[1]!
+        : url.pathname.replace(/^\/(oauth_test|api)\//, '');
+    this.calls.push(endpoint);
+    const failure = this.#failures.get(endpoint)?.shift();
+    if (failure) return failure;
+
+    if (endpoint == 'ff_get') {
+      return this.#download(url, req.headers.range);
+    }
+    if (endpoint == 'thumb' || endpoint == 'sub_get') {
+      return this.#media(endpoint, url);
+    }
+    switch (url.pathname) {
+      case '/oauth_test/token.php':
+        return this.#token(query);
+      case '/api/device/code':
+        return this.#deviceCode(query);
+      case '/api/device/authorize':
+        return this.#deviceAuthorize(query);
+      case '/oauth_test/resource.php': {
+        const auth = req.headers.authorization ?? '';
+        const token = auth.replace(/^Bearer /, '');
+        const expiry = this.#tokens.get(token);
+        if (expiry === undefined) {
+          return error(
+            401,
+            'invalid_token',
+            'The access token provided is invalid'
+          );
+        }
+        if (expiry < Date.now()) {
+          return error(
+            401,
+            'expired_token',
+            'The access token provided has expired'
+          );
+        }
+        return this.#resource(endpoint, query, params);
+      }
+    }
+    return error(404, 'not_found', `No endpoint ${url.pathname}`);
+  }
+
+  #issueToken(ttl: number): { access_token: string; expires_in: number } {
+    const access_token = crypto.randomBytes(20).toString('hex');
+    this.#tokens.set(access_token, Date.now() + ttl * 1000);
+    return { access_token, expires_in: ttl };
+  }
+
+  #token(query: (key: string) => string | null): MockResponse {
+    if (query('client_id') != 'seedr_chrome') {
+      return error(400, 'invalid_client', 'The client credentials are invalid');
+    }
+    if (query('grant_type') == 'password') {
+      if (
+        query('username') != this.username ||
+        query('password') != this.password
+      ) {
+        return error(
+          400,
+          'invalid_grant',
+          'Invalid username and password combination'
+        );
+      }
+      const refresh_token = crypto.randomBytes(20).toString('hex');
+      this.#refreshTokens.add(refresh_token);
+      return ok({
+        ...this.#issueToken(this.tokenTTL),
+        token_type: 'Bearer',
+        scope: null,
+        refresh_token,
+      });
+    }
+    if (query('grant_type') == 'refresh_token') {
+      if (!this.#refreshTokens.has(query('refresh_token') ?? '')) {
+        return error(400, 'invalid_grant', 'Invalid refresh token');
+      }
+      return ok({
+        ...this.#issueToken(this.tokenTTL),
+        token_type: 'Bearer',
+        scope: null,
+      });
+    }
+    return error(400, 'unsupported_grant_type', 'Grant type not supported');
+  }
+
+  #deviceCode(query: (key: string) => string | null): MockResponse {
+    if (query('client_id') != 'seedr_xbmc') {
+      return error(400, 'invalid_client', 'The client credentials are invalid');
+    }
+    const device_code = crypto.randomBytes(20).toString('hex');
+    const user_code = crypto.randomBytes(3).toString('hex').toUpperCase();
+    this.#deviceCodes.set(device_code, {
+      user_code,
+      expiry: Date.now() + this.deviceCodeTTL * 1000,
+      authorized: false,
+    });
+    return ok({
+      expires_in: this.deviceCodeTTL,
+      interval: this.deviceInterval,
+      device_code,
+      user_code,
+      verification_url: 'https://www.seedr.cc/devices',
+    });
+  }
+
+  #deviceAuthorize(query: (key: string) => string | null): MockResponse {
+    const code = this.#deviceCodes.get(query('device_code') ?? '');
+    if (!code) return error(400, 'invalid_grant', 'Invalid device code');
+    if (!code.authorized) {
+      if (code.expiry < Date.now()) {
+        return error(400, 'expired_token', 'The device code has expired');
+      }
+      return error(400, 'authorization_pending', 'Authorization pending');
+    }
+    this.devices.push({
+      client_id: 'seedr_xbmc',
+      client_name: 'Seedr XBMC',
+      device_code: query('device_code') ?? '',
+      tk: '',
+    });
+    return ok({
+      ...this.#issueToken(365 * 24 * 3600),
+      token_type: 'Bearer',
+    });
+  }
+
+  #resource(
+    func: string,
+    query: (key: string) => string | null,
+    params: MockParams
+  ): MockResponse {
+    switch (func) {
+      case 'test':
+        return ok({ result: true });
+      case 'add_torrent':
+        return this.#addTorrent(query, params);
+      case 'scan_page':
+        return ok({
+          result: true,
+          torrents: this.scanResults.get(query('url') ?? '') ?? [],
+        });
+      case 'list_contents': {
+        if (query('content_type') == 'torrent') {
+          const torrent = this.torrents.get(Number(query('content_id')));
+          if (!torrent) return error(404, 'not_found', 'Torrent not found');
+          return ok({ ...torrent, files: torrent.files });
+        }
+        const id = Number(query('content_id') ?? ROOT_ID);
+        if (!this.folders.has(id)) {
+          return error(404, 'not_found', 'Folder not found');
+        }
+        return ok(this.#folderDetails(id));
+      }
+      case 'search_files': {
+        const search = (query('search_query') ?? '').toLowerCase();
+        const root = this.#folderDetails(ROOT_ID);
+        return ok({
+          max_space: this.space_max,
+          used_space: this.space_used,
+          fullname: root.fullname,
+          name: root.name,
+          torrents: [...this.torrents.values()]
+            .filter((i) => i.name.toLowerCase().includes(search))
+            .map(torrentDetails),
+          folders: [...this.folders.values()]
+            .filter((i) => i.id != ROOT_ID)
+            .filter((i) => i.name.toLowerCase().includes(search))
+            .map((i) => this.#folder(i)),
+          files: [...this.files.values()].filter((i) =>
+            i.name.toLowerCase().includes(search)
+          ),
+        });
+      }
+      case 'fetch_file': {
+        const file = this.files.get(Number(query('folder_file_id')));
+        if (!file) return error(404, 'not_found', 'File not found');
+        return ok({
+          result: true,
+          url: `${this.url}/ff_get/${file.folder_file_id}/${encodeURIComponent(
+            file.name
+          )}?v=${this.#urlVersion}`,
+          name: file.name,
+        });
+      }
+      case 'play_video': {
+        const file = this.files.get(Number(query('folder_file_id')));
+        if (!file) return error(404, 'not_found', 'File not found');
+        if (!file.play_video) {
+          return error(400, 'invalid_request', 'File is not a video');
+        }
+        return ok({
+          result: true,
+          url_hls: `${this.url}/hls/${file.folder_file_id}/index.m3u8`,
+          url_preview: file.thumb,
+          video_progress: Number(file.video_progress) || 0,
+        });
+      }
+      case 'set_video_progress': {
+        const file = this.files.get(Number(query('folder_file_id')));
+        if (!file) return error(404, 'not_found', 'File not found');
+        file.video_progress = query('video_progress') ?? '';
+        return ok({ result: true });
+      }
+      case 'get_subtitles': {
+        const id = Number(query('folder_file_id'));
+        if (!this.files.has(id)) {
+          return error(404, 'not_found', 'File not found');
+        }
+        return ok({
+          result: true,
+          subtitles: (this.subtitles.get(id) ?? []).map(
+            ({ content: _, ...subtitle }) => subtitle
+          ),
+        });
+      }
+      case 'add_folder': {
+        const name = query('name');
+        if (!name) return error(400, 'invalid_request', 'Missing name');
+        this.addFolder(name);
+        return ok({ result: true, code: 200 });
+      }
+      case 'rename': {
+        const rename_to = query('rename_to');
+        if (!rename_to)
+          return error(400, 'invalid_request', 'Missing rename_to');
+        const item = query('folder_id')
+          ? this.folders.get(Number(query('folder_id')))
+          : this.files.get(Number(query('file_id')));
+        if (!item) return error(404, 'not_found', 'Item not found');
+        item.name = rename_to;
+        item.last_update = timestamp();
+        return ok({ result: true });
+      }
+      case 'delete': {
+        let items: { type: string; id: number }[];
+        try {
+          items = JSON.parse(query('delete_arr') ?? '');
+        } catch {
+          return error(400, 'invalid_request', 'Invalid delete_arr');
+        }
+        for (const item of items) {
+          if (item.type == 'folder') this.#deleteFolder(item.id);
+          else if (item.type == 'file') this.files.delete(item.id);
+          else if (item.type == 'torrent') this.torrents.delete(item.id);
+        }
+        return ok({ result: true });
+      }
+      case 'move': {
+        let items: { type: string; id: number }[];
+        try {
+          items = JSON.parse(query('move_arr') ?? '');
+        } catch {
+          return error(400, 'invalid_request', 'Invalid move_arr');
+        }
+        const move_to = Number(query('move_to'));
+        if (!this.folders.has(move_to)) {
+          return error(404, 'not_found', 'Folder not found');
+        }
+        for (const item of items) {
+          const exists =
+            item.type == 'folder'
+              ? this.folders.has(item.id) && item.id != ROOT_ID
+              : item.type == 'file' && this.files.has(item.id);
+          if (!exists) return error(404, 'not_found', 'Item not found');
+          for (let id = move_to; item.type == 'folder' && id != ROOT_ID; ) {
+            if (id == item.id) {
+              return error(400, 'invalid_request', 'Cannot move into itself');
+            }
+            id = this.folders.get(id)!.parent;
+          }
+        }
+        for (const item of items) {
+          if (item.type == 'folder')
+            this.folders.get(item.id)!.parent = move_to;
+          else this.files.get(item.id)!.folder_id = move_to;
+        }
+        return ok({ result: true });
+      }
+      case 'remove_wishlist': {
+        if (!this.wishlist.delete(Number(query('id')))) {
+          return error(404, 'not_found', 'Wishlist item not found');
+        }
+        return ok({ result: true });
+      }
+      case 'get_devices':
+        return ok({ result: true, devices: this.devices });
+      case 'get_settings':
+        return ok({
+          result: true,
+          settings: this.settings,
+          account: {
+            username: this.username,
+            user_id: 1,
+            premium: 0,
+            package_id: 0,
+            package_name: 'NON-PREMIUM',
+            space_used: this.space_used,
+            space_max: this.space_max,
+            bandwidth_used: this.bandwidth_used,
+            email: this.username,
+            wishlist: [...this.wishlist.values()],
+            invites: 0,
+            invites_accepted: 0,
+            max_invites: 0,
+          },
+          country: 'US',
+        });
+      case 'get_memory_bandwidth':
+        return ok({
+          bandwidth_used: this.bandwidth_used,
+          bandwidth_max: 0,
+          space_used: this.space_used,
+          space_max: this.space_max,
+          is_premium: 0,
+        });
+    }
+    return error(400, 'invalid_func', `Unknown function ${func}`);
+  }
+
+  #addTorrent(
+    query: (key: string) => string | null,
+    params: MockParams
+  ): MockResponse {
+    const torrent_file = params.get('torrent_file');
+    // Seedr ignores the folder of uploads.
+    const folder_id =
+      typeof torrent_file == 'object'
+        ? ROOT_ID
+        : Number(query('folder_id') || ROOT_ID);
+    if (!this.folders.has(folder_id)) {
+      return error(404, 'not_found', 'Folder not found');
+    }
+    let name: string;
+    let hash: string;
+    let size = 0;
+    let magnet = '';
+    const wishlist_id = query('wishlist_id');
+    if (wishlist_id) {
+      const item = this.wishlist.get(Number(wishlist_id));
+      if (!item) return error(404, 'not_found', 'Wishlist item not found');
+      if (this.space_used + item.size > this.space_max) {
+        return ok({ result: 'not_enough_space_wishlist_full' });
+      }
+      this.wishlist.delete(item.id);
+      name = item.title;
+      hash = item.torrent_hash;
+      size = item.size;
+      magnet = item.torrent_magnet;
+    } else if (query('torrent_magnet')) {
+      magnet = query('torrent_magnet') ?? '';
+      const params = new URLSearchParams(magnet.replace(/^magnet:\?/, ''));
+      hash = magnetHash(magnet);
+      if (!hash) return error(400, 'invalid_request', 'Invalid magnet');
+      name = params.get('dn') ?? hash;
+      size = Number(params.get('xl') ?? 0);
+    } else if (query('torrent_url')) {
+      const url = query('torrent_url') ?? '';
+      name =
+        url
+          .split('/')
+          .pop()
+          ?.replace(/\.torrent$/, '') || url;
+      hash = crypto.createHash('sha1').update(url).digest('hex');
+    } else if (torrent_file && typeof torrent_file != 'string') {
+      name = torrent_file.filename.replace(/\.torrent$/, '');
+      let info: T.TorrentInfo | undefined;
+      try {
+        info = parseTorrentFile(torrent_file.data);
+      } catch {
+        // Not a valid torrent, hashed as a whole below.
+      }
+      hash =
+        info?.infoHash ??
+        crypto.createHash('sha1').update(torrent_file.data).digest('hex');
+      size = info?.size ?? 0;
+    } else {
+      return error(400, 'invalid_request', 'No torrent supplied');
+    }
+    if (this.space_used + size > this.space_max) {
+      const id = this.addWishlistItem({
+        title: name,
+        torrent_magnet: magnet,
+        size,
+      });
+      return ok({
+        result: 'not_enough_space_added_to_wishlist',
+        wt: this.wishlist.get(id),
+      });
+    }
+    const id = this.addTorrent({ name, size, hash, folder_id });
+    return ok({
+      result: true,
+      user_torrent_id: id,
+      title: name,
+      torrent_hash: hash,
+    });
+  }
+
+  #download(url: URL, range?: string): MockResponse {
+    if (url.searchParams.get('v') != String(this.#urlVersion)) {
+      return error(403, 'access_denied', 'The download URL has expired');
+    }
+    const file = this.files.get(Number(url.pathname.split('/')[2]));
+    if (!file) return error(404, 'not_found', 'File not found');
+    const content =
+      this.#contents.get(file.folder_file_id) ?? Buffer.alloc(file.size);
+    this.bandwidth_used += content.length;
+    const start = Number(/^bytes=(\d+)-$/.exec(range ?? '')?.[1] ?? 0);
+    if (start >= content.length && start > 0) {
+      return {
+        status: 416,
+        body: null,
+        headers: { 'content-range': `bytes */${content.length}` },
+        raw: Buffer.alloc(0),
+      };
+    }
+    return {
+      status: start ? 206 : 200,
+      body: null,
+      headers: {
+        'content-type': 'application/octet-stream',
+        'accept-ranges': 'bytes',
+        ...(start && {
+          'content-range': `bytes ${start}-${content.length - 1}/${
+            content.length
+          }`,
+        }),
+      },
+      raw: content.subarray(start),
+    };
+  }
+
+  #media(endpoint: string, url: URL): MockResponse {
+    const id = Number(/(\d+)\.\w+$/.exec(url.pathname)?.[1]);
+    if (endpoint == 'thumb') {
+      if (!this.files.get(id)?.play_video) {
+        return error(404, 'not_found', 'Thumbnail not found');
+      }
+      return {
+        status: 200,
+        body: null,
+        headers: { 'content-type': 'image/jpeg' },
+        raw: Buffer.from(`thumb:${id}`),
+      };
+    }
+    const subtitle = [...this.subtitles.values()]
+      .flat()
+      .find((item) => item.id == id);
+    if (!subtitle) return error(404, 'not_found', 'Subtitle not found');
+    return {
+      status: 200,
+      body: null,
+      headers: { 'content-type': 'application/x-subrip' },
+      raw: Buffer.from(subtitle.content),
+    };
+  }
+
+  #deleteFolder(id: number): void {
+    for (const folder of [...this.folders.values()]) {
+      if (folder.parent == id) this.#deleteFolder(folder.id);
+    }
+    for (const file of [...this.files.values()]) {
+      if (file.folder_id == id) this.files.delete(file.folder_file_id);
+    }
+    if (id != ROOT_ID) this.folders.delete(id);
+  }
+
+  #fullname(id: number): string {
+    const names: string[] = [];
+    for (
+      let folder = this.folders.get(id);
+      folder && folder.id != ROOT_ID;
+      folder = this.folders.get(folder.parent)
+    ) {
+      names.unshift(folder.name);
+    }
+    return names.join('/');
+  }
+
+  #size(id: number): number {
+    let size = 0;
+    for (const file of this.files.values()) {
+      if (file.folder_id == id) size += file.size;
+    }
+    for (const folder of this.folders.values()) {
+      if (folder.parent == id && folder.id != id) size += this.#size(folder.id);
+    }
+    return size;
+  }
+
+  #folder(folder: MockFolder): Wire<T.Folder> {
+    const files = [...this.files.values()].filter(
+      (i) => i.folder_id == folder.id
+    );
+    return {
+      id: folder.id,
+      name: folder.name,
+      fullname: this.#fullname(folder.id),
+      size: this.#size(folder.id),
+      play_audio: files.some((i) => i.play_audio),
+      play_video: files.some((i) => i.play_video),
+      is_shared: folder.is_shared,
+      last_update: folder.last_update,
+    };
+  }
+
+  #folderDetails(id: number) {
+    const folder = this.folders.get(id) as MockFolder;
+    return {
+      space_max: this.space_max,
+      space_used: this.space_used,
+      saw_walkthrough: 1,
+      t: [],
+      timestamp: timestamp(),
+      folder_id: id,
+      fullname: this.#fullname(id),
+      type: 'folder',
+      name: folder.name,
+      parent: folder.parent,
+      indexes: [],
+      torrents: [...this.torrents.values()]
+        .filter((i) => i.folder_id == id)
+        .map(torrentDetails),
+      folders: [...this.folders.values()]
+        .filter((i) => i.parent == id && i.id != ROOT_ID)
+        .map((i) => this.#folder(i)),
+      files: [...this.files.values()].filter((i) => i.folder_id == id),
+    };
+  }
+}
+
+function parseBody(raw: Buffer, contentType: string): MockParams {
+  const params: MockParams = new Map();
+  const boundary = /boundary=(?:"([^"]+)"|([^;]+))/.exec(contentType);
+  if (!boundary) {
+    for (const [key, value] of new URLSearchParams(raw.toString())) {
+      params.set(key, value);
+    }
+    return params;
+  }
+  const delimiter = Buffer.from(`--${boundary[1] ?? boundary[2]}`);
+  let start = raw.indexOf(delimiter);
+  while (start != -1) {
+    const end = raw.indexOf(delimiter, start + delimiter.length);
+    if (end == -1) break;
+    const part = raw.subarray(start + delimiter.length + 2, end - 2);
+    const split = part.indexOf('\r\n\r\n');
+    const headers = part.subarray(0, split).toString();
+    const data = part.subarray(split + 4);
+    const name = /;\s*name="([^"]*)"/.exec(headers)?.[1];
+    const filename = /filename="([^"]*)"/.exec(headers)?.[1];
+    if (name != undefined) {
+      params.set(
+        name,
+        filename != undefined ? { filename, data } : data.toString()
+      );
+    }
+    start = end;
+  }
+  return params;
+}
+
+function timestamp(): string {
+  return new Date().toISOString().replace('T', ' ').slice(0, 19);
+}
+
+function magnetHash(magnet: string): string {
+  return (/xt=urn:btih:([0-9a-z]+)/i.exec(magnet)?.[1] ?? '').toLowerCase();
+}
+
+function torrentDetails(torrent: MockTorrent): WireTorrent {
+  const { folder_id, files, ...details } = torrent;
+  return details;
+}
+
+function ok(body: unknown): MockResponse {
+  return { status: 200, body };
+}
+
+function error(
+  status: number,
+  error: string,
+  error_description: string
+): MockResponse {
+  return { status, body: { error, error_description } };
+}
@@ -0,0 +1,431 @@
+import * as T from './types';
+import { TorrentWatcher } from './TorrentWatcher';
+import type { Seedr } from './Seedr';
+
+import crypto from 'crypto';
+import { spawn } from 'child_process';
+import { EventEmitter } from 'events';
+
+/** Event keys kept to skip duplicates, oldest first. */
+const MAX_KEYS = 1000;
+
+/**
+ * Signs a webhook body as sent in `X-Seedr-Signature`.
+ * @param {string} secret - Secret of the webhook.
+ * @param {string} timestamp - Value of `X-Seedr-Timestamp`, epoch seconds.
+ * @param {string} body - Raw request body.
+ * @returns {string} `sha256=` followed by the hex HMAC of `<timestamp>.<body>`.
+ */
+export function signPayload(
+  secret: string,
+  timestamp: string,
+  body: string
+): string {
+  const hmac = crypto.createHmac('sha256', secret);
+  return `sha256=${hmac.update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Watches torrents and storage usage, and delivers events to webhooks and local commands.
+ * Deliveries are retried with exponential backoff and kept in a log, so restarts neither resend nor drop events.
+ */
+export class Notifier extends EventEmitter<T.NotifierEvents> {
+  #seedr: Seedr;
+  #options: T.NotifierOptions;
+  #watcher: TorrentWatcher;
+  #log?: Promise<T.DeliveryLog>;
+  #timer?: ReturnType<typeof setTimeout>;
+  #flushing?: Promise<void>;
+  /** Torrents registered with the watcher, registered again after failed polls. */
+  #following = new Set<number>();
+
+  /**
+   * Creates an instance of `Notifier`.
+   * @param {Seedr} seedr - Client used to poll torrents and usage.
+   * @param {T.NotifierOptions} options - Targets, store, thresholds, retry and watcher options.
+   */
+  constructor(seedr: Seedr, options: T.NotifierOptions) {
+    super();
+    this.#seedr = seedr;
+    this.#options = options;
+    this.#watcher = new TorrentWatcher(seedr, options.watcher);
+    this.#watcher
+      .on('progress', (status) => {
+        this.#torrentEvent('torrent.started', `${status.id}`, status);
+      })
+      .on('stalled', (status) => {
+        // Stalls again at the same progress after a restart are duplicates.
+        this.#torrentEvent(
+          'torrent.stalled',
+          `${status.id}:${status.progress}`,
+          status
+        );
+      })
+      .on('completed', (status, folder) => {
+        this.#torrentEvent('torrent.completed', `${status.id}`, status, {
+          folder_id: folder.id,
+        });
+      })
+      .on('failed', (status, error) => {
+        this.#torrentEvent('torrent.failed', `${status.id}`, status, {
+          error: error.message,
+        });
+      })
+      .on('removed', (status) => {
+        this.#torrentEvent('torrent.removed', `${status.id}`, status);
+      })
+      .on('error', (e) => {
+        if (this.listenerCount('error')) this.emit('error', e);
+      });
+  }
+
+  /**
+   * Whether torrents and usage are watched and deliveries retried.
+   */
+  get running(): boolean {
+    return this.#timer !== undefined;
+  }
+
+  /**
+   * Lists pending deliveries and the most recent finished ones.
+   * @returns {Promise<T.Delivery[]>} Promise resolving the deliveries, oldest first.
+   */
+  async deliveries(): Promise<T.Delivery[]> {
+    return [...(await this.#load()).deliveries];
+  }
+
+  /**
+   * Follows a torrent added with `addTorrent`, also when it downloads outside the root or completes before the next poll.
+   * @param {T.RTorrentAdded} response - Response of adding the torrent.
+   * @param {object} [options] - (optional) Folder the torrent downloads into.
+   * @returns {Promise<void>} Promise resolving once the torrent is recorded.
+   */
+  async track(
+    response: T.RTorrentAdded,
+    options: { folder_id?: number } = {}
+  ): Promise<void> {
+    const log = await this.#load();
+    let torrent = log.torrents.find(
+      (torrent) => torrent.id == response.user_torrent_id
+    );
+    if (!torrent) {
+      torrent = {
+        id: response.user_torrent_id,
+        name: response.title,
+        hash: response.torrent_hash,
+        folder_id: options.folder_id,
+      };
+      log.torrents.push(torrent);
+      await this.#save();
+    }
+    this.#follow(torrent);
+  }
+
+  /**
+   * Starts watching, resumes torrents and deliveries from the log, and checks usage at every interval.
+   */
+  start(): void {
+    if (this.#timer) return;
+    const tick = () => {
+      this.#tick()
+        .catch((e) => {
+          if (this.listenerCount('error')) this.emit('error', e);
+        })
+        .finally(() => {
+          if (this.#timer) {
+            this.#timer = setTimeout(tick, this.#options.interval ?? 30000);
+          }
+        });
+    };
+    this.#timer = setTimeout(tick, 0);
+    this.#watcher.start();
+  }
+
+  /**
+   * Stops watching and retrying, an attempt in progress completes.
+   */
+  stop(): void {
+    clearTimeout(this.#timer);
+    this.#timer = undefined;
+    this.#watcher.stop();
+  }
+
+  /**
+   * Creates an event and a delivery for every matching target.
+   * @param {T.NotificationType} type - Event type.
+   * @param {Record<string, unknown>} data - Event data.
+   * @param {string} [key] - (optional) Unique key, events with a key already in the log are skipped.
+   * @returns {Promise<T.NotificationEvent | undefined>} Promise resolving the event, undefined if a duplicate.
+   */
+  async notify(
+    type: T.NotificationType,
+    data: Record<string, unknown>,
+    key?: string
+  ): Promise<T.NotificationEvent | undefined> {
+    const log = await this.#load();
+    if (key !== undefined) {
+      if (log.keys.includes(key)) return;
+      log.keys.push(key);
+      log.keys.splice(0, log.keys.length - MAX_KEYS);
+    }
+    const event: T.NotificationEvent = {
+      id: crypto.randomUUID(),
+      type,
+      created: Date.now(),
+      data,
+    };
+    const targets = [
+      ...(this.#options.webhooks ?? []),
+      ...(this.#options.commands ?? []),
+    ];
+    for (const target of targets) {
+      if (target.events && !target.events.includes(type)) continue;
+      log.deliveries.push({
+        id: crypto.randomUUID(),
+        event,
+        target: targetKey(target),
+        status: 'pending',
+        attempts: 0,
+        next: event.created,
+      });
+    }
+    await this.#save();
+    this.emit('event', event);
+    if (this.running) this.#run();
+    return event;
+  }
+
+  /**
+   * Compares usage with `storageThresholds` and notifies thresholds crossed since the last check.
+   * Usage below every threshold is assumed before the first check.
+   * @returns {Promise<void>} Promise resolving after creating the events.
+   */
+  async checkStorage(): Promise<void> {
+    const thresholds = this.#options.storageThresholds ?? [];
+    if (!thresholds.length) return;
+    const usage = await this.#seedr.getUsage();
+    const ratio = usage.space_max ? usage.space_used / usage.space_max : 0;
+    const log = await this.#load();
+    for (const threshold of thresholds) {
+      const above = ratio >= threshold;
+      if (above == (log.storage[threshold] ?? false)) continue;
+      log.storage[threshold] = above;
+      await this.notify('storage.threshold', {
+        threshold,
+        direction: above ? 'above' : 'below',
+        space_used: usage.space_used,
+        space_max: usage.space_max,
+      });
+    }
+  }
+
+  /**
+   * Attempts the pending deliveries that are due.
+   * Concurrent calls share the same run.
+   * @returns {Promise<void>} Promise resolving after the attempts.
+   */
+  flush(): Promise<void> {
+    this.#flushing ??= this.#flush().finally(() => {
+      this.#flushing = undefined;
+    });
+    return this.#flushing;
+  }
+
+  async #tick(): Promise<void> {
+    const log = await this.#load();
+    for (const torrent of log.torrents) this.#follow(torrent);
+    await this.checkStorage();
+    await this.flush();
+  }
+
+  async #flush(): Promise<void> {
+    const log = await this.#load();
+    const maxAttempts = this.#options.maxAttempts ?? 5;
+    // Deliveries created during the run are attempted too.
+    for (;;) {
+      const delivery = log.deliveries.find(
+        (delivery) =>
+          delivery.status == 'pending' && delivery.next <= Date.now()
+      );
+      if (!delivery) return;
+      try {
+        await this.#deliver(delivery);
+        delivery.status = 'delivered';
+        delivery.error = undefined;
+      } catch (e) {
+        delivery.attempts++;
+        delivery.error = (e as Error).message;
+        if (delivery.attempts >= maxAttempts) {
+          delivery.status = 'failed';
+        } else {
+          delivery.next =
+            Date.now() +
+            Math.min(
+              (this.#options.retryDelay ?? 1000) * 2 ** (delivery.attempts - 1),
+              this.#options.maxDelay ?? 600000
+            );
+        }
+      }
+      // Saved after every attempt, a delivered event is not sent again after a crash.
+      await this.#save();
+      if (delivery.status == 'delivered') this.emit('delivered', delivery);
+      if (delivery.status == 'failed') this.emit('failed', delivery);
+    }
+  }
+
+  async #deliver(delivery: T.Delivery): Promise<void> {
+    const body = JSON.stringify(delivery.event);
+    const timeout = this.#options.timeout ?? 10000;
+    const webhook = this.#options.webhooks?.find(
+      (target) => targetKey(target) == delivery.target
+    );
+    if (webhook) {
+      const timestamp = `${Math.floor(Date.now() / 1000)}`;
+      await this.#seedr.transport.external(webhook.url, {
+        func: 'webhook',
+        method: 'POST',
+        body,
+        headers: {
+          ...webhook.headers,
+          'content-type': 'application/json',
+          'x-seedr-event': delivery.event.type,
+          'x-seedr-delivery': delivery.id,
+          'x-seedr-timestamp': timestamp,
+          ...(webhook.secret !== undefined && {
+            'x-seedr-signature': signPayload(webhook.secret, timestamp, body),
+          }),
+        },
+        timeout,
+      });
+      return;
+    }
+    const command = this.#options.commands?.find(
+      (target) => targetKey(target) == delivery.target
+    );
+    if (!command) throw new Error(`Target not configured: ${delivery.target}`);
+    await runCommand(command, body, delivery.event.type, timeout);
+  }
+
+  #torrentEvent(
+    type: T.NotificationType,
+    key: string,
+    status: T.TorrentStatus,
+    extra: Record<string, unknown> = {}
+  ): void {
+    const { torrent, ...data } = status;
+    this.#record(type, status)
+      .then(() => this.notify(type, { ...data, ...extra }, `${type}:${key}`))
+      .catch((e) => {
+        if (this.listenerCount('error')) this.emit('error', e);
+      });
+  }
+
+  /**
+   * Keeps started torrents in the log until they finish, saved even if the event is a duplicate.
+   */
+  async #record(
+    type: T.NotificationType,
+    status: T.TorrentStatus
+  ): Promise<void> {
+    const log = await this.#load();
+    const index = log.torrents.findIndex((torrent) => torrent.id == status.id);
+    if (type == 'torrent.started' && index == -1) {
+      log.torrents.push({
+        id: status.id,
+        name: status.name,
+        hash: status.hash,
+        folder_id: status.folder_id,
+      });
+    } else if (
+      type != 'torrent.started' &&
+      type != 'torrent.stalled' &&
+      index != -1
+    ) {
+      log.torrents.splice(index, 1);
+    } else {
+      return;
+    }
+    await this.#save();
+  }
+
+  #follow(torrent: T.DeliveryLog['torrents'][number]): void {
+    if (this.#following.has(torrent.id)) return;
+    this.#following.add(torrent.id);
+    // Registers the torrent, events are handled by the watcher listeners.
+    this.#watcher
+      .awaitTorrent(
+        {
+          result: true,
+          user_torrent_id: torrent.id,
+          title: torrent.name,
+          torrent_hash: torrent.hash,
+        },
+        { folder_id: torrent.folder_id }
+      )
+      .catch(() => {})
+      .finally(() => {
+        this.#following.delete(torrent.id);
+      });
+  }
+
+  #run(): void {
+    this.flush().catch((e) => {
+      if (this.listenerCount('error')) this.emit('error', e);
+    });
+  }
+
+  #load(): Promise<T.DeliveryLog> {
+    this.#log ??= Promise.resolve(this.#options.store?.load()).then(
+      (log) => log ?? { keys: [], deliveries: [], torrents: [], storage: {} }
+    );
+    return this.#log;
+  }
+
+  async #save(): Promise<void> {
+    const log = await this.#load();
+    const history = this.#options.history ?? 100;
+    const finished = log.deliveries.filter((d) => d.status != 'pending');
+    if (finished.length > history) {
+      const drop = new Set(finished.slice(0, finished.length - history));
+      log.deliveries = log.deliveries.filter((d) => !drop.has(d));
+    }
+    await this.#options.store?.save(log);
+  }
+}
+
+function targetKey(target: T.WebhookTarget | T.CommandTarget): string {
+  return 'url' in target
+    ? target.url
+    : [target.command, ...(target.args ?? [])].join(' ');
+}
+
+function runCommand(
+  target: T.CommandTarget,
+  body: string,
+  type: T.NotificationType,
+  timeout: number
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(target.command, target.args ?? [], {
+      env: { ...process.env, SEEDR_EVENT: body, SEEDR_EVENT_TYPE: type },
+      stdio: ['pipe', 'ignore', 'pipe'],
+      timeout,
+    });
+    let stderr = '';
+    child.stderr.on('data', (chunk) => (stderr += chunk));
+    // Commands may exit without reading stdin.
+    child.stdin.on('error', () => {});
+    child.stdin.end(body);
+    child.on('error', reject);
+    child.on('close', (code, signal) => {
+      if (code === 0) return resolve();
+      reject(
+        new Error(
+          `Command ${target.command} exited with ${
+            signal ?? `code ${code}`
+          }: ${stderr.trim()}`
+        )
+      );
+    });
+  });
+}
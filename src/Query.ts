@@ -0,0 +1,69 @@
+import * as T from './types';
+
+function extension(name: string): string {
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : '';
+}
+
+/**
+ * Whether a file matches the filters of a query, `text` and the folder scope excluded.
+ * @param {T.File} file - File from `list` or `search_files` results.
+ * @param {T.FileQuery} query - The query.
+ * @returns {boolean} Whether the file matches.
+ */
+export function matchesQuery(file: T.File, query: T.FileQuery): boolean {
+  if (
+    query.extensions &&
+    !query.extensions
+      .map((ext) => ext.replace(/^\./, '').toLowerCase())
+      .includes(extension(file.name))
+  ) {
+    return false;
+  }
+  if (query.media == 'video' && !file.play_video) return false;
+  if (query.media == 'audio' && !file.play_audio) return false;
+  if (query.minSize !== undefined && file.size < query.minSize) return false;
+  if (query.maxSize !== undefined && file.size > query.maxSize) return false;
+  const updated = file.last_update.getTime();
+  if (query.after && updated < query.after.getTime()) return false;
+  if (query.before && updated >= query.before.getTime()) return false;
+  if (query.name !== undefined) {
+    const pattern =
+      typeof query.name == 'string' ? new RegExp(query.name, 'i') : query.name;
+    // Global / sticky expressions keep state between calls.
+    pattern.lastIndex = 0;
+    if (!pattern.test(file.name)) return false;
+  }
+  return true;
+}
+
+/**
+ * Sorts and paginates matching files.
+ * @param {T.FileEntry[]} files - Matching files.
+ * @param {T.FileQuery} query - Sort order and pagination of the query.
+ * @returns {T.FileEntry[]} The requested page.
+ */
+export function paginate(
+  files: T.FileEntry[],
+  query: T.FileQuery
+): T.FileEntry[] {
+  const sort = query.sort ?? 'path';
+  const direction = query.order == 'desc' ? -1 : 1;
+  const key = (entry: T.FileEntry): string | number =>
+    sort == 'path'
+      ? entry.path
+      : sort == 'last_update'
+      ? entry.file.last_update.getTime()
+      : entry.file[sort];
+  const sorted = [...files].sort((a, b) => {
+    const [x, y] = [key(a), key(b)];
+    const order =
+      typeof x == 'string' ? x.localeCompare(y as string) : x - (y as number);
+    return order * direction || a.path.localeCompare(b.path);
+  });
+  const offset = query.offset ?? 0;
+  return sorted.slice(
+    offset,
+    query.limit === undefined ? undefined : offset + query.limit
+  );
+}
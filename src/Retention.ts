@@ -0,0 +1,179 @@
+import * as T from './types';
+import { globToRegExp, splitPath } from './utils';
+
+import fs from 'fs-extra';
+import path from 'path';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+type Entry = { entry: T.TreeEntry; size: number; last_update: Date };
+
+function describe(entry: T.TreeEntry): Entry {
+  const item = entry.type == 'folder' ? entry.folder : entry.file;
+  return { entry, size: item.size, last_update: item.last_update };
+}
+
+/**
+ * Whether all files of an item exist locally with matching sizes, under the item's name as `download()` writes them.
+ * Copies that kept parent folders (eg. a downloaded parent, or a mirror of the whole tree) are found as well.
+ */
+async function isDownloaded(
+  dir: string,
+  entry: T.TreeEntry,
+  entries: T.TreeEntry[]
+): Promise<boolean> {
+  const files =
+    entry.type == 'file'
+      ? [entry]
+      : entries.filter(
+          (other) =>
+            other.type == 'file' && other.path.startsWith(`${entry.path}/`)
+        );
+  const segments = splitPath(entry.path);
+  for (let kept = 1; kept <= segments.length; kept++) {
+    const root = path.join(dir, ...segments.slice(-kept));
+    let found = true;
+    for (const file of files) {
+      if (file.type != 'file') continue;
+      const relative = path.posix.relative(entry.path, file.path);
+      const local = relative ? path.join(root, ...splitPath(relative)) : root;
+      const stat = await fs.stat(local).catch(() => undefined);
+      if (!stat?.isFile() || stat.size != file.file.size) {
+        found = false;
+        break;
+      }
+    }
+    if (found) return true;
+  }
+  return false;
+}
+
+async function matches(
+  { entry, size, last_update }: Entry,
+  rule: T.RetentionRule,
+  entries: T.TreeEntry[],
+  now: number
+): Promise<boolean> {
+  if (
+    rule.olderThanDays !== undefined &&
+    now - last_update.getTime() <= rule.olderThanDays * DAY
+  ) {
+    return false;
+  }
+  if (rule.largerThan !== undefined && size <= rule.largerThan) return false;
+  if (rule.match !== undefined) {
+    const pattern =
+      typeof rule.match == 'string' ? globToRegExp(rule.match) : rule.match;
+    const subject =
+      typeof rule.match == 'string' && !rule.match.includes('/')
+        ? path.posix.basename(entry.path)
+        : entry.path;
+    pattern.lastIndex = 0;
+    if (!pattern.test(subject)) return false;
+  }
+  if (
+    rule.downloadedTo !== undefined &&
+    !(await isDownloaded(rule.downloadedTo, entry, entries))
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Checks that a policy cannot select everything by accident.
+ * @param {T.CleanupPolicy} policy - Rules and free space target.
+ * @throws {Error} If there are neither rules nor `freeSpace`, or a rule has no criteria.
+ */
+export function checkPolicy(policy: T.CleanupPolicy): void {
+  const rules = policy.rules ?? [];
+  if (!rules.length && policy.freeSpace === undefined) {
+    throw new Error('Cleanup requires rules or freeSpace');
+  }
+  for (const [i, rule] of rules.entries()) {
+    if (
+      rule.olderThanDays === undefined &&
+      rule.largerThan === undefined &&
+      rule.match === undefined &&
+      rule.downloadedTo === undefined
+    ) {
+      throw new Error(`Retention rule ${i} has no criteria`);
+    }
+  }
+}
+
+/**
+ * Selects the items to delete from a walk of the folder tree.
+ * Contents of a selected folder are not listed separately.
+ * @param {T.TreeEntry[]} entries - Entries in `walk` order, parents before their contents.
+ * @param {T.CleanupPolicy} policy - Rules and free space target.
+ * @param {number} free - Current free space in bytes.
+ * @param {number} [now] - (optional) Current time, epoch ms.
+ * @returns {Promise<T.CleanupItem[]>} Promise resolving the items, in deletion order.
+ * @throws {Error} If the policy has neither rules nor `freeSpace`, or a rule has no criteria.
+ */
+export async function planCleanup(
+  entries: T.TreeEntry[],
+  policy: T.CleanupPolicy,
+  free: number,
+  now: number = Date.now()
+): Promise<T.CleanupItem[]> {
+  checkPolicy(policy);
+  const selected: T.CleanupItem[] = [];
+  const rules = policy.rules ?? [];
+  for (const entry of entries) {
+    if (selected.some((item) => entry.path.startsWith(`${item.path}/`))) {
+      continue;
+    }
+    const described = describe(entry);
+    let rule: number | undefined;
+    if (rules.length) {
+      for (const [i, candidate] of rules.entries()) {
+        if (await matches(described, candidate, entries, now)) {
+          rule = i;
+          break;
+        }
+      }
+      if (rule === undefined) continue;
+    }
+    selected.push({
+      type: entry.type,
+      id: entry.id,
+      path: entry.path,
+      size: described.size,
+      last_update: described.last_update,
+      rule,
+    });
+  }
+  if (policy.freeSpace === undefined) return selected;
+
+  const items: T.CleanupItem[] = [];
+  let freed = free;
+  for (const item of byAddition(selected)) {
+    if (freed >= policy.freeSpace) break;
+    items.push(item);
+    freed += item.size;
+  }
+  return items;
+}
+
+/**
+ * Orders items least recently added first.
+ * Seedr reports no add time: IDs increase as items are added, so folders and files are each ordered by ID,
+ * and the two sequences are merged by `last_update`.
+ */
+function byAddition(items: T.CleanupItem[]): T.CleanupItem[] {
+  const sorted = (type: T.CleanupItem['type']) =>
+    items.filter((item) => item.type == type).sort((a, b) => a.id - b.id);
+  const folders = sorted('folder');
+  const files = sorted('file');
+  const ordered: T.CleanupItem[] = [];
+  while (folders.length && files.length) {
+    ordered.push(
+      folders[0]!.last_update.getTime() <= files[0]!.last_update.getTime()
+        ? folders.shift()!
+        : files.shift()!
+    );
+  }
+  return [...ordered, ...folders, ...files];
+}
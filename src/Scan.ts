@@ -0,0 +1,130 @@
+import * as T from './types';
+import { splitPath } from './utils';
+
+/**
+ * Builds the file tree of a scanned torrent from its `filenames` and `filesizes`.
+ * @param {T.ScanTorrent} torrent - Torrent from `scanPage` results.
+ * @returns {T.ScanTreeNode} Root folder named after the torrent title.
+ */
+export function parseScanTree(torrent: T.ScanTorrent): T.ScanTreeNode {
+  const root: T.ScanTreeNode = {
+    name: torrent.title,
+    path: '',
+    size: 0,
+    children: [],
+  };
+  for (const [i, filename] of (torrent.filenames ?? []).entries()) {
+    const size = torrent.filesizes?.[i] ?? 0;
+    const segments = splitPath(filename.replace(/\\/g, '/'));
+    const name = segments.pop();
+    if (!name) continue;
+    let node = root;
+    node.size += size;
+    for (const segment of segments) {
+      let child = node.children!.find(
+        (child) => child.name == segment && child.children
+      );
+      if (!child) {
+        child = {
+          name: segment,
+          path: node.path ? `${node.path}/${segment}` : segment,
+          size: 0,
+          children: [],
+        };
+        node.children!.push(child);
+      }
+      child.size += size;
+      node = child;
+    }
+    node.children!.push({
+      name,
+      path: node.path ? `${node.path}/${name}` : name,
+      size,
+    });
+  }
+  return root;
+}
+
+/**
+ * Describes a scanned torrent with its size and file tree.
+ * @param {T.ScanTorrent} torrent - Torrent from `scanPage` results.
+ * @param {string} page - Scanned page URL.
+ * @returns {T.ScanResult} The result.
+ */
+export function toScanResult(
+  torrent: T.ScanTorrent,
+  page: string
+): T.ScanResult {
+  const total = torrent.filesizes?.reduce((total, size) => total + size, 0);
+  return {
+    torrent,
+    page,
+    size: torrent.size || total || undefined,
+    tree: parseScanTree(torrent),
+  };
+}
+
+function matches(pattern: string | RegExp, value: string): boolean {
+  const regexp =
+    typeof pattern == 'string' ? new RegExp(pattern, 'i') : pattern;
+  regexp.lastIndex = 0;
+  return regexp.test(value);
+}
+
+/**
+ * Whether a scanned torrent passes the filters of a selection.
+ * @param {T.ScanResult} result - Scanned torrent.
+ * @param {T.ScanSelection} selection - Title, size, `pct` and privacy filters.
+ * @returns {boolean} Whether the torrent passes.
+ */
+export function matchesSelection(
+  { torrent, size }: T.ScanResult,
+  selection: T.ScanSelection
+): boolean {
+  if (selection.include && !matches(selection.include, torrent.title)) {
+    return false;
+  }
+  if (selection.exclude && matches(selection.exclude, torrent.title)) {
+    return false;
+  }
+  if (size !== undefined) {
+    if (selection.minSize !== undefined && size < selection.minSize) {
+      return false;
+    }
+    if (selection.maxSize !== undefined && size > selection.maxSize) {
+      return false;
+    }
+  }
+  if (selection.minPct !== undefined && torrent.pct < selection.minPct) {
+    return false;
+  }
+  return !(selection.excludePrivate && torrent.is_private);
+}
+
+/**
+ * Ranks scanned torrents, without applying filters or `limit`.
+ * @param {T.ScanResult[]} results - Scanned torrents.
+ * @param {T.ScanSelection} selection - Ranking field and order.
+ * @returns {T.ScanResult[]} Sorted copy of the results.
+ */
+export function rankScanResults(
+  results: T.ScanResult[],
+  selection: T.ScanSelection
+): T.ScanResult[] {
+  const sort = selection.sort ?? 'pct';
+  const order = selection.order ?? (sort == 'title' ? 'asc' : 'desc');
+  const direction = order == 'desc' ? -1 : 1;
+  return [...results].sort((a, b) => {
+    if (sort == 'title') {
+      return direction * a.torrent.title.localeCompare(b.torrent.title);
+    }
+    if (sort == 'size') {
+      // Unknown sizes last.
+      if (a.size === undefined || b.size === undefined) {
+        return (a.size === undefined ? 1 : 0) - (b.size === undefined ? 1 : 0);
+      }
+      return direction * (a.size - b.size);
+    }
+    return direction * (a.torrent.pct - b.torrent.pct);
+  });
+}
@@ -0,0 +1,405 @@
+import * as T from './types';
+import { UnexpectedResponseError } from './Errors';
+
+/**
+ * A mismatch between a response and its schema.
+ */
+export type Issue = {
+  /** Location in the response, eg. `folders[0].size`. */
+  path: string;
+  message: string;
+};
+
+/**
+ * Validates and normalizes a value, recording mismatches in `issues`.
+ * Values that cannot be normalized are returned unchanged.
+ */
+export type Schema<V> = (value: unknown, path: string, issues: Issue[]) => V;
+
+function describe(value: unknown): string {
+  return value === null
+    ? 'null'
+    : Array.isArray(value)
+    ? 'array'
+    : typeof value;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value == 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Number, numeric strings (eg. `"45.5"`) are converted.
+ */
+export function number(): Schema<number> {
+  return (value, path, issues) => {
+    if (typeof value == 'number' && Number.isFinite(value)) return value;
+    if (typeof value == 'string' && value.trim() != '') {
+      const parsed = Number(value);
+      if (Number.isFinite(parsed)) return parsed;
+    }
+    issues.push({ path, message: `expected number, got ${describe(value)}` });
+    return value as number;
+  };
+}
+
+/**
+ * String, numbers are converted.
+ */
+export function string(): Schema<string> {
+  return (value, path, issues) => {
+    if (typeof value == 'string') return value;
+    if (typeof value == 'number') return String(value);
+    issues.push({ path, message: `expected string, got ${describe(value)}` });
+    return value as string;
+  };
+}
+
+/**
+ * Boolean, `0` / `1` and `"true"` / `"false"` flags are converted.
+ */
+export function boolean(): Schema<boolean> {
+  return (value, path, issues) => {
+    if (typeof value == 'boolean') return value;
+    if (value === 0 || value === 1) return value === 1;
+    if (value === '0' || value === 'false') return false;
+    if (value === '1' || value === 'true') return true;
+    issues.push({ path, message: `expected boolean, got ${describe(value)}` });
+    return value as boolean;
+  };
+}
+
+/**
+ * Date, from `YYYY-MM-DD HH:MM:SS` (UTC) / ISO strings or epoch timestamps in seconds.
+ */
+export function date(): Schema<Date> {
+  return (value, path, issues) => {
+    if (value instanceof Date) return value;
+    let parsed: Date | undefined;
+    if (typeof value == 'string') {
+      const sql = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}(:\d{2})?$/.test(value);
+      parsed = new Date(sql ? `${value.replace(' ', 'T')}Z` : value);
+    } else if (typeof value == 'number') {
+      parsed = new Date(value * 1000);
+    }
+    if (parsed && !isNaN(parsed.getTime())) return parsed;
+    issues.push({ path, message: `expected date, got ${describe(value)}` });
+    return value as Date;
+  };
+}
+
+/**
+ * One of the given strings.
+ */
+export function literal<L extends string>(...values: L[]): Schema<L> {
+  return (value, path, issues) => {
+    if (values.includes(value as L)) return value as L;
+    issues.push({
+      path,
+      message: `expected ${values.join(' | ')}, got ${JSON.stringify(value)}`,
+    });
+    return value as L;
+  };
+}
+
+/**
+ * Any value, left unchanged.
+ */
+export function unknown(): Schema<unknown> {
+  return (value) => value;
+}
+
+/**
+ * Missing or `schema`.
+ */
+export function optional<V>(schema: Schema<V>): Schema<V | undefined> {
+  return (value, path, issues) =>
+    value === undefined ? undefined : schema(value, path, issues);
+}
+
+/**
+ * Array of `item`.
+ */
+export function array<V>(item: Schema<V>): Schema<V[]> {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, message: `expected array, got ${describe(value)}` });
+      return value as V[];
+    }
+    return value.map((entry, i) => item(entry, `${path}[${i}]`, issues));
+  };
+}
+
+/**
+ * Object with the given fields, unknown fields are kept as received.
+ */
+export function object<V>(shape: {
+  [K in keyof V]-?: Schema<V[K]>;
+}): Schema<V> {
+  return (value, path, issues) => {
+    if (!isObject(value)) {
+      issues.push({ path, message: `expected object, got ${describe(value)}` });
+      return value as V;
+    }
+    const result: Record<string, unknown> = { ...value };
+    for (const [key, schema] of Object.entries<Schema<unknown>>(shape)) {
+      const parsed = schema(value[key], path ? `${path}.${key}` : key, issues);
+      if (parsed !== undefined || key in value) result[key] = parsed;
+    }
+    return result as V;
+  };
+}
+
+const success = {
+  result: boolean(),
+  code: optional(number()),
+};
+
+export const FolderSchema = object<T.Folder>({
+  id: number(),
+  name: string(),
+  fullname: string(),
+  size: number(),
+  play_audio: boolean(),
+  play_video: boolean(),
+  is_shared: boolean(),
+  last_update: date(),
+});
+
+export const FileSchema = object<T.File>({
+  name: string(),
+  size: number(),
+  hash: string(),
+  folder_id: number(),
+  folder_file_id: number(),
+  file_id: number(),
+  last_update: date(),
+  play_audio: boolean(),
+  play_video: boolean(),
+  video_progress: string(),
+  is_lost: boolean(),
+  thumb: string(),
+});
+
+export const TorrentSchema = object<T.Torrent>({
+  id: number(),
+  name: string(),
+  folder: string(),
+  size: number(),
+  hash: string(),
+  download_rate: number(),
+  torrent_quality: number(),
+  connected_to: number(),
+  downloading_from: number(),
+  uploading_to: number(),
+  seeders: number(),
+  leechers: number(),
+  warnings: unknown(),
+  stopped: boolean(),
+  progress: number(),
+  progress_url: string(),
+  last_update: date(),
+});
+
+export const WishlistItemSchema = object<T.WishlistItem>({
+  id: number(),
+  user_id: number(),
+  title: string(),
+  size: number(),
+  torrent_hash: string(),
+  torrent_magnet: string(),
+  torrent_meta: string(),
+  created: date(),
+  added: number(),
+  is_private: boolean(),
+});
+
+// `result` is `true`, checked by `add_torrent`.
+const torrentAdded = object<Omit<T.RTorrentAdded, 'result'>>({
+  code: optional(number()),
+  user_torrent_id: number(),
+  title: string(),
+  torrent_hash: string(),
+});
+
+const torrentNotAdded = object<T.RTorrentNotAdded>({
+  result: string(),
+  code: optional(number()),
+  wt: optional(WishlistItemSchema),
+});
+
+const folderContents = {
+  torrents: array(TorrentSchema),
+  folders: array(FolderSchema),
+  files: array(FileSchema),
+};
+
+/**
+ * Schemas of the Resource API responses, by `func` name.
+ */
+export const RESPONSE_SCHEMAS: Record<string, Schema<unknown>> = {
+  add_torrent: (value, path, issues) =>
+    // Torrents saved to the wishlist (or rejected) carry a `result` message instead.
+    isObject(value) && value.result !== true
+      ? torrentNotAdded(value, path, issues)
+      : torrentAdded(value, path, issues),
+  scan_page: object<T.RScanResults>({
+    ...success,
+    torrents: array(
+      object<T.RScanResults['torrents'][number]>({
+        hash: string(),
+        magnet: string(),
+        filenames: optional(array(string())),
+        filesizes: optional(array(number())),
+        title: string(),
+        size: optional(number()),
+        is_private: boolean(),
+        pct: number(),
+      })
+    ),
+  }),
+  list_contents: object<T.RFolderDetails>({
+    space_max: number(),
+    space_used: number(),
+    saw_walkthrough: boolean(),
+    t: array(number()),
+    timestamp: date(),
+    folder_id: number(),
+    fullname: string(),
+    type: literal('folder', 'file', 'torrent'),
+    name: string(),
+    parent: number(),
+    indexes: array(number()),
+    ...folderContents,
+  }),
+  search_files: object<T.RSearchResults>({
+    max_space: number(),
+    used_space: number(),
+    fullname: string(),
+    name: string(),
+    ...folderContents,
+  }),
+  fetch_file: object<T.RFetchFile>({
+    ...success,
+    url: string(),
+    name: string(),
+  }),
+  play_video: object<T.RPlayVideo>({
+    ...success,
+    url_hls: string(),
+    url_preview: optional(string()),
+    video_progress: number(),
+  }),
+  set_video_progress: object<T.SeedrSuccess>(success),
+  get_subtitles: object<T.RSubtitles>({
+    ...success,
+    subtitles: array(
+      object<T.Subtitle>({
+        id: number(),
+        language: string(),
+        title: string(),
+        url: string(),
+      })
+    ),
+  }),
+  add_folder: object<T.SeedrSuccess>(success),
+  rename: object<T.SeedrSuccess>(success),
+  delete: object<T.SeedrSuccess>(success),
+  move: object<T.SeedrSuccess>(success),
+  remove_wishlist: object<T.SeedrSuccess>(success),
+  test: object<T.SeedrSuccess>(success),
+  get_devices: object<T.RDevices>({
+    ...success,
+    devices: array(
+      object<T.RDevices['devices'][number]>({
+        client_id: string(),
+        client_name: string(),
+        device_code: string(),
+        tk: string(),
+      })
+    ),
+  }),
+  get_settings: object<T.RAccountSettings>({
+    ...success,
+    settings: object<T.AccountSettings>({
+      allow_remote_access: boolean(),
+      site_language: string(),
+      subtitles_language: string(),
+      email_announcements: boolean(),
+      email_newsletter: boolean(),
+    }),
+    account: object<T.UserAccount>({
+      username: string(),
+      user_id: number(),
+      premium: boolean(),
+      package_id: number(),
+      package_name: string(),
+      space_used: number(),
+      space_max: number(),
+      bandwidth_used: number(),
+      email: string(),
+      wishlist: array(WishlistItemSchema),
+      invites: number(),
+      invites_accepted: number(),
+      max_invites: number(),
+    }),
+    country: string(),
+  }),
+  get_memory_bandwidth: object<T.RMemoryBandwidth>({
+    bandwidth_used: number(),
+    bandwidth_max: number(),
+    space_used: number(),
+    space_max: number(),
+    is_premium: boolean(),
+  }),
+};
+
+/**
+ * Normalizes a value with `schema`, returning the mismatches found.
+ * @template V The normalized type.
+ * @param {Schema<V>} schema - Schema of the value.
+ * @param {unknown} value - Value to validate.
+ * @returns {{ value: V; issues: Issue[] }} Normalized value and mismatches.
+ */
+export function parse<V>(
+  schema: Schema<V>,
+  value: unknown
+): { value: V; issues: Issue[] } {
+  const issues: Issue[] = [];
+  return { value: schema(value, '', issues), issues };
+}
+
+/**
+ * Normalizes a Resource API response, reporting mismatches according to `mode`.
+ * Functions without a schema are returned unchanged.
+ * @template R The expected response type.
+ * @param {string} func - Seedr API function name.
+ * @param {unknown} body - Response body.
+ * @param {T.ValidationMode} mode - `strict` throws, `warn` logs, `off` only normalizes.
+ * @param {T.Logger} logger - Logger for `warn` mode.
+ * @returns {R} The normalized response.
+ * @throws {UnexpectedResponseError} In `strict` mode, if the response does not match its schema.
+ */
+export function validateResponse<R>(
+  func: string,
+  body: unknown,
+  mode: T.ValidationMode,
+  logger: T.Logger
+): R {
+  const schema = RESPONSE_SCHEMAS[func];
+  if (!schema) return body as R;
+  const { value, issues } = parse(schema, body);
+  if (issues.length && mode != 'off') {
+    const details = issues
+      .map((issue) => `${issue.path || '(root)'}: ${issue.message}`)
+      .join('; ');
+    if (mode == 'strict') {
+      throw new UnexpectedResponseError(
+        `Invalid response (${func}): ${details}`,
+        { func, body }
+      );
+    }
+    logger.warn('Response does not match schema', { func, issues });
+  }
+  return value as R;
+}
@@ -1,26 +1,32 @@
 import * as T from './types';
 import { NoPersistence } from './State';
 import { Auth } from './Auth';
+import { errorFromResponse } from './Errors';
+import { Transport } from './Transport';
+import { validateResponse } from './Schema';
+import { readAll } from './utils';
 
 import fs from 'fs';
 import path from 'path';
-import got from 'got';
 import { FormData, File } from 'formdata-node';
 
-const ENDPOINT = 'https://www.seedr.cc';
-
 /**
  * Provides methods for interacting with the Seedr API.
  */
 export class Seedr {
   auth: Auth;
+  transport: Transport;
+  #validation: T.ValidationMode;
 
   /**
    * Creates an instance of `Seedr`.
    * @param {T.IStore} [store] - (optional) Auth State persistence handler. Defaults to `NoPersistence`.
+   * @param {T.ClientOptions} [options] - (optional) Client options (base URL, timeout, retries, agent, headers, logging, validation).
    */
-  constructor(store?: T.IStore) {
-    this.auth = new Auth(store ?? new NoPersistence());
+  constructor(store?: T.IStore, options?: T.ClientOptions) {
+    this.transport = new Transport(options);
+    this.auth = new Auth(store ?? new NoPersistence(), this.transport, options);
+    this.#validation = options?.validation ?? 'warn';
   }
 
   /**
@@ -30,35 +36,47 @@ export class Seedr {
    * @param {string} func - Seedr API function name.
    * @param {Record<string, unknown>} [form] - (optional) Arguments sent in form.
    * @param {FormData} [body] - (optional) Arguments sent in body.
-   * @returns {Promise<T>} Promise resolving the response JSON.
-   * @throws {Error} If the API returns a non-200 status code or an error key in the response object.
+   * @returns {Promise<T>} Promise resolving the response JSON, validated and normalized.
+   * @throws {SeedrAPIError} If the API returns a non-200 status code or an error key in the response object.
+   * @throws {UnexpectedResponseError} If `validation` is `strict` and the response does not match its schema.
    */
   protected async callFunc<T>(
     func: string,
     form?: Record<string, unknown>,
     body?: FormData
   ): Promise<T> {
-    const token = await this.auth.getAccessToken();
-    const response = await got.post<T.Either<T, T.SeedrError>>(
-      `${ENDPOINT}/oauth_test/resource.php`,
-      {
-        searchParams: { func },
-        body,
-        form,
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-        responseType: 'json',
-        throwHttpErrors: false,
-      }
-    );
-    if (response.statusCode !== 200 || response.body.error)
-      throw new Error(
-        `Unexpected Response (${response.statusCode}): ${JSON.stringify(
-          response.body
-        )}`
+    let token = await this.auth.getAccessToken();
+    for (let attempt = 0; ; attempt++) {
+      const response = await this.transport.request<T.Either<T, T.SeedrError>>(
+        'POST',
+        '/oauth_test/resource.php',
+        {
+          func,
+          searchParams: { func },
+          body,
+          form,
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
       );
-    return response.body;
+      if (response.statusCode === 200 && !response.body.error) {
+        return validateResponse<T>(
+          func,
+          response.body,
+          this.#validation,
+          this.transport.logger
+        );
+      }
+      const error = errorFromResponse(response, func);
+      // Retry once with a renewed token if the current one was rejected.
+      if (attempt > 0 || response.statusCode !== 401) throw error;
+      try {
+        token = await this.auth.refreshAccessToken(token);
+      } catch {
+        throw error;
+      }
+    }
   }
 
   /**
@@ -95,14 +113,32 @@ export class Seedr {
 
   /**
    * Adds a torrent by uploading a .torrent file.
-   * @param {string} torrent_file - The local path to the .torrent file.
+   * Note: Seedr ignores `folder_id` for uploads, the torrent downloads into the root. `SeedrExtended.addTorrent` moves it into a folder once complete.
+   * @param {T.TorrentFileSource} torrent_file - The local path to the .torrent file, or its content as a `Buffer` / `Uint8Array` / readable stream.
+   * @param {string} [filename] - (optional) Name of the uploaded file, defaults to the base name of the path or `upload.torrent`.
    * @returns {Promise<T.RAddTorrent>} Promise resolves if the torrent is added / saved in wishlist.
    */
-  addTorrentFile(torrent_file: string): Promise<T.RAddTorrent> {
-    const bytes = fs.readFileSync(torrent_file);
+  async addTorrentFile(
+    torrent_file: T.TorrentFileSource,
+    filename?: string
+  ): Promise<T.RAddTorrent> {
+    const bytes =
+      typeof torrent_file == 'string'
+        ? await fs.promises.readFile(torrent_file)
+        : torrent_file instanceof Uint8Array
+        ? torrent_file
+        : await readAll(torrent_file);
     const form = new FormData();
-    // form.set('folder_id', folder_id)
-    form.set('torrent_file', new File([bytes], path.basename(torrent_file)));
+    form.set(
+      'torrent_file',
+      new File(
+        [bytes],
+        filename ??
+          (typeof torrent_file == 'string'
+            ? path.basename(torrent_file)
+            : 'upload.torrent')
+      )
+    );
     return this.callFunc<T.RAddTorrent>('add_torrent', undefined, form);
   }
 
@@ -164,6 +200,43 @@ export class Seedr {
     return this.callFunc<T.RFetchFile>('fetch_file', { folder_file_id });
   }
 
+  /**
+   * Gets the HLS stream of a video file and its saved playback position.
+   * Experimental: uses the `play_video` function of the web player, not documented by the Resource API.
+   * @param {number} folder_file_id - The ID of the file (`folder_file_id` from the `list` results).
+   * @returns {Promise<T.RPlayVideo>} Promise resolving the stream URLs and playback position.
+   */
+  playVideo(folder_file_id: number): Promise<T.RPlayVideo> {
+    return this.callFunc<T.RPlayVideo>('play_video', { folder_file_id });
+  }
+
+  /**
+   * Saves the playback position of a video file, reported as `video_progress` in `list` results.
+   * Experimental: uses the undocumented `set_video_progress` function of the web player.
+   * @param {number} folder_file_id - The ID of the file (`folder_file_id` from the `list` results).
+   * @param {number} video_progress - The playback position in seconds.
+   * @returns {Promise<T.SeedrSuccess>} Promise resolving if successful.
+   */
+  setVideoProgress(
+    folder_file_id: number,
+    video_progress: number
+  ): Promise<T.SeedrSuccess> {
+    return this.callFunc<T.SeedrSuccess>('set_video_progress', {
+      folder_file_id,
+      video_progress: Math.max(0, Math.floor(video_progress)),
+    });
+  }
+
+  /**
+   * Lists the subtitles available for a video file.
+   * Experimental: uses the undocumented `get_subtitles` function of the web player.
+   * @param {number} folder_file_id - The ID of the file (`folder_file_id` from the `list` results).
+   * @returns {Promise<T.RSubtitles>} Promise resolving the subtitles.
+   */
+  getSubtitles(folder_file_id: number): Promise<T.RSubtitles> {
+    return this.callFunc<T.RSubtitles>('get_subtitles', { folder_file_id });
+  }
+
   /**
    * Creates a new empty folder in the root directory.
    * @param {string} name - The name for the new folder.
@@ -208,6 +281,25 @@ export class Seedr {
     });
   }
 
+  /**
+   * Moves folders and files into another folder.
+   * Experimental: the Resource API documents no move function, `move` with `move_arr` / `move_to` (in the item format of `delete`)
+   * is not verified against the live API and may fail or change.
+   * @protected
+   * @param {Array<{type: 'folder' | 'file', id: number}>} move_arr - An array of objects specifying the type and ID of items to move. For files, use `folder_file_id`.
+   * @param {number} move_to - The ID of the destination folder.
+   * @returns {Promise<T.SeedrSuccess>} Promise resolving if successful.
+   */
+  protected moveItems(
+    move_arr: { type: string; id: number }[],
+    move_to: number
+  ): Promise<T.SeedrSuccess> {
+    return this.callFunc<T.SeedrSuccess>('move', {
+      move_arr: JSON.stringify(move_arr),
+      move_to,
+    });
+  }
+
   /**
    * Removes an item from the user's wishlist.
    * @param {number} id - The ID of the wishlist item to remove.
@@ -1,5 +1,30 @@
 import * as T from './types';
 import { Seedr } from './Seedr';
+import {
+  DuplicateError,
+  NotFoundError,
+  QuotaError,
+  SeedrAPIError,
+  errorFromRequest,
+} from './Errors';
+import { DownloadTracker, downloadFile } from './Download';
+import { TorrentWatcher } from './TorrentWatcher';
+import { checkPolicy, planCleanup } from './Retention';
+import { matchesQuery, paginate } from './Query';
+import { filterWishlist, wishlistMagnet } from './Wishlist';
+import { matchesSelection, rankScanResults, toScanResult } from './Scan';
+import { parseMagnet, parseTorrentFile, torrentHashes } from './TorrentInfo';
+import {
+  createLimiter,
+  joinPath,
+  readAll,
+  replacePattern,
+  splitPath,
+} from './utils';
+
+import fs from 'fs-extra';
+import path from 'path';
+import crypto from 'crypto';
 
 /**
  * Provides methods for interacting with the Seedr API.
@@ -9,23 +34,32 @@ import { Seedr } from './Seedr';
 export class SeedrExtended extends Seedr {
   /**
    * Adds a torrent using a magnet link, torrent URL, torrent file, or wishlist item ID.
-   * Note: `folder_id` is ignored when uploading a `torrent_file`.
-   * @param {object} options - The options for adding the torrent.
-   * @param {number} [options.folder_id] - The ID of the folder to download the torrent into (defaults to root). Ignored if `torrent_file` is used.
+   * With `preflight`, the torrent is first checked for duplicates and free space, see `preflight()`.
+   * Seedr ignores `folder_id` for uploads: a `torrent_file` downloads into the root, with `awaitPlacement` its folder is moved into `folder_id` once complete,
+   * so the promise only resolves after completion.
+   * @param {T.AddTorrentOptions} options - The options for adding the torrent.
+   * @param {number} [options.folder_id] - The ID of the folder to download the torrent into (defaults to root).
    * @param {number} [options.wishlist_id] - The ID of a wishlist item to add.
    * @param {string} [options.torrent_magnet] - The magnet URI.
-   * @param {string} [options.torrent_file] - The local path to the .torrent file to upload.
+   * @param {T.TorrentFileSource} [options.torrent_file] - The local path, bytes or readable stream of the .torrent file to upload.
+   * @param {string} [options.filename] - (optional) Name of the uploaded `torrent_file`.
    * @param {string} [options.torrent_url] - The URL pointing to a .torrent file.
-   * @returns {Promise<T.RAddTorrent>} Promise resolving with the result of the add operation.
+   * @param {'refuse' | 'dedupe'} [options.preflight] - (optional) `refuse` throws on duplicates / missing space, `dedupe` resolves the duplicates instead of adding.
+   * @param {boolean | object} [options.awaitPlacement] - (optional) Wait for an uploaded torrent to complete and move it into `folder_id`, with polling options, an `AbortSignal` and a `timeout`.
+   * @returns {Promise<T.RAddTorrent | T.RDuplicateTorrent>} Promise resolving with the result of the add operation.
    * @throws {Error} If not exactly one of `torrent_magnet`, `torrent_file`, `torrent_url`, or `wishlist_id` is defined.
+   * @throws {NotFoundError} With `awaitPlacement`, if the uploaded torrent is removed before completion.
+   * @throws {SeedrAPIError} With `awaitPlacement`, if the uploaded torrent does not complete within the `timeout`.
+   * @throws {DuplicateError} With `preflight: 'refuse'`, if the torrent already exists.
+   * @throws {QuotaError} With `preflight: 'refuse'`, if the torrent does not fit in the free space.
    */
-  addTorrent(options: {
-    folder_id?: number;
-    wishlist_id?: number;
-    torrent_magnet?: string;
-    torrent_file?: string;
-    torrent_url?: string;
-  }): Promise<T.RAddTorrent> {
+  addTorrent(
+    options: T.AddTorrentOptions & { preflight: 'dedupe' }
+  ): Promise<T.RAddTorrent | T.RDuplicateTorrent>;
+  addTorrent(options: T.AddTorrentOptions): Promise<T.RAddTorrent>;
+  addTorrent(
+    options: T.AddTorrentOptions
+  ): Promise<T.RAddTorrent | T.RDuplicateTorrent> {
     const definedOptions = [
       options.wishlist_id,
       options.torrent_magnet,
@@ -39,17 +73,14 @@ export class SeedrExtended extends Seedr {
       );
     }
 
-    if (options.torrent_magnet) {
+    if (options.preflight) {
+      return this.#addChecked(options, options.preflight);
+    } else if (options.torrent_magnet) {
       return super.addTorrentMagnet(options.torrent_magnet, options.folder_id);
     } else if (options.torrent_url) {
       return super.addTorrentURL(options.torrent_url, options.folder_id);
     } else if (options.torrent_file) {
-      if (options.folder_id) {
-        console.warn(
-          'Folder IDs ignored when uploading a file, saved in root dir'
-        );
-      }
-      return super.addTorrentFile(options.torrent_file);
+      return this.#upload(options);
     } else if (options.wishlist_id) {
       return super.addTorrentFromWishlist(
         options.wishlist_id,
@@ -60,12 +91,334 @@ export class SeedrExtended extends Seedr {
     }
   }
 
+  async #upload(options: T.AddTorrentOptions): Promise<T.RAddTorrent> {
+    const response = await super.addTorrentFile(
+      options.torrent_file!,
+      options.filename
+    );
+    if (
+      options.folder_id === undefined ||
+      !options.awaitPlacement ||
+      response.result !== true
+    ) {
+      return response;
+    }
+    const {
+      timeout = 3600000,
+      signal,
+      ...watcher
+    } = options.awaitPlacement === true ? {} : options.awaitPlacement;
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    const timer = setTimeout(() => {
+      controller.abort(
+        new SeedrAPIError(
+          `Torrent ${response.user_torrent_id} not complete after ${timeout} ms`,
+          { func: 'list_contents' }
+        )
+      );
+    }, timeout);
+    if (signal?.aborted) onAbort();
+    signal?.addEventListener('abort', onAbort);
+    try {
+      const folder = await this.awaitTorrent(response, {
+        ...watcher,
+        signal: controller.signal,
+      });
+      await this.move({ folder: [folder.id] }, options.folder_id);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+    return response;
+  }
+
+  async #addChecked(
+    options: T.AddTorrentOptions,
+    mode: 'refuse' | 'dedupe'
+  ): Promise<T.RAddTorrent | T.RDuplicateTorrent> {
+    const source = { ...options, preflight: undefined };
+    const file = source.torrent_file;
+    if (file && typeof file != 'string' && !(file instanceof Uint8Array)) {
+      // Streams can only be read once, keep the bytes for the upload.
+      source.torrent_file = await readAll(file);
+    }
+    const check = await this.preflight(source);
+    const name = check.info?.name ?? 'Torrent';
+    if (check.duplicates.length) {
+      if (mode == 'dedupe') {
+        return {
+          result: 'duplicate',
+          duplicates: check.duplicates,
+          info: check.info,
+        };
+      }
+      throw new DuplicateError(
+        `${name} already exists: ${check.duplicates
+          .map((item) => `${item.type} ${item.id} (${item.name})`)
+          .join(', ')}`,
+        { func: 'add_torrent', duplicates: check.duplicates }
+      );
+    }
+    if (mode == 'refuse' && check.fits === false) {
+      throw new QuotaError(
+        `${name} needs ${check.info?.size} bytes, ${check.free} bytes free`,
+        { func: 'add_torrent' }
+      );
+    }
+    return this.addTorrent(source);
+  }
+
+  /**
+   * Checks a torrent before adding it: parses it locally, compares its size against the free space (`getUsage()`),
+   * and looks for active torrents (root and target folder) and wishlist items with the same hash,
+   * or a folder with the same name in the target folder.
+   * Readable stream `torrent_file` sources are consumed.
+   * @param {T.AddTorrentOptions} options - The torrent source and target folder, as given to `addTorrent`.
+   * @returns {Promise<T.TorrentPreflight>} Promise resolving the parsed torrent, free space and duplicates.
+   */
+  async preflight(options: T.AddTorrentOptions): Promise<T.TorrentPreflight> {
+    const [usage, wishlist, root, target] = await Promise.all([
+      this.getUsage(),
+      this.getWishlist(),
+      this.list('folder'),
+      options.folder_id !== undefined
+        ? this.list('folder', options.folder_id)
+        : undefined,
+    ]);
+    const info = await this.#torrentInfo(options, wishlist);
+    const hashes = info ? torrentHashes(info) : [];
+    const duplicates: T.TorrentDuplicate[] = [];
+    const seen = new Set<string>();
+    const add = (duplicate: T.TorrentDuplicate) => {
+      const key = `${duplicate.type}:${duplicate.id}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+      duplicates.push(duplicate);
+    };
+    for (const torrent of [...root.torrents, ...(target?.torrents ?? [])]) {
+      if (hashes.includes(torrent.hash.toLowerCase())) {
+        add({
+          type: 'torrent',
+          id: torrent.id,
+          name: torrent.name,
+          hash: torrent.hash,
+        });
+      }
+    }
+    for (const folder of (target ?? root).folders) {
+      if (info?.name && folder.name == info.name) {
+        add({ type: 'folder', id: folder.id, name: folder.name });
+      }
+    }
+    for (const item of wishlist) {
+      if (
+        item.id != options.wishlist_id &&
+        hashes.includes(item.torrent_hash.toLowerCase())
+      ) {
+        add({
+          type: 'wishlist',
+          id: item.id,
+          name: item.title,
+          hash: item.torrent_hash,
+        });
+      }
+    }
+    const free = Math.max(usage.space_max - usage.space_used, 0);
+    return {
+      info,
+      free,
+      fits: info?.size === undefined ? undefined : info.size <= free,
+      duplicates,
+    };
+  }
+
+  async #torrentInfo(
+    options: T.AddTorrentOptions,
+    wishlist: T.WishlistItem[]
+  ): Promise<T.TorrentInfo | undefined> {
+    if (options.torrent_magnet) return parseMagnet(options.torrent_magnet);
+    if (options.torrent_file) {
+      const file = options.torrent_file;
+      return parseTorrentFile(
+        typeof file == 'string'
+          ? await fs.readFile(file)
+          : file instanceof Uint8Array
+          ? file
+          : await readAll(file)
+      );
+    }
+    if (options.torrent_url) {
+      try {
+        // A third-party host, requested without the client headers.
+        return parseTorrentFile(
+          await this.transport.external(options.torrent_url, {
+            func: 'torrent_url',
+          })
+        );
+      } catch (e) {
+        // Seedr may still be able to fetch it, eg. behind authentication.
+        this.transport.logger.warn('Unable to read torrent URL', {
+          url: options.torrent_url,
+          error: e,
+        });
+        return undefined;
+      }
+    }
+    const item = wishlist.find((item) => item.id == options.wishlist_id);
+    if (!item) return undefined;
+    let magnet: T.TorrentInfo | undefined;
+    try {
+      magnet = parseMagnet(item.torrent_magnet);
+    } catch {
+      // Items added from .torrent files carry no magnet.
+    }
+    return {
+      source: 'magnet',
+      files: [],
+      trackers: [],
+      ...magnet,
+      infoHash: item.torrent_hash.toLowerCase(),
+      name: item.title,
+      size: item.size || undefined,
+    };
+  }
+
+  /**
+   * Scans pages for torrents, merging results with the same hash.
+   * @param {string | string[]} urls - URLs of the pages to scan.
+   * @param {T.ScanSelection} [selection] - (optional) Filters, ranking and limit, results are in scan order without it.
+   * @returns {Promise<T.ScanResult[]>} Promise resolving the torrents with their size and file tree.
+   */
+  async scanPages(
+    urls: string | string[],
+    selection?: T.ScanSelection
+  ): Promise<T.ScanResult[]> {
+    const results: T.ScanResult[] = [];
+    const seen = new Set<string>();
+    for (const url of typeof urls == 'string' ? [urls] : urls) {
+      for (const torrent of (await this.scanPage(url)).torrents) {
+        const hash = torrent.hash.toLowerCase() || torrent.magnet;
+        if (seen.has(hash)) continue;
+        seen.add(hash);
+        results.push(toScanResult(torrent, url));
+      }
+    }
+    if (!selection) return results;
+    return rankScanResults(
+      results.filter((result) => matchesSelection(result, selection)),
+      selection
+    ).slice(0, selection.limit);
+  }
+
+  /**
+   * Scans pages and adds the best ranked torrents passing the filters, skipping torrents already active,
+   * in the wishlist, or downloaded into a folder of the same name in the target folder.
+   * Torrents failing to be added are reported without stopping the others.
+   * @param {string | string[]} urls - URLs of the pages to scan.
+   * @param {T.ScanAddOptions} [options] - (optional) Filters, ranking, limit of torrents to add, target folder and dry run.
+   * @returns {Promise<T.ScanAddResult[]>} Promise resolving a result for every scanned torrent, selected ones first in rank order.
+   */
+  async addFromPages(
+    urls: string | string[],
+    options: T.ScanAddOptions = {}
+  ): Promise<T.ScanAddResult[]> {
+    const { folder_id, dryRun, limit, ...selection } = options;
+    const [scanned, wishlist, root, target] = await Promise.all([
+      this.scanPages(urls),
+      this.getWishlist(),
+      this.list('folder'),
+      folder_id !== undefined ? this.list('folder', folder_id) : undefined,
+    ]);
+    const torrents = [...root.torrents, ...(target?.torrents ?? [])];
+    const duplicateOf = ({
+      torrent,
+    }: T.ScanResult): T.TorrentDuplicate | undefined => {
+      const hashes = [torrent.hash.toLowerCase()];
+      try {
+        hashes.push(...torrentHashes(parseMagnet(torrent.magnet)));
+      } catch {
+        // Compared by the scanned hash only.
+      }
+      const active = torrents.find((i) =>
+        hashes.includes(i.hash.toLowerCase())
+      );
+      if (active) {
+        return {
+          type: 'torrent',
+          id: active.id,
+          name: active.name,
+          hash: active.hash,
+        };
+      }
+      const wish = wishlist.find((i) =>
+        hashes.includes(i.torrent_hash.toLowerCase())
+      );
+      if (wish) {
+        return {
+          type: 'wishlist',
+          id: wish.id,
+          name: wish.title,
+          hash: wish.torrent_hash,
+        };
+      }
+      const folder = (target ?? root).folders.find(
+        (i) => i.name == torrent.title
+      );
+      if (folder) return { type: 'folder', id: folder.id, name: folder.name };
+    };
+
+    const ranked = rankScanResults(
+      scanned.filter((result) => matchesSelection(result, selection)),
+      selection
+    );
+    const results: T.ScanAddResult[] = [];
+    let selected = 0;
+    for (const result of ranked) {
+      const duplicate = duplicateOf(result);
+      if (duplicate) {
+        results.push({ ...result, status: 'duplicate', duplicate });
+        continue;
+      }
+      if (limit !== undefined && selected >= limit) {
+        results.push({ ...result, status: 'filtered' });
+        continue;
+      }
+      selected++;
+      if (dryRun) {
+        results.push({ ...result, status: 'selected' });
+        continue;
+      }
+      try {
+        const response = await this.addTorrentMagnet(
+          result.torrent.magnet,
+          folder_id
+        );
+        results.push({
+          ...result,
+          status: response.result === true ? 'added' : 'wishlisted',
+          response,
+        });
+      } catch (e) {
+        results.push({ ...result, status: 'failed', error: e as Error });
+      }
+    }
+    for (const result of scanned) {
+      if (!ranked.includes(result)) {
+        results.push({ ...result, status: 'filtered' });
+      }
+    }
+    return results;
+  }
+
   /**
    * Retrieves the user's wishlist items.
+   * @param {T.WishlistQuery} [query] - (optional) Size, creation date and privacy filters, sort field and order.
    * @returns {Promise<T.WishlistItem>} Promise resolving an array of wishlist items.
    */
-  async getWishlist(): Promise<T.WishlistItem[]> {
-    return (await super.getAccountInfo()).account.wishlist;
+  async getWishlist(query?: T.WishlistQuery): Promise<T.WishlistItem[]> {
+    const wishlist = (await super.getAccountInfo()).account.wishlist;
+    return query ? filterWishlist(wishlist, query) : wishlist;
   }
 
   /**
@@ -79,6 +432,151 @@ export class SeedrExtended extends Seedr {
     );
   }
 
+  /**
+   * Adds wishlist items as torrents while they fit in the free space.
+   * Stops at the first item Seedr refuses, eg. when the active torrent limit is reached.
+   * @param {T.PromoteOptions} [options] - (optional) Order, reserved space, filters, target folder and dry run.
+   * @returns {Promise<T.WishlistPromotion>} Promise resolving the promoted and remaining items.
+   */
+  async promoteWishlist(
+    options: T.PromoteOptions = {}
+  ): Promise<T.WishlistPromotion> {
+    const { order, reserve, folder_id, dryRun, ...filters } = options;
+    const [usage, wishlist] = await Promise.all([
+      this.getUsage(),
+      this.getWishlist(),
+    ]);
+    const candidates = filterWishlist(wishlist, {
+      ...filters,
+      sort: order ?? 'size',
+    });
+    let free = usage.space_max - usage.space_used - (reserve ?? 0);
+    const promoted: T.WishlistItem[] = [];
+    for (const item of candidates) {
+      if (item.size > free) continue;
+      if (!dryRun) {
+        const response = await this.addTorrentFromWishlist(
+          item.id,
+          folder_id
+        ).catch((e) => {
+          if (e instanceof QuotaError) return undefined;
+          throw e;
+        });
+        if (response?.result !== true) break;
+      }
+      promoted.push(item);
+      free -= item.size;
+    }
+    return {
+      promoted,
+      remaining: wishlist.filter((item) => !promoted.includes(item)),
+      free: Math.max(free + (reserve ?? 0), 0),
+    };
+  }
+
+  /**
+   * Removes wishlist items with the same `torrent_hash`, keeping the oldest one.
+   * @returns {Promise<T.WishlistItem[]>} Promise resolving the removed items.
+   */
+  async dedupeWishlist(): Promise<T.WishlistItem[]> {
+    const wishlist = filterWishlist(await this.getWishlist(), {
+      sort: 'created',
+    });
+    const seen = new Set<string>();
+    const duplicates: T.WishlistItem[] = [];
+    for (const item of wishlist) {
+      const hash = item.torrent_hash.toLowerCase();
+      if (!hash) continue;
+      if (seen.has(hash)) duplicates.push(item);
+      seen.add(hash);
+    }
+    for (const item of duplicates) await super.deleteWishlistItem(item.id);
+    return duplicates;
+  }
+
+  /**
+   * Removes the wishlist item Seedr parks a torrent in when it does not fit, eg. to add it elsewhere later.
+   * The item comes from the response `wt`, or is found by hash when the response does not carry it.
+   * @param {T.RAddTorrent} response - Response of adding the torrent.
+   * @param {T.TorrentInfo} [info] - (optional) Parsed torrent, to find the item by hash.
+   * @returns {Promise<T.WishlistItem | undefined>} Promise resolving the removed item, undefined if the torrent was not parked.
+   */
+  async removeParked(
+    response: T.RAddTorrent,
+    info?: T.TorrentInfo
+  ): Promise<T.WishlistItem | undefined> {
+    if (response.result === true) return undefined;
+    let item = response.wt;
+    if (!item && info) {
+      const hashes = torrentHashes(info);
+      item = (await this.getWishlist()).find((wish) =>
+        hashes.includes(wish.torrent_hash.toLowerCase())
+      );
+    }
+    if (item) await super.deleteWishlistItem(item.id);
+    return item;
+  }
+
+  /**
+   * Exports wishlist items as magnet URIs, one per line.
+   * @param {T.WishlistQuery} [query] - (optional) Filters, sort field and order.
+   * @returns {Promise<string>} Promise resolving the magnet list.
+   */
+  async exportWishlist(query?: T.WishlistQuery): Promise<string> {
+    const wishlist = await this.getWishlist(query);
+    return wishlist.map((item) => `${wishlistMagnet(item)}\n`).join('');
+  }
+
+  /**
+   * Adds torrents from a magnet list, skipping torrents already active or in the wishlist.
+   * Seedr only keeps torrents that do not fit in the free space in the wishlist, others are added.
+   * @param {string | string[]} magnets - Magnet URIs, or a list with one per line (empty lines and `#` comments are ignored).
+   * @param {object} [options] - (optional) Folder to download the torrents into.
+   * @returns {Promise<T.WishlistImport[]>} Promise resolving the result of each magnet.
+   */
+  async importWishlist(
+    magnets: string | string[],
+    options: { folder_id?: number } = {}
+  ): Promise<T.WishlistImport[]> {
+    const lines = (typeof magnets == 'string' ? magnets.split('\n') : magnets)
+      .map((line) => line.trim())
+      .filter((line) => line && !line.startsWith('#'));
+    const [wishlist, root] = await Promise.all([
+      this.getWishlist(),
+      this.list('folder'),
+    ]);
+    const known = new Set([
+      ...wishlist.map((item) => item.torrent_hash.toLowerCase()),
+      ...root.torrents.map((torrent) => torrent.hash.toLowerCase()),
+    ]);
+    const results: T.WishlistImport[] = [];
+    for (const magnet of lines) {
+      let hashes: string[];
+      try {
+        hashes = torrentHashes(parseMagnet(magnet));
+      } catch (e) {
+        results.push({ magnet, status: 'invalid', error: e as Error });
+        continue;
+      }
+      if (hashes.some((hash) => known.has(hash))) {
+        results.push({ magnet, status: 'duplicate' });
+        continue;
+      }
+      hashes.forEach((hash) => known.add(hash));
+      try {
+        const response = await this.addTorrentMagnet(magnet, options.folder_id);
+        results.push({
+          magnet,
+          status: response.result === true ? 'added' : 'wishlisted',
+          response,
+        });
+      } catch (e) {
+        results.push({ magnet, status: 'failed', error: e as Error });
+      }
+    }
+    return results;
+  }
+
   /**
    * Renames a folder.
    * @param {number} id - The ID of the folder to rename.
@@ -138,4 +636,575 @@ export class SeedrExtended extends Seedr {
       torrent: folders.torrents.map((i) => i.id),
     });
   }
+
+  /**
+   * Moves folders and files into another folder.
+   * Experimental, relies on the undocumented `move` function, see `moveItems`.
+   * @param {object} ids - An object containing arrays of IDs to move.
+   * @param {number[]} [ids.folder] - An array of folder IDs to move.
+   * @param {number[]} [ids.file] - An array of file IDs (`folder_file_id`) to move.
+   * @param {number | string} to - The ID or path of the destination folder.
+   * @returns {Promise<T.SeedrSuccess>} Promise resolving if successful.
+   * @throws {NotFoundError} If the destination path does not resolve to a folder.
+   */
+  async move(
+    ids: { folder?: number[]; file?: number[] },
+    to: number | string
+  ): Promise<T.SeedrSuccess> {
+    if (typeof to == 'string') {
+      const entry = await this.resolvePath(to);
+      if (entry.type != 'folder') {
+        throw new NotFoundError(`Not a folder: ${entry.path}`);
+      }
+      to = entry.id;
+    }
+    return super.moveItems(
+      [
+        ...(ids.folder ?? []).map((id) => {
+          return { type: 'folder', id };
+        }),
+        ...(ids.file ?? []).map((id) => {
+          return { type: 'file', id };
+        }),
+      ],
+      to
+    );
+  }
+
+  /**
+   * Creates a folder and its missing parents, such as `/Movies/2024/Action`.
+   * Sub-folders are created in the root under a temporary name, then moved and renamed (see the experimental `move`).
+   * @param {string} path - Slash separated path from the root.
+   * @returns {Promise<T.Folder>} Promise resolving the folder, existing or created.
+   * @throws {Error} If a segment of the path is a file.
+   */
+  async mkdirp(path: string): Promise<T.Folder> {
+    const segments = splitPath(path);
+    if (!segments.length) throw new Error('Cannot create the root folder');
+    const root = await this.list('folder');
+    let details = root;
+    let folder: T.Folder | undefined;
+    for (const [i, name] of segments.entries()) {
+      if (details.files.some((file) => file.name == name)) {
+        throw new Error(
+          `Not a folder: ${joinPath(...segments.slice(0, i + 1))}`
+        );
+      }
+      folder = details.folders.find((item) => item.name == name);
+      if (!folder) {
+        const parent = i == 0 ? undefined : details.folder_id;
+        const temp =
+          parent === undefined ? name : `.seedr-js-${crypto.randomUUID()}`;
+        await this.addFolder(temp);
+        folder = (await this.list('folder')).folders.find(
+          (item) => item.name == temp
+        );
+        if (!folder) {
+          throw new NotFoundError(`Folder not created: ${name}`, {
+            func: 'add_folder',
+          });
+        }
+        if (parent !== undefined) {
+          try {
+            await this.move({ folder: [folder.id] }, parent);
+            await this.renameFolder(folder.id, name);
+          } catch (e) {
+            // Don't leave the temporary folder behind.
+            await this.delete({ folder: [folder.id] }).catch((error) => {
+              this.transport.logger.warn('Unable to delete temporary folder', {
+                folder: temp,
+                error,
+              });
+            });
+            throw e;
+          }
+        }
+      }
+      details = await this.list('folder', folder.id);
+    }
+    return {
+      ...folder!,
+      name: details.name,
+      fullname: details.fullname,
+    };
+  }
+
+  /**
+   * Renames folders and files by pattern, eg. to clean up release names.
+   * All renames are checked for conflicts with existing names before renaming.
+   * @param {T.BulkRenameOptions} options - Pattern, replacement, folder and item types.
+   * @returns {Promise<T.RenameChange[]>} Promise resolving the renames, applied unless `dryRun`.
+   * @throws {Error} If two items would end up with the same name in a folder.
+   */
+  async bulkRename(options: T.BulkRenameOptions): Promise<T.RenameChange[]> {
+    const { pattern, replacement } = options;
+    const types = options.types ?? ['folder', 'file'];
+    const changes: T.RenameChange[] = [];
+    const taken = new Set<string>();
+    for await (const entry of this.walk({
+      folder_id: options.folder_id,
+      path: options.path,
+      maxDepth: options.recursive ? undefined : 0,
+    })) {
+      taken.add(entry.path);
+      if (!types.includes(entry.type)) continue;
+      const name = (entry.type == 'folder' ? entry.folder : entry.file).name;
+      const rename_to = replacePattern(name, pattern, replacement).trim();
+      if (!rename_to || rename_to == name) continue;
+      changes.push({
+        type: entry.type,
+        id: entry.id,
+        path: entry.path,
+        name,
+        rename_to,
+      });
+    }
+    for (const change of changes) {
+      taken.delete(change.path);
+    }
+    for (const change of changes) {
+      const target = joinPath(
+        change.path.slice(0, change.path.length - change.name.length),
+        change.rename_to
+      );
+      if (taken.has(target)) {
+        throw new Error(`Rename conflict: ${change.path} -> ${target}`);
+      }
+      taken.add(target);
+    }
+    if (!options.dryRun) {
+      for (const change of changes) {
+        await (change.type == 'folder'
+          ? this.renameFolder(change.id, change.rename_to)
+          : this.renameFile(change.id, change.rename_to));
+      }
+    }
+    return changes;
+  }
+
+  /**
+   * Deletes folders and files selected by retention rules, in batches through `delete`.
+   * Use `dryRun` to get the report without deleting anything.
+   * @param {T.CleanupPolicy} policy - Rules, free space target, start folder and batching.
+   * @returns {Promise<T.CleanupReport>} Promise resolving the deleted (or selected) items and free space.
+   * @throws {Error} If the policy has neither rules nor `freeSpace`, or a rule has no criteria.
+   * @throws {NotFoundError} If `policy.path` does not resolve to a folder.
+   */
+  async cleanup(policy: T.CleanupPolicy): Promise<T.CleanupReport> {
+    checkPolicy(policy);
+    const usage = await this.getUsage();
+    const entries: T.TreeEntry[] = [];
+    for await (const entry of this.walk({
+      folder_id: policy.folder_id,
+      path: policy.path,
+      // Without rules only the top-level items are candidates.
+      maxDepth: policy.rules?.length ? undefined : 0,
+    })) {
+      entries.push(entry);
+    }
+    const freeBefore = usage.space_max - usage.space_used;
+    const items = await planCleanup(entries, policy, freeBefore);
+    const bytes = items.reduce((total, item) => total + item.size, 0);
+    const dryRun = policy.dryRun ?? false;
+    const batchSize = policy.batchSize ?? 100;
+    let batches = 0;
+    if (!dryRun) {
+      for (let i = 0; i < items.length; i += batchSize) {
+        const batch = items.slice(i, i + batchSize);
+        await this.delete({
+          folder: batch
+            .filter((item) => item.type == 'folder')
+            .map((item) => item.id),
+          file: batch
+            .filter((item) => item.type == 'file')
+            .map((item) => item.id),
+        });
+        batches++;
+      }
+    }
+    return {
+      dryRun,
+      items,
+      bytes,
+      freeBefore,
+      freeAfter: freeBefore + bytes,
+      batches,
+    };
+  }
+
+  /**
+   * Walks the folder tree depth-first, yielding every folder and file with its full path.
+   * Folders are yielded before their contents, sub-folder listings are prefetched in parallel.
+   * @param {T.WalkOptions} [options] - (optional) Start folder, maximum depth and concurrency.
+   * @returns {AsyncGenerator<T.TreeEntry>} Async iterator of folders and files.
+   * @throws {NotFoundError} If `options.path` does not resolve to a folder.
+   */
+  async *walk(options: T.WalkOptions = {}): AsyncGenerator<T.TreeEntry> {
+    const limit = createLimiter(options.concurrency ?? 4);
+    let folder_id = options.folder_id;
+    let path = '/';
+    if (options.path !== undefined) {
+      const entry = await this.resolvePath(options.path);
+      if (entry.type != 'folder') {
+        throw new NotFoundError(`Not a folder: ${entry.path}`);
+      }
+      folder_id = entry.id;
+      path = entry.path;
+    } else if (folder_id !== undefined) {
+      path = await this.getPath(folder_id);
+    }
+    const details = await this.list('folder', folder_id);
+    yield* this.#walk(details, path, 0, options.maxDepth ?? Infinity, limit);
+  }
+
+  async *#walk(
+    details: T.RFolderDetails,
+    path: string,
+    depth: number,
+    maxDepth: number,
+    limit: ReturnType<typeof createLimiter>
+  ): AsyncGenerator<T.TreeEntry> {
+    for (const file of details.files) {
+      yield {
+        type: 'file',
+        id: file.folder_file_id,
+        path: joinPath(path, file.name),
+        file,
+      };
+    }
+    const children =
+      depth < maxDepth
+        ? details.folders.map((folder) =>
+            limit(() => this.list('folder', folder.id))
+          )
+        : [];
+    // Abandoned prefetches must not surface as unhandled rejections.
+    for (const child of children) child.catch(() => {});
+    for (const [i, folder] of details.folders.entries()) {
+      const folderPath = joinPath(path, folder.name);
+      yield { type: 'folder', id: folder.id, path: folderPath, folder };
+      const child = children[i];
+      if (child) {
+        yield* this.#walk(await child, folderPath, depth + 1, maxDepth, limit);
+      }
+    }
+  }
+
+  /**
+   * Resolves a path such as `/Movies/2024/foo.mkv` to its folder or file.
+   * The root (`/`) resolves to a folder built from the root listing.
+   * @param {string} path - Slash separated path from the root.
+   * @returns {Promise<T.TreeEntry>} Promise resolving the folder (`id` is the folder ID) or file (`id` is the `folder_file_id`).
+   * @throws {NotFoundError} If no folder or file exists at the path.
+   */
+  async resolvePath(path: string): Promise<T.TreeEntry> {
+    const segments = splitPath(path);
+    let details = await this.list('folder');
+    let entry: T.TreeEntry = {
+      type: 'folder',
+      id: details.folder_id,
+      path: '/',
+      folder: {
+        id: details.folder_id,
+        name: details.name,
+        fullname: details.fullname,
+        size: details.space_used,
+        play_audio: false,
+        play_video: false,
+        is_shared: false,
+        last_update: details.timestamp,
+      },
+    };
+    for (const [i, name] of segments.entries()) {
+      const current = joinPath(...segments.slice(0, i + 1));
+      const folder = details.folders.find((item) => item.name == name);
+      if (folder) {
+        entry = { type: 'folder', id: folder.id, path: current, folder };
+        if (i < segments.length - 1) {
+          details = await this.list('folder', folder.id);
+        }
+        continue;
+      }
+      const file = details.files.find((item) => item.name == name);
+      if (file && i == segments.length - 1) {
+        return { type: 'file', id: file.folder_file_id, path: current, file };
+      }
+      throw new NotFoundError(`No such file or folder: ${current}`, {
+        func: 'list_contents',
+      });
+    }
+    return entry;
+  }
+
+  /**
+   * Builds the full path of a folder or file by following its parent folders.
+   * @param {number | T.Folder | T.File} item - A folder ID, or a folder / file from `list` results.
+   * @returns {Promise<string>} Promise resolving the path such as `/Movies/2024/foo.mkv`.
+   */
+  async getPath(item: number | T.Folder | T.File): Promise<string> {
+    if (typeof item == 'object' && 'folder_file_id' in item) {
+      return joinPath(await this.getPath(item.folder_id), item.name);
+    }
+    const root = await this.list('folder');
+    const names: string[] = [];
+    let id = typeof item == 'number' ? item : item.id;
+    while (id != root.folder_id) {
+      const details = await this.list('folder', id);
+      names.unshift(details.name);
+      if (details.parent <= 0 || details.parent == id) break;
+      id = details.parent;
+    }
+    return joinPath(...names);
+  }
+
+  /**
+   * Finds files across the account with local filters, sorting and pagination.
+   * With `text`, files found by `search_files` (and the contents of matching folders) are used,
+   * the tree is walked instead when the search fails or nothing matches.
+   * @param {T.FileQuery} [query] - (optional) Filters, folder scope, sorting and pagination.
+   * @returns {Promise<T.FileQueryResult>} Promise resolving the page of files with their full path, and the total.
+   * @throws {NotFoundError} If `query.path` does not resolve to a folder.
+   */
+  async query(query: T.FileQuery = {}): Promise<T.FileQueryResult> {
+    let folder_id = query.folder_id;
+    let scope = '/';
+    if (query.path !== undefined) {
+      const entry = await this.resolvePath(query.path);
+      if (entry.type != 'folder') {
+        throw new NotFoundError(`Not a folder: ${entry.path}`);
+      }
+      folder_id = entry.id;
+      scope = entry.path;
+    } else if (folder_id !== undefined) {
+      scope = await this.getPath(folder_id);
+    }
+    const matches = (entry: T.FileEntry) =>
+      (scope == '/' || entry.path.startsWith(`${scope}/`)) &&
+      matchesQuery(entry.file, query);
+
+    const text = query.text?.toLowerCase();
+    const source = query.source ?? (text ? 'auto' : 'walk');
+    if (source != 'walk') {
+      try {
+        const files = (await this.#search(query.text ?? '')).filter(matches);
+        if (files.length || source == 'search') {
+          return {
+            files: paginate(files, query),
+            total: files.length,
+            source: 'search',
+          };
+        }
+      } catch (e) {
+        if (source == 'search') throw e;
+        this.transport.logger.warn('Search failed, walking the tree', {
+          error: e,
+        });
+      }
+    }
+    const files: T.FileEntry[] = [];
+    for await (const entry of this.walk({ folder_id })) {
+      if (entry.type != 'file' || !matches(entry)) continue;
+      if (text && !entry.file.name.toLowerCase().includes(text)) continue;
+      files.push(entry);
+    }
+    return {
+      files: paginate(files, query),
+      total: files.length,
+      source: 'walk',
+    };
+  }
+
+  async #search(text: string): Promise<T.FileEntry[]> {
+    const results = await this.searchFiles(text);
+    const paths = new Map<number, Promise<string>>();
+    const folderPath = (id: number) => {
+      if (!paths.has(id)) paths.set(id, this.getPath(id));
+      return paths.get(id)!;
+    };
+    const files = new Map<number, T.FileEntry>();
+    for (const file of results.files) {
+      files.set(file.folder_file_id, {
+        type: 'file',
+        id: file.folder_file_id,
+        path: joinPath(await folderPath(file.folder_id), file.name),
+        file,
+      });
+    }
+    // Folders matching by name stand for all of their files.
+    for (const folder of results.folders) {
+      for await (const entry of this.walk({ folder_id: folder.id })) {
+        if (entry.type == 'file') files.set(entry.id, entry);
+      }
+    }
+    return [...files.values()];
+  }
+
+  /**
+   * Downloads a file or a whole folder (recreating its structure) into a local directory.
+   * Partial files are kept as `.part` and resumed with HTTP Range on the next attempt, expired URLs are fetched again.
+   * Only one of `file` or `folder` should be provided.
+   * @param {object} ids - The item to download.
+   * @param {number | T.File} [ids.file] - A `folder_file_id`, or a file from `list` results (enables size checks and hash verification).
+   * @param {number} [ids.folder] - The ID of the folder to download.
+   * @param {string} destDir - Local directory to download into.
+   * @param {T.DownloadOptions} [options] - (optional) Verification, parallelism, progress and cancellation.
+   * @returns {Promise<T.DownloadedFile[]>} Promise resolving the written files.
+   * @throws {Error} If not exactly one of `file` or `folder` is defined.
+   * @throws {ChecksumError} If verification is enabled and a hash does not match.
+   */
+  async download(
+    ids: { file?: number | T.File; folder?: number },
+    destDir: string,
+    options: T.DownloadOptions = {}
+  ): Promise<T.DownloadedFile[]> {
+    if ((ids.file === undefined) == (ids.folder === undefined)) {
+      throw new Error('Exactly one of file or folder must be defined');
+    }
+    const files: { id: number; size?: number; hash?: string; dest: string }[] =
+      [];
+    if (ids.folder !== undefined) {
+      const base = await this.getPath(ids.folder);
+      for await (const entry of this.walk({ folder_id: ids.folder })) {
+        if (entry.type != 'file') continue;
+        files.push({
+          id: entry.id,
+          size: entry.file.size,
+          hash: entry.file.hash,
+          dest: path.join(
+            destDir,
+            path.posix.basename(base),
+            path.posix.relative(base, entry.path)
+          ),
+        });
+      }
+    } else if (typeof ids.file == 'number') {
+      const { name } = await this.fetchFile(ids.file);
+      files.push({ id: ids.file, dest: path.join(destDir, name) });
+    } else if (ids.file) {
+      files.push({
+        id: ids.file.folder_file_id,
+        size: ids.file.size,
+        hash: ids.file.hash,
+        dest: path.join(destDir, ids.file.name),
+      });
+    }
+
+    const tracker = new DownloadTracker(
+      files.every((file) => file.size !== undefined)
+        ? files.reduce((total, file) => total + (file.size ?? 0), 0)
+        : undefined,
+      options.onProgress
+    );
+    const limit = createLimiter(options.concurrency ?? 2);
+    const results = await Promise.allSettled(
+      files.map((file) =>
+        limit(() =>
+          downloadFile(
+            this.transport,
+            file,
+            file.dest,
+            async () => (await this.fetchFile(file.id)).url,
+            tracker,
+            options
+          )
+        )
+      )
+    );
+    const failed = results.find((result) => result.status == 'rejected');
+    if (failed) throw failed.reason;
+    return results.map(
+      (result) => (result as PromiseFulfilledResult<T.DownloadedFile>).value
+    );
+  }
+
+  /**
+   * Gets everything needed to play a video file: HLS URL, thumbnail, playback position and subtitles.
+   * Subtitles in the account's `subtitles_language` are listed first.
+   * @param {number | T.File} file - A `folder_file_id`, or a video file from `list` results.
+   * @returns {Promise<T.VideoStream>} Promise resolving the stream details.
+   */
+  async getStream(file: number | T.File): Promise<T.VideoStream> {
+    const id = typeof file == 'number' ? file : file.folder_file_id;
+    const [video, { subtitles }, { settings }] = await Promise.all([
+      this.playVideo(id),
+      this.getSubtitles(id),
+      this.getAccountInfo(),
+    ]);
+    const language = settings.subtitles_language.toLowerCase();
+    const preferred = (subtitle: T.Subtitle) =>
+      subtitle.language.toLowerCase() == language ? 0 : 1;
+    return {
+      id,
+      hls: video.url_hls,
+      thumb:
+        (typeof file == 'object' && file.thumb) ||
+        video.url_preview ||
+        undefined,
+      progress: video.video_progress,
+      subtitles: [...subtitles].sort((a, b) => preferred(a) - preferred(b)),
+    };
+  }
+
+  /**
+   * Gets the saved playback position of a video file.
+   * @param {number} folder_file_id - The ID of the file (`folder_file_id` from the `list` results).
+   * @returns {Promise<number>} Promise resolving the position in seconds.
+   */
+  async getVideoProgress(folder_file_id: number): Promise<number> {
+    return (await this.playVideo(folder_file_id)).video_progress;
+  }
+
+  /**
+   * Downloads the thumbnail of a video file.
+   * @param {T.File} file - A video file from `list` results.
+   * @returns {Promise<Buffer>} Promise resolving the image.
+   * @throws {NotFoundError} If the file has no thumbnail.
+   */
+  async getThumbnail(file: T.File): Promise<Buffer> {
+    if (!file.thumb) {
+      throw new NotFoundError(`No thumbnail for ${file.name}`);
+    }
+    return this.#fetchMedia(file.thumb, 'thumb');
+  }
+
+  /**
+   * Downloads a subtitle file.
+   * @param {T.Subtitle} subtitle - A subtitle from `getSubtitles` or `getStream`.
+   * @returns {Promise<string>} Promise resolving the subtitle content (SRT / VTT).
+   */
+  async fetchSubtitle(subtitle: T.Subtitle): Promise<string> {
+    return (await this.#fetchMedia(subtitle.url, 'subtitle')).toString('utf-8');
+  }
+
+  async #fetchMedia(url: string, func: string): Promise<Buffer> {
+    try {
+      return await readAll(this.transport.stream(url));
+    } catch (e) {
+      throw errorFromRequest(e, func);
+    }
+  }
+
+  /**
+   * Waits for a torrent to complete by polling, see `TorrentWatcher` for continuous events.
+   * Pass the `RTorrentAdded` response to match torrents that complete instantly by name, see `TorrentWatcher.awaitTorrent`.
+   * @param {number | T.RTorrentAdded} torrent - The `user_torrent_id`, or the response of adding the torrent.
+   * @param {object} [options] - (optional) Polling options, the folder the torrent downloads into and an `AbortSignal`.
+   * @returns {Promise<T.Folder>} Promise resolving the folder created by the torrent.
+   * @throws {NotFoundError} If the torrent is removed before completion.
+   * @throws {SeedrAPIError} If the torrent stops before completion, or after `maxPollErrors` consecutive failed polls.
+   */
+  async awaitTorrent(
+    torrent: number | T.RTorrentAdded,
+    options: T.TorrentWatcherOptions & {
+      folder_id?: number;
+      signal?: AbortSignal;
+    } = {}
+  ): Promise<T.Folder> {
+    const watcher = new TorrentWatcher(this, options);
+    try {
+      return await watcher.awaitTorrent(torrent, options);
+    } finally {
+      watcher.stop();
+    }
+  }
 }
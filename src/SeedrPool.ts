@@ -0,0 +1,439 @@
+import * as T from './types';
+import {
+  AuthError,
+  NotFoundError,
+  QuotaError,
+  RateLimitError,
+  SeedrAPIError,
+  TransportError,
+  UnexpectedResponseError,
+} from './Errors';
+import { SeedrExtended } from './SeedrExtended';
+import { parseMagnet, parseTorrentFile } from './TorrentInfo';
+import { joinPath, readAll, splitPath } from './utils';
+
+import fs from 'fs-extra';
+import path from 'path';
+import { EventEmitter } from 'events';
+
+type Account = {
+  name: string;
+  seedr: SeedrExtended;
+  active: boolean;
+  error?: unknown;
+  until?: number;
+};
+
+function tag<R extends object>(account: string, items: R[]): T.Tagged<R>[] {
+  return items.map((item) => ({ ...item, account }));
+}
+
+/**
+ * Spreads torrents over several Seedr accounts, each with its own auth state.
+ * Adds go to the account with the most free space, listings and searches are aggregated with results tagged by account,
+ * and follow-up operations on tagged results go to their account.
+ * Accounts failing authentication are taken out of rotation until `enable`, network and server errors for a cooldown.
+ * Emits `disabled` and `enabled` when accounts leave and return to rotation.
+ */
+export class SeedrPool extends EventEmitter<T.SeedrPoolEvents> {
+  #accounts = new Map<string, Account>();
+  #options: T.SeedrPoolOptions;
+
+  /**
+   * Creates an instance of `SeedrPool`.
+   * @param {T.PoolAccount[]} accounts - Accounts with their auth state stores and client options.
+   * @param {T.SeedrPoolOptions} [options] - (optional) Shared client options, reserved space and cooldown.
+   * @throws {Error} If account names are not unique.
+   */
+  constructor(accounts: T.PoolAccount[], options: T.SeedrPoolOptions = {}) {
+    super();
+    this.#options = options;
+    for (const account of accounts) {
+      if (this.#accounts.has(account.name)) {
+        throw new Error(`Duplicate account: ${account.name}`);
+      }
+      this.#accounts.set(account.name, {
+        name: account.name,
+        seedr: new SeedrExtended(account.store, {
+          ...options.client,
+          ...account.options,
+        }),
+        active: true,
+      });
+    }
+  }
+
+  /**
+   * Status of all accounts, in the order they were given.
+   */
+  get accounts(): T.PoolAccountStatus[] {
+    return [...this.#accounts.values()].map((account) => ({
+      name: account.name,
+      active: this.#isActive(account),
+      error: account.error,
+      until: account.until,
+    }));
+  }
+
+  /**
+   * Client of an account, eg. to log in or for operations not covered by the pool.
+   * @param {string} name - Account name.
+   * @returns {SeedrExtended} The client.
+   * @throws {Error} If no account has this name.
+   */
+  get(name: string): SeedrExtended {
+    return this.#account(name).seedr;
+  }
+
+  /**
+   * Puts an account back in rotation.
+   * @param {string} name - Account name.
+   */
+  enable(name: string): void {
+    const account = this.#account(name);
+    if (account.active) return;
+    Object.assign(account, {
+      active: true,
+      error: undefined,
+      until: undefined,
+    });
+    this.emit('enabled', name);
+  }
+
+  /**
+   * Takes an account out of rotation until `enable`.
+   * @param {string} name - Account name.
+   * @param {unknown} [error] - (optional) Reason recorded in the account status.
+   */
+  disable(name: string, error?: unknown): void {
+    this.#disable(this.#account(name), error);
+  }
+
+  /**
+   * Retrieves the usage of all accounts in rotation.
+   * @returns {Promise<T.Tagged<T.RMemoryBandwidth>[]>} Promise resolving the usage of each account answering.
+   * @throws {Error} If no account is in rotation, or the error of the first account if all fail.
+   */
+  async usage(): Promise<T.Tagged<T.RMemoryBandwidth>[]> {
+    const results = await this.#each((seedr) => seedr.getUsage());
+    return results.map(([account, usage]) => ({ ...usage, account }));
+  }
+
+  /**
+   * Adds a torrent to the account with the most free space that fits it, trying the next one if Seedr refuses it for lack of space
+   * or the account is taken out of rotation. Folders created for `path` on accounts refusing the torrent are removed.
+   * Torrents of unknown size (URLs, magnets without `xl`) go to the account with the most free space.
+   * @param {T.PoolAddOptions} options - The torrent source, folder path and account.
+   * @returns {Promise<T.Tagged<T.RTorrentAdded>>} Promise resolving the response, tagged with the account.
+   * @throws {QuotaError} If no account has enough free space.
+   * @throws {UnexpectedResponseError} If Seedr refuses the torrent for another reason.
+   * @throws {SeedrAPIError} With the error of the first account, if every account failed.
+   */
+  async addTorrent(
+    options: T.PoolAddOptions
+  ): Promise<T.Tagged<T.RTorrentAdded>> {
+    const { path: folder, account: name, ...source } = options;
+    let info: T.TorrentInfo | undefined;
+    const file = source.torrent_file;
+    if (source.torrent_magnet) {
+      try {
+        info = parseMagnet(source.torrent_magnet);
+      } catch {
+        // Left to Seedr to reject.
+      }
+    } else if (file !== undefined) {
+      // Read once, to parse its size and upload it to any account.
+      const bytes =
+        typeof file == 'string'
+          ? await fs.readFile(file)
+          : file instanceof Uint8Array
+          ? Buffer.from(file)
+          : await readAll(file);
+      try {
+        info = parseTorrentFile(bytes);
+      } catch {
+        // Left to Seedr to reject.
+      }
+      source.torrent_file = bytes;
+      if (typeof file == 'string') source.filename ??= path.basename(file);
+    }
+    const size = info?.size;
+
+    const reserve = this.#options.reserve ?? 0;
+    const candidates =
+      name !== undefined
+        ? [this.#account(name)]
+        : (await this.usage())
+            .map((usage) => ({
+              account: this.#account(usage.account),
+              free: usage.space_max - usage.space_used - reserve,
+            }))
+            .filter(({ free }) => free >= (size ?? 0))
+            .sort((a, b) => b.free - a.free)
+            .map(({ account }) => account);
+    let full = false;
+    let error: unknown;
+    for (const account of candidates) {
+      let created: number | undefined;
+      let response: T.RAddTorrent | undefined;
+      try {
+        response = await this.#call(account, async (seedr) => {
+          let folder_id: number | undefined;
+          if (folder !== undefined) {
+            ({ id: folder_id, created } = await this.#mkdirp(seedr, folder));
+          }
+          return seedr.addTorrent({ ...source, folder_id });
+        });
+      } catch (e) {
+        if (e instanceof QuotaError) {
+          full = true;
+        } else if (!account.active) {
+          error ??= e;
+        } else {
+          await this.#removeFolder(account, created);
+          throw e;
+        }
+      }
+      if (response?.result === true) {
+        return { ...response, account: account.name };
+      }
+      await this.#removeFolder(account, created);
+      if (!response) continue;
+      // Parked in the wishlist, the usage was out of date.
+      await account.seedr.removeParked(response, info).catch((e) => {
+        account.seedr.transport.logger.warn('Unable to remove wishlist item', {
+          account: account.name,
+          error: e,
+        });
+      });
+      if (!/space|quota/i.test(response.result)) {
+        throw new UnexpectedResponseError(
+          `Torrent not added: ${response.result}`,
+          { func: 'add_torrent', body: response }
+        );
+      }
+      full = true;
+    }
+    if (error && !full) throw error;
+    throw new QuotaError(
+      `No account has enough free space${
+        size !== undefined ? ` for ${size} bytes` : ''
+      }`,
+      { func: 'add_torrent' }
+    );
+  }
+
+  /**
+   * Lists the root folders of all accounts in rotation, or the contents of a folder from a previous listing.
+   * @param {T.Tagged<T.Folder>} [folder] - (optional) Folder to list, from its account.
+   * @returns {Promise<T.PoolListing>} Promise resolving the tagged folders, files and torrents.
+   */
+  async list(folder?: T.Tagged<T.Folder>): Promise<T.PoolListing> {
+    if (folder) {
+      const account = this.#account(folder.account);
+      return this.#merge([
+        [
+          account.name,
+          await this.#call(account, (s) => s.list('folder', folder.id)),
+        ],
+      ]);
+    }
+    return this.#merge(await this.#each((seedr) => seedr.list('folder')));
+  }
+
+  /**
+   * Searches all accounts in rotation.
+   * @param {string} search_query - Text to search for.
+   * @returns {Promise<T.PoolListing>} Promise resolving the tagged folders, files and torrents found.
+   */
+  async searchFiles(search_query: string): Promise<T.PoolListing> {
+    return this.#merge(
+      await this.#each((seedr) => seedr.searchFiles(search_query))
+    );
+  }
+
+  /**
+   * Fetches the download URL of a file from its account.
+   * @param {T.Tagged<T.File>} file - File from a listing or search.
+   * @returns {Promise<T.Tagged<T.RFetchFile>>} Promise resolving the download URL, tagged with the account.
+   */
+  async fetchFile(file: T.Tagged<T.File>): Promise<T.Tagged<T.RFetchFile>> {
+    const account = this.#account(file.account);
+    const response = await this.#call(account, (seedr) =>
+      seedr.fetchFile(file.folder_file_id)
+    );
+    return { ...response, account: account.name };
+  }
+
+  /**
+   * Deletes folders, files and torrents from their accounts.
+   * @param {object} items - Tagged items from listings or searches.
+   * @param {T.Tagged<T.Folder>[]} [items.folder] - Folders to delete.
+   * @param {T.Tagged<T.File>[]} [items.file] - Files to delete.
+   * @param {T.Tagged<T.Torrent>[]} [items.torrent] - Torrents to delete.
+   * @returns {Promise<void>} Promise resolving after deleting from every account.
+   */
+  async delete(items: {
+    folder?: T.Tagged<T.Folder>[];
+    file?: T.Tagged<T.File>[];
+    torrent?: T.Tagged<T.Torrent>[];
+  }): Promise<void> {
+    const ids = new Map<
+      string,
+      { folder: number[]; file: number[]; torrent: number[] }
+    >();
+    const get = (name: string) => {
+      if (!ids.has(name)) ids.set(name, { folder: [], file: [], torrent: [] });
+      return ids.get(name)!;
+    };
+    for (const folder of items.folder ?? []) {
+      get(folder.account).folder.push(folder.id);
+    }
+    for (const file of items.file ?? []) {
+      get(file.account).file.push(file.folder_file_id);
+    }
+    for (const torrent of items.torrent ?? []) {
+      get(torrent.account).torrent.push(torrent.id);
+    }
+    await Promise.all(
+      [...ids].map(([name, ids]) =>
+        this.#call(this.#account(name), (seedr) => seedr.delete(ids))
+      )
+    );
+  }
+
+  /**
+   * Creates the folder of an add, with the ID of the topmost folder created if any.
+   */
+  async #mkdirp(
+    seedr: SeedrExtended,
+    folder: string
+  ): Promise<{ id: number; created?: number }> {
+    const resolve = (path: string) =>
+      seedr.resolvePath(path).catch((e) => {
+        if (e instanceof NotFoundError) return undefined;
+        throw e;
+      });
+    const existing = await resolve(folder);
+    if (existing?.type == 'folder') return { id: existing.id };
+    const segments = splitPath(folder);
+    let missing = joinPath(folder);
+    for (let i = 1; i < segments.length; i++) {
+      const prefix = joinPath(...segments.slice(0, i));
+      if (!(await resolve(prefix))) {
+        missing = prefix;
+        break;
+      }
+    }
+    const { id } = await seedr.mkdirp(folder);
+    return { id, created: (await seedr.resolvePath(missing)).id };
+  }
+
+  /**
+   * Removes a folder created for an add the account refused.
+   */
+  async #removeFolder(account: Account, id?: number): Promise<void> {
+    if (id === undefined) return;
+    await account.seedr.delete({ folder: [id] }).catch((e) => {
+      account.seedr.transport.logger.warn('Unable to remove folder', {
+        account: account.name,
+        id,
+        error: e,
+      });
+    });
+  }
+
+  #account(name: string): Account {
+    const account = this.#accounts.get(name);
+    if (!account) throw new Error(`Unknown account: ${name}`);
+    return account;
+  }
+
+  /**
+   * Whether an account is in rotation, putting it back once its cooldown is over.
+   */
+  #isActive(account: Account): boolean {
+    if (!account.active && account.until && account.until <= Date.now()) {
+      this.enable(account.name);
+    }
+    return account.active;
+  }
+
+  #disable(account: Account, error: unknown, until?: number): void {
+    const wasActive = account.active;
+    Object.assign(account, { active: false, error, until });
+    if (wasActive) this.emit('disabled', account.name, error);
+  }
+
+  /**
+   * Calls an account, taking it out of rotation on authentication, network and server errors.
+   */
+  async #call<R>(
+    account: Account,
+    fn: (seedr: SeedrExtended) => Promise<R>
+  ): Promise<R> {
+    try {
+      return await fn(account.seedr);
+    } catch (e) {
+      if (e instanceof AuthError) {
+        this.#disable(account, e);
+      } else if (
+        e instanceof TransportError ||
+        e instanceof RateLimitError ||
+        (e instanceof SeedrAPIError && (e.status ?? 0) >= 500)
+      ) {
+        this.#disable(
+          account,
+          e,
+          Date.now() + (this.#options.cooldown ?? 300000)
+        );
+      }
+      throw e;
+    }
+  }
+
+  /**
+   * Calls all accounts in rotation, skipping the ones failing.
+   */
+  async #each<R>(
+    fn: (seedr: SeedrExtended) => Promise<R>
+  ): Promise<[string, R][]> {
+    const accounts = [...this.#accounts.values()].filter((account) =>
+      this.#isActive(account)
+    );
+    if (!accounts.length) throw new Error('No account in rotation');
+    const settled = await Promise.allSettled(
+      accounts.map((account) => this.#call(account, fn))
+    );
+    const results: [string, R][] = [];
+    for (const [i, result] of settled.entries()) {
+      if (result.status == 'fulfilled') {
+        results.push([accounts[i]!.name, result.value]);
+      } else {
+        accounts[i]!.seedr.transport.logger.warn('Pool account failed', {
+          account: accounts[i]!.name,
+          error: result.reason,
+        });
+      }
+    }
+    if (!results.length) {
+      throw (settled[0] as PromiseRejectedResult).reason;
+    }
+    return results;
+  }
+
+  #merge(
+    listings: [
+      string,
+      Pick<T.RSearchResults, 'folders' | 'files' | 'torrents'>
+    ][]
+  ): T.PoolListing {
+    const merged: T.PoolListing = { folders: [], files: [], torrents: [] };
+    for (const [account, listing] of listings) {
+      merged.folders.push(...tag(account, listing.folders));
+      merged.files.push(...tag(account, listing.files));
+      merged.torrents.push(...tag(account, listing.torrents));
+    }
+    return merged;
+  }
+}
@@ -1,6 +1,9 @@
 import * as T from './types';
+import { sleep } from './utils';
 
 import fs from 'fs-extra';
+import path from 'path';
+import crypto from 'crypto';
 
 export class NoPersistence implements T.IStore {
   state: T.AuthState;
@@ -25,6 +28,10 @@ export class FilePersistence implements T.IStore {
     this.path = path;
   }
 
+  lock<R>(fn: () => Promise<R>): Promise<R> {
+    return withFileLock(this.path, fn);
+  }
+
   save(state: T.AuthState): void {
     fs.writeJSONSync(this.path, state);
   }
@@ -37,3 +44,320 @@ export class FilePersistence implements T.IStore {
     return fs.readJSONSync(this.path);
   }
 }
+
+const FORMAT_VERSION = 1;
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+
+type EncryptedFile = {
+  v: number;
+  kdf: 'scrypt' | 'raw';
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+};
+
+function isEncrypted(file: unknown): file is EncryptedFile {
+  return (
+    typeof file == 'object' && file !== null && 'v' in file && 'data' in file
+  );
+}
+
+/**
+ * File persistence encrypted with AES-256-GCM, keyed by a passphrase (scrypt) or a raw 32 byte key.
+ * Writes are atomic with `0600` permissions, plain-JSON files are refused unless encrypted with `migrate()`.
+ */
+export class EncryptedFilePersistence implements T.IStore {
+  path: string;
+  #secret: string | Buffer;
+  #salt?: Buffer;
+  #key?: Buffer;
+
+  /**
+   * Creates an instance of `EncryptedFilePersistence`.
+   * @param {string} path - Path of the encrypted state file.
+   * @param {string | Buffer} secret - Passphrase, or a raw 32 byte key.
+   */
+  constructor(path: string, secret: string | Buffer) {
+    if (Buffer.isBuffer(secret) && secret.length != 32) {
+      throw new Error('Raw key must be 32 bytes');
+    }
+    this.path = path;
+    this.#secret = secret;
+  }
+
+  /**
+   * Encrypts a plain-JSON state file, eg. from `FilePersistence`, in place.
+   * @param {string} path - Path of the state file.
+   * @param {string | Buffer} secret - Passphrase, or a raw 32 byte key.
+   * @returns {EncryptedFilePersistence} The persistence of the encrypted file.
+   * @throws {Error} If the file does not exist or is already encrypted.
+   */
+  static migrate(
+    path: string,
+    secret: string | Buffer
+  ): EncryptedFilePersistence {
+    const store = new EncryptedFilePersistence(path, secret);
+    const file = fs.readJSONSync(path);
+    if (isEncrypted(file)) throw new Error('State file is already encrypted');
+    store.save(file ?? {});
+    return store;
+  }
+
+  lock<R>(fn: () => Promise<R>): Promise<R> {
+    return withFileLock(this.path, fn);
+  }
+
+  #deriveKey(salt: Buffer): Buffer {
+    if (Buffer.isBuffer(this.#secret)) return this.#secret;
+    if (!this.#key || !this.#salt?.equals(salt)) {
+      this.#key = crypto.scryptSync(this.#secret, salt, 32, SCRYPT_PARAMS);
+      this.#salt = salt;
+    }
+    return this.#key;
+  }
+
+  save(state: T.AuthState): void {
+    const salt = this.#salt ?? crypto.randomBytes(16);
+    const key = this.#deriveKey(salt);
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const data = Buffer.concat([
+      cipher.update(JSON.stringify(state), 'utf-8'),
+      cipher.final(),
+    ]);
+    const file: EncryptedFile = {
+      v: FORMAT_VERSION,
+      kdf: Buffer.isBuffer(this.#secret) ? 'raw' : 'scrypt',
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+    writeAtomic(this.path, JSON.stringify(file));
+  }
+
+  load(): T.AuthState {
+    if (!fs.existsSync(this.path)) {
+      this.save({});
+      return {};
+    }
+    const file = fs.readJSONSync(this.path);
+    if (!isEncrypted(file)) {
+      throw new Error(
+        'State file is not encrypted, use EncryptedFilePersistence.migrate to encrypt it'
+      );
+    }
+    if (file.v != FORMAT_VERSION) {
+      throw new Error(`Unsupported state file version ${file.v}`);
+    }
+    const { salt, iv, tag, data } = file;
+    const decipher = crypto.createDecipheriv(
+      'aes-256-gcm',
+      this.#deriveKey(Buffer.from(salt, 'base64')),
+      Buffer.from(iv, 'base64')
+    );
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    let json: string;
+    try {
+      json = Buffer.concat([
+        decipher.update(Buffer.from(data, 'base64')),
+        decipher.final(),
+      ]).toString('utf-8');
+    } catch {
+      throw new Error('Unable to decrypt state, wrong key or tampered file');
+    }
+    return JSON.parse(json);
+  }
+}
+
+/**
+ * Read-only persistence from environment variables, changes are only kept in memory.
+ * Reads a JSON `AuthState` from `SEEDR_AUTH_STATE`, or individual `SEEDR_ACCESS_TOKEN`,
+ * `SEEDR_REFRESH_TOKEN`, `SEEDR_DEVICE_CODE`, `SEEDR_USERNAME` and `SEEDR_PASSWORD` variables.
+ */
+export class EnvPersistence implements T.IStore {
+  state: T.AuthState;
+
+  /**
+   * Creates an instance of `EnvPersistence`.
+   * @param {Record<string, string | undefined>} [env] - (optional) Variables to read, defaults to `process.env`.
+   * @param {string} [prefix='SEEDR_'] - (optional) Prefix of the variable names.
+   */
+  constructor(
+    env: Record<string, string | undefined> = process.env,
+    prefix: string = 'SEEDR_'
+  ) {
+    const json = env[`${prefix}AUTH_STATE`];
+    if (json) {
+      this.state = JSON.parse(json);
+      return;
+    }
+    this.state = {};
+    const access = env[`${prefix}ACCESS_TOKEN`];
+    const refresh = env[`${prefix}REFRESH_TOKEN`];
+    const device = env[`${prefix}DEVICE_CODE`];
+    const username = env[`${prefix}USERNAME`];
+    const password = env[`${prefix}PASSWORD`];
+    if (access) {
+      const expiry = Number(env[`${prefix}ACCESS_EXPIRY`]);
+      this.state.access = {
+        token: access,
+        expiry: Number.isFinite(expiry) && expiry > 0 ? expiry : Infinity,
+      };
+    }
+    if (refresh) this.state.refresh = { token: refresh };
+    if (device) {
+      // An authorized device code carries no expiry, see `Auth.refreshTokenXBMC`.
+      this.state.xbmc = { device_code: device, user_code: '' };
+    }
+    if (username && password) this.state.credential = { username, password };
+  }
+
+  save(state: T.AuthState): void {
+    this.state = state;
+  }
+
+  load(): T.AuthState {
+    return this.state;
+  }
+}
+
+/**
+ * Persistence backed by a generic key/value store, such as a Redis client.
+ */
+export class KeyValuePersistence implements T.IStore {
+  store: T.IKeyValue;
+  key: string;
+
+  /**
+   * Creates an instance of `KeyValuePersistence`.
+   * @param {T.IKeyValue} store - Key/value store with `get` and `set`.
+   * @param {string} [key='seedr-js:auth_state'] - (optional) Key holding the state.
+   */
+  constructor(store: T.IKeyValue, key: string = 'seedr-js:auth_state') {
+    this.store = store;
+    this.key = key;
+  }
+
+  async save(state: T.AuthState): Promise<void> {
+    await this.store.set(this.key, JSON.stringify(state));
+  }
+
+  async load(): Promise<T.AuthState> {
+    const value = await this.store.get(this.key);
+    return value ? JSON.parse(value) : {};
+  }
+}
+
+/**
+ * File persistence of any JSON state, written atomically. Base of the queue, delivery log and feed stores.
+ */
+export class FileJsonPersistence<S> {
+  path: string;
+
+  /**
+   * Creates an instance of `FileJsonPersistence`.
+   * @param {string} path - Path of the state file.
+   */
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  save(state: S): void {
+    writeAtomic(this.path, JSON.stringify(state));
+  }
+
+  load(): S | undefined {
+    return fs.existsSync(this.path) ? fs.readJSONSync(this.path) : undefined;
+  }
+}
+
+/**
+ * File persistence of `TorrentQueue` items, written atomically as JSON.
+ */
+export class FileQueuePersistence
+  extends FileJsonPersistence<T.QueueItem[]>
+  implements T.IQueueStore
+{
+  load(): T.QueueItem[] {
+    return super.load() ?? [];
+  }
+}
+
+/**
+ * File persistence of the `Notifier` delivery log, written atomically as JSON.
+ */
+export class FileDeliveryPersistence
+  extends FileJsonPersistence<T.DeliveryLog>
+  implements T.IDeliveryStore {}
+
+/**
+ * File persistence of the `FeedWatcher` state, written atomically as JSON.
+ */
+export class FileFeedPersistence
+  extends FileJsonPersistence<T.FeedState>
+  implements T.IFeedStore {}
+
+const LOCK_STALE = 30000;
+const LOCK_TIMEOUT = 60000;
+
+/**
+ * Runs `fn` holding `<file>.lock`, shared across processes. Locks not touched for 30s are considered stale,
+ * the holder touches its lock every 10s so a slow `fn` keeps it.
+ */
+async function withFileLock<R>(file: string, fn: () => Promise<R>): Promise<R> {
+  const lock = `${file}.lock`;
+  const start = Date.now();
+  fs.ensureDirSync(path.dirname(lock));
+  for (;;) {
+    try {
+      fs.closeSync(fs.openSync(lock, 'wx'));
+      break;
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code != 'EEXIST') throw e;
+    }
+    const stat = fs.statSync(lock, { throwIfNoEntry: false });
+    if (stat && Date.now() - stat.mtimeMs > LOCK_STALE) {
+      fs.removeSync(lock);
+    } else if (Date.now() - start > LOCK_TIMEOUT) {
+      throw new Error(`Timed out waiting for lock ${lock}`);
+    } else {
+      await sleep(50);
+    }
+  }
+  const heartbeat = setInterval(() => {
+    try {
+      const now = new Date();
+      fs.utimesSync(lock, now, now);
+    } catch {
+      // Removed as stale after all, the next holder owns it now.
+    }
+  }, LOCK_STALE / 3);
+  heartbeat.unref();
+  try {
+    return await fn();
+  } finally {
+    clearInterval(heartbeat);
+    fs.removeSync(lock);
+  }
+}
+
+/**
+ * Writes a file through a temporary file and a rename, readable by the owner only.
+ * @param {string} file - Path of the file.
+ * @param {string} data - Content to write.
+ */
+export function writeAtomic(file: string, data: string): void {
+  fs.ensureDirSync(path.dirname(file));
+  const temp = `${file}.${process.pid}.${crypto
+    .randomBytes(4)
+    .toString('hex')}.tmp`;
+  try {
+    fs.writeFileSync(temp, data, { mode: 0o600 });
+    fs.renameSync(temp, file);
+  } finally {
+    fs.removeSync(temp);
+  }
+  fs.chmodSync(file, 0o600);
+}
@@ -0,0 +1,155 @@
+import * as T from './types';
+import { type BencodeValue, decode, raw } from './Bencode';
+
+import crypto from 'crypto';
+
+const BASE32 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+type Dict = { [key: string]: BencodeValue };
+
+function isDict(value: BencodeValue | undefined): value is Dict {
+  return (
+    typeof value == 'object' && !Buffer.isBuffer(value) && !Array.isArray(value)
+  );
+}
+
+function text(value: BencodeValue | undefined): string | undefined {
+  return Buffer.isBuffer(value) ? value.toString('utf-8') : undefined;
+}
+
+/**
+ * Parses a .torrent file (v1, v2 or hybrid).
+ * @param {Uint8Array} data - Content of the .torrent file.
+ * @returns {T.TorrentInfo} Info hashes, name, files, total size and trackers.
+ * @throws {Error} If the data is not a valid .torrent file.
+ */
+export function parseTorrentFile(data: Uint8Array): T.TorrentInfo {
+  const torrent = decode(data);
+  const info = isDict(torrent) ? torrent.info : undefined;
+  if (!isDict(torrent) || !isDict(info)) {
+    throw new Error('Invalid torrent file: missing info dictionary');
+  }
+  const bytes = raw(info)!;
+  const name = text(info['name.utf-8']) ?? text(info.name);
+  const v2 = info['meta version'] == 2 && isDict(info['file tree']);
+  const v1 = info.pieces !== undefined || !v2;
+
+  const files: T.TorrentInfo['files'] = [];
+  if (Array.isArray(info.files)) {
+    for (const file of info.files) {
+      if (!isDict(file) || !Array.isArray(file.path)) continue;
+      // Padding files of hybrid torrents are not part of the content.
+      if (text(file.attr)?.includes('p')) continue;
+      const segments = (file['path.utf-8'] ?? file.path) as BencodeValue[];
+      files.push({
+        path: [name, ...segments.map(text)]
+          .filter((segment) => segment !== undefined)
+          .join('/'),
+        size: Number(file.length) || 0,
+      });
+    }
+  } else if (typeof info.length == 'number') {
+    files.push({ path: name ?? '', size: info.length });
+  } else if (v2) {
+    walkFileTree(info['file tree'] as Dict, name ?? '', files);
+  }
+
+  const trackers = new Set<string>();
+  const announce = text(torrent.announce);
+  if (announce) trackers.add(announce);
+  if (Array.isArray(torrent['announce-list'])) {
+    for (const tier of torrent['announce-list']) {
+      if (!Array.isArray(tier)) continue;
+      for (const tracker of tier) {
+        const url = text(tracker);
+        if (url) trackers.add(url);
+      }
+    }
+  }
+
+  return {
+    source: 'file',
+    infoHash: v1
+      ? crypto.createHash('sha1').update(bytes).digest('hex')
+      : undefined,
+    infoHashV2: v2
+      ? crypto.createHash('sha256').update(bytes).digest('hex')
+      : undefined,
+    name,
+    files,
+    size: files.reduce((total, file) => total + file.size, 0),
+    trackers: [...trackers],
+  };
+}
+
+function walkFileTree(
+  tree: Dict,
+  path: string,
+  files: T.TorrentInfo['files']
+): void {
+  for (const [key, node] of Object.entries(tree)) {
+    if (!isDict(node)) continue;
+    const file = node[''];
+    if (isDict(file)) {
+      files.push({ path: `${path}/${key}`, size: Number(file.length) || 0 });
+    } else {
+      walkFileTree(node, `${path}/${key}`, files);
+    }
+  }
+}
+
+/**
+ * Parses a magnet URI.
+ * @param {string} magnet - The magnet URI.
+ * @returns {T.TorrentInfo} Info hashes, display name, exact length and trackers, files are unknown.
+ * @throws {Error} If the URI is not a magnet link with a BitTorrent info hash.
+ */
+export function parseMagnet(magnet: string): T.TorrentInfo {
+  if (!magnet.startsWith('magnet:?')) throw new Error('Invalid magnet URI');
+  const params = new URLSearchParams(magnet.slice('magnet:?'.length));
+  let infoHash: string | undefined;
+  let infoHashV2: string | undefined;
+  for (const xt of params.getAll('xt')) {
+    const btih = /^urn:btih:([0-9a-f]{40}|[a-z2-7]{32})$/i.exec(xt)?.[1];
+    const btmh = /^urn:btmh:1220([0-9a-f]{64})$/i.exec(xt)?.[1];
+    if (btih) {
+      infoHash = btih.length == 40 ? btih.toLowerCase() : base32ToHex(btih);
+    } else if (btmh) {
+      infoHashV2 = btmh.toLowerCase();
+    }
+  }
+  if (!infoHash && !infoHashV2) {
+    throw new Error('Invalid magnet URI: missing BitTorrent info hash');
+  }
+  const size = Number(params.get('xl'));
+  return {
+    source: 'magnet',
+    infoHash,
+    infoHashV2,
+    name: params.get('dn') ?? undefined,
+    files: [],
+    size: Number.isSafeInteger(size) && size > 0 ? size : undefined,
+    trackers: [...new Set(params.getAll('tr'))],
+  };
+}
+
+/**
+ * Hashes identifying a torrent on Seedr: the v1 hash, and the full / truncated v2 hash.
+ * @param {T.TorrentInfo} info - Parsed torrent.
+ * @returns {string[]} Lowercase hex hashes.
+ */
+export function torrentHashes(info: T.TorrentInfo): string[] {
+  return [info.infoHash, info.infoHashV2, info.infoHashV2?.slice(0, 40)]
+    .filter((hash): hash is string => !!hash)
+    .map((hash) => hash.toLowerCase());
+}
+
+function base32ToHex(value: string): string {
+  let bits = '';
+  for (const char of value.toUpperCase()) {
+    bits += BASE32.indexOf(char).toString(2).padStart(5, '0');
+  }
+  return (bits.match(/.{4}/g) ?? [])
+    .map((nibble) => parseInt(nibble, 2).toString(16))
+    .join('');
+}
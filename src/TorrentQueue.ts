@@ -0,0 +1,370 @@
+import * as T from './types';
+import { QuotaError, UnexpectedResponseError } from './Errors';
+import { TorrentWatcher } from './TorrentWatcher';
+import { parseMagnet, parseTorrentFile } from './TorrentInfo';
+import { readAll } from './utils';
+import type { SeedrExtended } from './SeedrExtended';
+
+import fs from 'fs-extra';
+import path from 'path';
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+
+/**
+ * Client-side queue of torrents, submitted one after another when they fit in the free space.
+ * Emits `queued`, `submitted`, `completed` and `failed` for items.
+ */
+export class TorrentQueue extends EventEmitter<T.TorrentQueueEvents> {
+  #seedr: SeedrExtended;
+  #store?: T.IQueueStore;
+  #interval: number;
+  #maxActive: number;
+  #reserve: number;
+  #maxAttempts: number;
+  #watcher: TorrentWatcher;
+  #items?: Promise<T.QueueItem[]>;
+  #following = new Set<string>();
+  #timer?: ReturnType<typeof setTimeout>;
+  #processing?: Promise<void>;
+
+  /**
+   * Creates an instance of `TorrentQueue`.
+   * @param {SeedrExtended} seedr - Client used to add and follow torrents.
+   * @param {T.TorrentQueueOptions} [options] - (optional) Store, interval, limits and watcher options.
+   */
+  constructor(seedr: SeedrExtended, options: T.TorrentQueueOptions = {}) {
+    super();
+    this.#seedr = seedr;
+    this.#store = options.store;
+    this.#interval = options.interval ?? 30000;
+    this.#maxActive = options.maxActive ?? 1;
+    this.#reserve = options.reserve ?? 0;
+    this.#maxAttempts = options.maxAttempts ?? 3;
+    this.#watcher = new TorrentWatcher(seedr, options.watcher);
+  }
+
+  /**
+   * Whether the queue is processed at every interval.
+   */
+  get running(): boolean {
+    return this.#timer !== undefined;
+  }
+
+  /**
+   * Lists queued and submitted items, in submission order.
+   * @returns {Promise<T.QueueItem[]>} Promise resolving the items.
+   */
+  async list(): Promise<T.QueueItem[]> {
+    return [...(await this.#load())].sort(compare);
+  }
+
+  /**
+   * Queues a torrent. Files are read immediately and kept in the queue, sizes are parsed when possible.
+   * @param {T.QueueSource} source - Torrent, target folder and priority.
+   * @returns {Promise<T.QueueItem>} Promise resolving the queued item.
+   * @throws {Error} If not exactly one of `torrent_magnet`, `torrent_url` or `torrent_file` is defined, or it cannot be parsed.
+   */
+  async add(source: T.QueueSource): Promise<T.QueueItem> {
+    const defined = [
+      source.torrent_magnet,
+      source.torrent_url,
+      source.torrent_file,
+    ].filter((option) => option !== undefined);
+    if (defined.length !== 1) {
+      throw new Error(
+        'Exactly one of torrent_magnet, torrent_url or torrent_file must be defined'
+      );
+    }
+    let info: T.TorrentInfo | undefined;
+    let torrent_file: string | undefined;
+    let filename = source.filename;
+    const file = source.torrent_file;
+    if (file !== undefined) {
+      const bytes =
+        typeof file == 'string'
+          ? await fs.readFile(file)
+          : file instanceof Uint8Array
+          ? Buffer.from(file)
+          : await readAll(file);
+      info = parseTorrentFile(bytes);
+      torrent_file = bytes.toString('base64');
+      if (typeof file == 'string') filename ??= path.basename(file);
+    } else if (source.torrent_magnet) {
+      info = parseMagnet(source.torrent_magnet);
+    }
+    const item: T.QueueItem = {
+      id: crypto.randomUUID(),
+      priority: source.priority ?? 0,
+      added: Date.now(),
+      folder_id: source.folder_id,
+      torrent_magnet: source.torrent_magnet,
+      torrent_url: source.torrent_url,
+      torrent_file,
+      filename,
+      name: info?.name,
+      size: source.size ?? info?.size,
+      status: 'pending',
+      attempts: 0,
+    };
+    (await this.#load()).push(item);
+    await this.#save();
+    this.emit('queued', item);
+    if (this.running) this.#run();
+    return item;
+  }
+
+  /**
+   * Removes an item from the queue, a submitted torrent is no longer followed but stays in the account.
+   * @param {string} id - ID of the queue item.
+   * @returns {Promise<boolean>} Promise resolving whether the item existed.
+   */
+  async remove(id: string): Promise<boolean> {
+    const items = await this.#load();
+    const index = items.findIndex((item) => item.id == id);
+    if (index == -1) return false;
+    items.splice(index, 1);
+    await this.#save();
+    return true;
+  }
+
+  /**
+   * Starts processing immediately and then at every interval.
+   */
+  start(): void {
+    if (this.#timer) return;
+    const tick = () => {
+      this.process()
+        .catch((e) => {
+          if (this.listenerCount('error')) this.emit('error', e);
+        })
+        .finally(() => {
+          if (this.#timer) this.#timer = setTimeout(tick, this.#interval);
+        });
+    };
+    this.#timer = setTimeout(tick, 0);
+  }
+
+  /**
+   * Stops processing and following submitted torrents.
+   */
+  stop(): void {
+    clearTimeout(this.#timer);
+    this.#timer = undefined;
+    this.#watcher.stop();
+  }
+
+  /**
+   * Submits the next items while they fit in the free space and the active torrent limit.
+   * Items with an unknown size are only submitted when no torrent is active.
+   * Concurrent calls share the same run.
+   * @returns {Promise<void>} Promise resolving after submitting.
+   */
+  process(): Promise<void> {
+    this.#processing ??= this.#process().finally(() => {
+      this.#processing = undefined;
+    });
+    return this.#processing;
+  }
+
+  async #process(): Promise<void> {
+    const items = await this.#load();
+    for (const item of items) {
+      if (item.status == 'submitted') this.#follow(item);
+    }
+    for (;;) {
+      const next = items
+        .filter((item) => item.status == 'pending')
+        .sort(compare)[0];
+      if (!next) return;
+      const [usage, root] = await Promise.all([
+        this.#seedr.getUsage(),
+        this.#seedr.list('folder'),
+      ]);
+      const active = new Set(root.torrents.map((torrent) => torrent.id));
+      let committed = 0;
+      for (const item of items) {
+        if (item.status != 'submitted') continue;
+        active.add(item.user_torrent_id!);
+        const torrent = root.torrents.find(
+          (torrent) => torrent.id == item.user_torrent_id
+        );
+        // Space still to be taken by torrents submitted from the queue.
+        committed += (item.size ?? 0) * (1 - (torrent?.progress ?? 0) / 100);
+      }
+      if (active.size >= this.#maxActive) return;
+      const free =
+        usage.space_max - usage.space_used - committed - this.#reserve;
+      if (next.size === undefined ? active.size > 0 : next.size > free) {
+        return;
+      }
+      if (!(await this.#submit(next))) return;
+    }
+  }
+
+  /**
+   * Parses the torrent of an item, to find it by hash.
+   */
+  #info(item: T.QueueItem): T.TorrentInfo | undefined {
+    try {
+      if (item.torrent_file !== undefined) {
+        return parseTorrentFile(Buffer.from(item.torrent_file, 'base64'));
+      }
+      if (item.torrent_magnet) return parseMagnet(item.torrent_magnet);
+    } catch {
+      // Found by the response only.
+    }
+    return undefined;
+  }
+
+  /**
+   * Adds the item to Seedr.
+   * @returns {Promise<boolean>} Whether to carry on with the next item.
+   */
+  async #submit(item: T.QueueItem): Promise<boolean> {
+    let response: T.RAddTorrent;
+    try {
+      response = await this.#seedr.addTorrent({
+        torrent_magnet: item.torrent_magnet,
+        torrent_url: item.torrent_url,
+        torrent_file:
+          item.torrent_file !== undefined
+            ? Buffer.from(item.torrent_file, 'base64')
+            : undefined,
+        filename: item.filename,
+        // Placed by #follow, without holding up the queue.
+        folder_id: item.torrent_file !== undefined ? undefined : item.folder_id,
+      });
+    } catch (e) {
+      if (e instanceof QuotaError) return false;
+      return this.#attemptFailed(item, e as Error);
+    }
+    if (response.result !== true) {
+      // Seedr parks torrents that do not fit in the wishlist, take it back to keep the queue order.
+      await this.#seedr.removeParked(response, this.#info(item)).catch((e) => {
+        this.#seedr.transport.logger.warn('Unable to remove wishlist item', {
+          error: e,
+        });
+      });
+      if (/space|quota/i.test(String(response.result))) return false;
+      return this.#attemptFailed(
+        item,
+        new UnexpectedResponseError(`Torrent not added: ${response.result}`, {
+          func: 'add_torrent',
+          body: response,
+        })
+      );
+    }
+    Object.assign(item, {
+      status: 'submitted',
+      user_torrent_id: response.user_torrent_id,
+      torrent_hash: response.torrent_hash,
+      name: item.name ?? response.title,
+    });
+    await this.#save();
+    this.emit('submitted', item, response);
+    this.#follow(item);
+    return true;
+  }
+
+  async #attemptFailed(item: T.QueueItem, error: Error): Promise<boolean> {
+    item.attempts++;
+    if (item.attempts < this.#maxAttempts) {
+      await this.#save();
+      return false;
+    }
+    await this.#settle(item);
+    this.emit('failed', item, error);
+    return true;
+  }
+
+  #follow(item: T.QueueItem): void {
+    if (this.#following.has(item.id)) return;
+    const info = item.name && item.torrent_hash ? undefined : this.#info(item);
+    const title = item.name || info?.name || '';
+    const torrent_hash = item.torrent_hash || info?.infoHash || '';
+    if (!title && !torrent_hash) {
+      // Nothing to tell its folder from unrelated ones.
+      const error = new Error(
+        `Unable to follow ${item.id} without a name or info hash`
+      );
+      this.#settle(item)
+        .then((settled) => {
+          if (settled) this.emit('failed', item, error);
+        })
+        .catch((e) => {
+          if (this.listenerCount('error')) this.emit('error', e);
+        });
+      return;
+    }
+    this.#following.add(item.id);
+    // Uploads download into the root, moved into their folder once complete.
+    const upload = item.torrent_file !== undefined;
+    this.#watcher
+      .awaitTorrent(
+        {
+          result: true,
+          user_torrent_id: item.user_torrent_id!,
+          title,
+          torrent_hash,
+        },
+        { folder_id: upload ? undefined : item.folder_id }
+      )
+      .then(async (folder) => {
+        if (upload && item.folder_id !== undefined) {
+          await this.#seedr.move({ folder: [folder.id] }, item.folder_id);
+        }
+        return folder;
+      })
+      .then(
+        async (folder) => {
+          if (await this.#settle(item)) this.emit('completed', item, folder);
+        },
+        async (error) => {
+          if (await this.#settle(item)) this.emit('failed', item, error);
+        }
+      )
+      .catch((e) => {
+        if (this.listenerCount('error')) this.emit('error', e);
+      })
+      .finally(() => {
+        this.#following.delete(item.id);
+        // Space was freed, or a slot for the next torrent.
+        if (this.running) this.#run();
+      });
+  }
+
+  /**
+   * Removes a finished item.
+   * @returns {Promise<boolean>} Whether the item was still queued.
+   */
+  async #settle(item: T.QueueItem): Promise<boolean> {
+    const items = await this.#load();
+    const index = items.indexOf(item);
+    if (index == -1) return false;
+    items.splice(index, 1);
+    await this.#save();
+    return true;
+  }
+
+  #run(): void {
+    this.process().catch((e) => {
+      if (this.listenerCount('error')) this.emit('error', e);
+    });
+  }
+
+  #load(): Promise<T.QueueItem[]> {
+    this.#items ??= Promise.resolve(this.#store?.load() ?? []).then((items) => [
+      ...items,
+    ]);
+    return this.#items;
+  }
+
+  async #save(): Promise<void> {
+    await this.#store?.save(await this.#load());
+  }
+}
+
+function compare(a: T.QueueItem, b: T.QueueItem): number {
+  if (a.status != b.status) return a.status == 'submitted' ? -1 : 1;
+  return b.priority - a.priority || a.added - b.added;
+}
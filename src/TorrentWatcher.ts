@@ -0,0 +1,324 @@
+import * as T from './types';
+import { NotFoundError, SeedrAPIError } from './Errors';
+import type { Seedr } from './Seedr';
+
+import { EventEmitter } from 'events';
+
+type Tracked = {
+  status: T.TorrentStatus;
+  changed: number;
+  stalled: boolean;
+  warnings?: string;
+  failed: boolean;
+  /** When the torrent started being tracked, to match folders of torrents awaited by ID. */
+  since: number;
+};
+
+/**
+ * Summarizes a torrent from `list` results.
+ * @param {T.Torrent} torrent - Torrent from `list` results.
+ * @param {number} [folder_id] - (optional) Folder the torrent was listed in.
+ * @returns {T.TorrentStatus} Status with clamped progress, rate and peers.
+ */
+export function parseTorrent(
+  torrent: T.Torrent,
+  folder_id?: number
+): T.TorrentStatus {
+  return {
+    id: torrent.id,
+    name: torrent.name,
+    hash: torrent.hash,
+    folder_id,
+    size: torrent.size,
+    progress: Math.min(Math.max(torrent.progress || 0, 0), 100),
+    download_rate: torrent.download_rate,
+    seeders: torrent.seeders,
+    leechers: torrent.leechers,
+    stopped: torrent.stopped,
+    warnings: torrent.warnings || undefined,
+    torrent,
+  };
+}
+
+/**
+ * Polls active torrents and emits `progress`, `stalled`, `warning`, `completed`, `removed` and `failed` events.
+ * A torrent that disappears is `completed` if a folder of the same name exists where it was downloading, else `removed`.
+ */
+export class TorrentWatcher extends EventEmitter<T.TorrentWatcherEvents> {
+  #seedr: Seedr;
+  #interval: number;
+  #stallTimeout: number;
+  #folders = new Set<number | undefined>([undefined]);
+  #torrents = new Map<number, Tracked>();
+  #timer?: ReturnType<typeof setTimeout>;
+  #polling?: Promise<void>;
+  #maxPollErrors: number;
+  #pollErrors = 0;
+  /** Rejects the pending `awaitTorrent` calls. */
+  #waiting = new Set<(error: unknown) => void>();
+
+  /**
+   * Creates an instance of `TorrentWatcher`.
+   * @param {Seedr} seedr - Client used to list torrents.
+   * @param {T.TorrentWatcherOptions} [options] - (optional) Interval, stall timeout and folders to poll.
+   */
+  constructor(seedr: Seedr, options: T.TorrentWatcherOptions = {}) {
+    super();
+    this.#seedr = seedr;
+    this.#interval = options.interval ?? 5000;
+    this.#stallTimeout = options.stallTimeout ?? 300000;
+    this.#maxPollErrors = options.maxPollErrors ?? 5;
+    for (const folder_id of options.folders ?? []) this.#folders.add(folder_id);
+  }
+
+  /**
+   * Whether polling is running.
+   */
+  get running(): boolean {
+    return this.#timer !== undefined;
+  }
+
+  /**
+   * Current status of all tracked torrents.
+   */
+  get torrents(): T.TorrentStatus[] {
+    return [...this.#torrents.values()].map((tracked) => tracked.status);
+  }
+
+  /**
+   * Adds a folder to poll for torrents.
+   * @param {number} [folder_id] - (optional) Folder ID, root if omitted.
+   */
+  watch(folder_id?: number): void {
+    this.#folders.add(folder_id);
+  }
+
+  /**
+   * Starts polling immediately and then at every interval.
+   */
+  start(): void {
+    if (this.#timer) return;
+    const tick = () => {
+      this.poll()
+        .catch((e) => {
+          if (this.listenerCount('error')) this.emit('error', e);
+        })
+        .finally(() => {
+          if (this.#timer) this.#timer = setTimeout(tick, this.#interval);
+        });
+    };
+    this.#timer = setTimeout(tick, 0);
+  }
+
+  /**
+   * Stops polling.
+   */
+  stop(): void {
+    clearTimeout(this.#timer);
+    this.#timer = undefined;
+  }
+
+  /**
+   * Polls all watched folders once and emits events for changes.
+   * Concurrent calls share the same poll.
+   * @returns {Promise<void>} Promise resolving after events are emitted.
+   */
+  poll(): Promise<void> {
+    this.#polling ??= this.#poll()
+      .then(
+        () => {
+          this.#pollErrors = 0;
+        },
+        (e) => {
+          if (++this.#pollErrors >= this.#maxPollErrors) {
+            for (const reject of this.#waiting) reject(e);
+          }
+          throw e;
+        }
+      )
+      .finally(() => {
+        this.#polling = undefined;
+      });
+    return this.#polling;
+  }
+
+  async #poll(): Promise<void> {
+    const folders = [...this.#folders];
+    const listings = new Map<number | undefined, T.RFolderDetails>();
+    await Promise.all(
+      folders.map(async (folder_id) => {
+        listings.set(folder_id, await this.#seedr.list('folder', folder_id));
+      })
+    );
+    const now = Date.now();
+    const seen = new Set<number>();
+    for (const folder_id of folders) {
+      for (const torrent of listings.get(folder_id)?.torrents ?? []) {
+        if (seen.has(torrent.id)) continue;
+        seen.add(torrent.id);
+        this.#update(parseTorrent(torrent, folder_id), now);
+      }
+    }
+    for (const [id, tracked] of this.#torrents) {
+      if (seen.has(id)) continue;
+      this.#torrents.delete(id);
+      const folders = [
+        ...(listings.get(tracked.status.folder_id)?.folders ?? []),
+      ].sort((a, b) => b.id - a.id);
+      // Awaited by ID and never listed: completed into the newest folder
+      // created since, timestamps are in whole seconds.
+      const since = Math.floor(tracked.since / 1000) * 1000;
+      const folder = folders.find((folder) =>
+        tracked.status.name
+          ? folder.name == tracked.status.name
+          : folder.last_update.getTime() >= since
+      );
+      if (folder) {
+        this.emit(
+          'completed',
+          { ...tracked.status, name: folder.name, progress: 100 },
+          folder
+        );
+      } else {
+        this.emit('removed', tracked.status);
+      }
+    }
+  }
+
+  #update(status: T.TorrentStatus, now: number): void {
+    const tracked = this.#torrents.get(status.id);
+    if (!tracked || !tracked.status.torrent) {
+      this.#torrents.set(status.id, {
+        status,
+        changed: now,
+        stalled: false,
+        failed: false,
+        since: tracked?.since ?? now,
+      });
+      this.emit('progress', status);
+    } else {
+      const previous = tracked.status;
+      tracked.status = status;
+      if (
+        status.progress != previous.progress ||
+        status.download_rate != previous.download_rate ||
+        status.seeders != previous.seeders ||
+        status.leechers != previous.leechers
+      ) {
+        tracked.changed = now;
+        tracked.stalled = false;
+        this.emit('progress', status);
+      } else if (
+        !tracked.stalled &&
+        status.progress < 100 &&
+        now - tracked.changed >= this.#stallTimeout
+      ) {
+        tracked.stalled = true;
+        this.emit('stalled', status);
+      }
+    }
+    const current = this.#torrents.get(status.id) as Tracked;
+    if (status.warnings) {
+      const warnings = JSON.stringify(status.warnings);
+      if (warnings != current.warnings) {
+        current.warnings = warnings;
+        this.emit('warning', status, status.warnings);
+      }
+    }
+    if (status.stopped && status.progress < 100 && !current.failed) {
+      current.failed = true;
+      this.emit(
+        'failed',
+        status,
+        new SeedrAPIError(
+          `Torrent ${status.id} (${status.name}) stopped at ${status.progress}%`,
+          { func: 'list_contents', body: status.torrent }
+        )
+      );
+    }
+  }
+
+  /**
+   * Waits for a torrent to complete, starting polling if needed.
+   * Pass the `RTorrentAdded` response to match torrents that complete before the first poll by name,
+   * with only the `user_torrent_id` they resolve to the newest folder of `folder_id` created since the call,
+   * and reject with `NotFoundError` if there is none.
+   * @param {number | T.RTorrentAdded} torrent - The `user_torrent_id`, or the response of adding the torrent.
+   * @param {object} [options] - (optional) Folder the torrent downloads into and an `AbortSignal`.
+   * @returns {Promise<T.Folder>} Promise resolving the folder created by the torrent.
+   * @throws {NotFoundError} If the torrent is removed before completion.
+   * @throws {SeedrAPIError} If the torrent stops before completion, or with the last error after `maxPollErrors` consecutive failed polls.
+   */
+  awaitTorrent(
+    torrent: number | T.RTorrentAdded,
+    options: { folder_id?: number; signal?: AbortSignal } = {}
+  ): Promise<T.Folder> {
+    const id = typeof torrent == 'number' ? torrent : torrent.user_torrent_id;
+    this.watch(options.folder_id);
+    if (!this.#torrents.has(id)) {
+      this.#torrents.set(id, {
+        status: {
+          id,
+          name: typeof torrent == 'number' ? '' : torrent.title,
+          hash: typeof torrent == 'number' ? '' : torrent.torrent_hash,
+          folder_id: options.folder_id,
+          size: 0,
+          progress: 0,
+          download_rate: 0,
+          seeders: 0,
+          leechers: 0,
+          stopped: false,
+          warnings: undefined,
+        },
+        changed: Date.now(),
+        stalled: false,
+        failed: false,
+        since: Date.now(),
+      });
+    }
+    return new Promise((resolve, reject) => {
+      const onCompleted = (status: T.TorrentStatus, folder: T.Folder) => {
+        if (status.id != id) return;
+        cleanup();
+        resolve(folder);
+      };
+      const onRemoved = (status: T.TorrentStatus) => {
+        if (status.id != id) return;
+        cleanup();
+        reject(
+          new NotFoundError(`Torrent ${id} was removed before completion`, {
+            func: 'list_contents',
+            body: status.torrent,
+          })
+        );
+      };
+      const onFailed = (status: T.TorrentStatus, error: Error) => {
+        if (status.id != id) return;
+        cleanup();
+        reject(error);
+      };
+      const onAbort = () => {
+        cleanup();
+        reject(options.signal?.reason);
+      };
+      const onPollError = (error: unknown) => {
+        cleanup();
+        reject(error);
+      };
+      const cleanup = () => {
+        this.#waiting.delete(onPollError);
+        this.off('completed', onCompleted);
+        this.off('removed', onRemoved);
+        this.off('failed', onFailed);
+        options.signal?.removeEventListener('abort', onAbort);
+      };
+      if (options.signal?.aborted) return onAbort();
+      this.on('completed', onCompleted);
+      this.on('removed', onRemoved);
+      this.on('failed', onFailed);
+      this.#waiting.add(onPollError);
+      options.signal?.addEventListener('abort', onAbort);
+      this.start();
+    });
+  }
+}
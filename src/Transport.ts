@@ -0,0 +1,262 @@
+import * as T from './types';
+import {
+  RateLimitError,
+  TransportError,
+  errorFromRequest,
+  errorFromResponse,
+} from './Errors';
+
+import { noopLogger } from './Logger';
+
+import got, { type Got, type Response } from 'got';
+import type { FormData } from 'formdata-node';
+
+export const DEFAULT_BASE_URL = 'https://www.seedr.cc';
+
+/**
+ * Resource API functions that are safe to repeat, retried by default.
+ */
+export const IDEMPOTENT_FUNCS = [
+  'list_contents',
+  'search_files',
+  'fetch_file',
+  'scan_page',
+  'get_settings',
+  'get_memory_bandwidth',
+  'get_devices',
+  'play_video',
+  'get_subtitles',
+  'test',
+];
+
+const RETRY_STATUS = [408, 429, 500, 502, 503, 504, 521, 522, 524];
+
+/**
+ * Options for a single request made through `Transport`.
+ */
+export type RequestOptions = {
+  /** Seedr API function name / endpoint, used for errors and the retry policy. */
+  func?: string;
+  searchParams?: Record<string, string | number | boolean | undefined>;
+  form?: Record<string, unknown>;
+  body?: FormData;
+  headers?: Record<string, string>;
+};
+
+/**
+ * Options for a request to a third-party URL made through `Transport.external`.
+ */
+export type ExternalRequestOptions = {
+  /** Name used for errors and request hooks, eg. `webhook`. Defaults to `external`. */
+  func?: string;
+  method?: 'GET' | 'POST';
+  body?: string;
+  headers?: Record<string, string>;
+  /** Timeout in ms, overrides the client timeout. */
+  timeout?: number;
+  signal?: AbortSignal;
+};
+
+/**
+ * HTTP layer shared by `Seedr` and `Auth`, applies base URL, timeout, headers, agents and the retry policy.
+ */
+export class Transport {
+  readonly baseUrl: string;
+  readonly logger: T.Logger;
+  #got: Got;
+  #external: Got;
+  #hooks: T.RequestHooks;
+  #retry: Required<T.RetryPolicy>;
+
+  /**
+   * Creates an instance of `Transport`.
+   * @param {T.ClientOptions} [options] - (optional) HTTP client options.
+   */
+  constructor(options: T.ClientOptions = {}) {
+    this.baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, '');
+    this.logger = options.logger ?? noopLogger;
+    this.#hooks = options.hooks ?? {};
+    this.#retry = {
+      limit: options.retry?.limit ?? 2,
+      delay: options.retry?.delay ?? 500,
+      maxDelay: options.retry?.maxDelay ?? 10000,
+      funcs: options.retry?.funcs ?? IDEMPOTENT_FUNCS,
+    };
+    const headers: Record<string, string> = { ...options.headers };
+    if (options.userAgent) headers['user-agent'] = options.userAgent;
+    this.#external = got.extend({
+      agent: options.agent,
+      timeout: options.timeout ? { request: options.timeout } : undefined,
+      retry: { limit: 0 },
+    });
+    this.#got = this.#external.extend({ headers });
+  }
+
+  /**
+   * Makes a JSON request to the Seedr server, retrying idempotent functions on transient failures.
+   * @template R The expected response body type.
+   * @param {'GET' | 'POST'} method - HTTP method.
+   * @param {string} path - Path relative to the base URL (eg. `/oauth_test/resource.php`).
+   * @param {RequestOptions} [options] - (optional) Request options.
+   * @returns {Promise<Response<R>>} Promise resolving the response, non-200 statuses included.
+   * @throws {SeedrAPIError} If the request fails without a usable response.
+   */
+  async request<R>(
+    method: 'GET' | 'POST',
+    path: string,
+    options: RequestOptions = {}
+  ): Promise<Response<R>> {
+    const func = options.func ?? path;
+    const limit = this.#retry.funcs.includes(func) ? this.#retry.limit : 0;
+    for (let attempt = 0; ; attempt++) {
+      const event: T.RequestEvent = { func, method, path, retries: attempt };
+      const start = Date.now();
+      this.#hook('onRequest', event);
+      let response: Response<R>;
+      try {
+        response = await this.#got<R>(`${this.baseUrl}${path}`, {
+          method,
+          searchParams: options.searchParams,
+          form: options.form && withoutUndefined(options.form),
+          body: options.body,
+          headers: options.headers,
+          responseType: 'json',
+          throwHttpErrors: false,
+        });
+      } catch (e) {
+        const error = errorFromRequest(e, func);
+        const retrying = attempt < limit && error instanceof TransportError;
+        this.#hook('onError', {
+          ...event,
+          error,
+          duration: Date.now() - start,
+          retrying,
+        });
+        if (!retrying) throw error;
+        this.logger.debug('Retrying request', { func, error: error.message });
+        await this.#wait(attempt);
+        continue;
+      }
+      const retrying =
+        attempt < limit && RETRY_STATUS.includes(response.statusCode);
+      this.#hook('onResponse', {
+        ...event,
+        status: response.statusCode,
+        duration: Date.now() - start,
+        retrying,
+      });
+      if (retrying) {
+        const error = errorFromResponse(response, func);
+        this.logger.debug('Retrying request', {
+          func,
+          status: response.statusCode,
+        });
+        await this.#wait(
+          attempt,
+          error instanceof RateLimitError ? error.retryAfter : undefined
+        );
+        continue;
+      }
+      return response;
+    }
+  }
+
+  /**
+   * Opens a streaming GET request to an absolute URL (eg. a signed download URL), without retries.
+   * @param {string} url - Absolute URL to request.
+   * @param {object} [options] - (optional) Extra headers and an `AbortSignal`.
+   * @returns {ReturnType<Got['stream']>} Duplex stream of the response body.
+   */
+  stream(
+    url: string,
+    options: { headers?: Record<string, string>; signal?: AbortSignal } = {}
+  ): ReturnType<Got['stream']> {
+    return this.#got.stream(url, {
+      headers: options.headers,
+      signal: options.signal,
+    });
+  }
+
+  /**
+   * Makes a request to a third-party URL (eg. a feed, webhook or torrent file) with the agent, timeout and hooks of the client,
+   * without its headers and retries.
+   * @param {string} url - Absolute URL to request.
+   * @param {ExternalRequestOptions} [options] - (optional) Request options.
+   * @returns {Promise<Buffer>} Promise resolving the response body.
+   * @throws {TransportError} If the request fails or the response status is not 2xx.
+   */
+  async external(
+    url: string,
+    options: ExternalRequestOptions = {}
+  ): Promise<Buffer> {
+    const func = options.func ?? 'external';
+    const method = options.method ?? 'GET';
+    const event: T.RequestEvent = { func, method, path: url, retries: 0 };
+    const start = Date.now();
+    this.#hook('onRequest', event);
+    let response: Response<Buffer>;
+    try {
+      response = await this.#external(url, {
+        method,
+        body: options.body,
+        headers: options.headers,
+        signal: options.signal,
+        ...(options.timeout && { timeout: { request: options.timeout } }),
+        responseType: 'buffer',
+        throwHttpErrors: false,
+      });
+    } catch (e) {
+      const error = new TransportError(
+        `Request failed (${func}): ${(e as Error).message}`,
+        { func, cause: e }
+      );
+      this.#hook('onError', {
+        ...event,
+        error,
+        duration: Date.now() - start,
+        retrying: false,
+      });
+      throw error;
+    }
+    this.#hook('onResponse', {
+      ...event,
+      status: response.statusCode,
+      duration: Date.now() - start,
+      retrying: false,
+    });
+    if (response.statusCode < 200 || response.statusCode >= 300) {
+      throw new TransportError(
+        `Request failed (${func}): status code ${response.statusCode}`,
+        { func, status: response.statusCode }
+      );
+    }
+    return response.body;
+  }
+
+  #hook<K extends keyof T.RequestHooks>(
+    name: K,
+    event: Parameters<NonNullable<T.RequestHooks[K]>>[0]
+  ): void {
+    try {
+      (this.#hooks[name] as ((event: unknown) => void) | undefined)?.(event);
+    } catch (e) {
+      this.logger.warn(`Request hook ${name} failed`, { error: e });
+    }
+  }
+
+  #wait(attempt: number, retryAfter?: number): Promise<void> {
+    const delay = Math.min(
+      retryAfter ?? this.#retry.delay * 2 ** attempt,
+      this.#retry.maxDelay
+    );
+    return new Promise((resolve) => setTimeout(resolve, delay));
+  }
+}
+
+function withoutUndefined(
+  form: Record<string, unknown>
+): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(form).filter(([, value]) => value !== undefined)
+  );
+}
@@ -0,0 +1,128 @@
+import * as T from './types';
+import type { SeedrExtended } from './SeedrExtended';
+
+import { EventEmitter } from 'events';
+
+/**
+ * Filters and sorts wishlist items.
+ * @param {T.WishlistItem[]} items - Wishlist items.
+ * @param {T.WishlistQuery} query - Filters, sort field and order.
+ * @returns {T.WishlistItem[]} Matching items, sorted when `query.sort` is defined.
+ */
+export function filterWishlist(
+  items: T.WishlistItem[],
+  query: T.WishlistQuery
+): T.WishlistItem[] {
+  const matching = items.filter(
+    (item) =>
+      (query.minSize === undefined || item.size >= query.minSize) &&
+      (query.maxSize === undefined || item.size <= query.maxSize) &&
+      (query.after === undefined || item.created >= query.after) &&
+      (query.before === undefined || item.created < query.before) &&
+      (query.is_private === undefined || item.is_private == query.is_private)
+  );
+  const { sort } = query;
+  if (!sort) return matching;
+  const direction = query.order == 'desc' ? -1 : 1;
+  return matching.sort((a, b) => {
+    const order =
+      sort == 'title'
+        ? a.title.localeCompare(b.title)
+        : sort == 'size'
+        ? a.size - b.size
+        : a.created.getTime() - b.created.getTime();
+    return direction * order || a.id - b.id;
+  });
+}
+
+/**
+ * Magnet URI of a wishlist item, built from its hash, title and size when Seedr did not keep one.
+ * @param {T.WishlistItem} item - Wishlist item.
+ * @returns {string} The magnet URI.
+ */
+export function wishlistMagnet(item: T.WishlistItem): string {
+  if (item.torrent_magnet.startsWith('magnet:?')) return item.torrent_magnet;
+  const params = new URLSearchParams({
+    xt: `urn:btih:${item.torrent_hash}`,
+    dn: item.title,
+  });
+  if (item.size > 0) params.set('xl', `${item.size}`);
+  return `magnet:?${params.toString().replace(/%3A/gi, ':')}`;
+}
+
+/**
+ * Promotes wishlist items at every interval, as space frees up.
+ * Emits `promoted` for checks promoting at least one item.
+ */
+export class WishlistPromoter extends EventEmitter<T.WishlistPromoterEvents> {
+  #seedr: SeedrExtended;
+  #options: T.WishlistPromoterOptions;
+  #timer?: ReturnType<typeof setTimeout>;
+  #promoting?: Promise<T.WishlistPromotion>;
+
+  /**
+   * Creates an instance of `WishlistPromoter`.
+   * @param {SeedrExtended} seedr - Client used to promote items.
+   * @param {T.WishlistPromoterOptions} [options] - (optional) Promotion options and interval.
+   */
+  constructor(seedr: SeedrExtended, options: T.WishlistPromoterOptions = {}) {
+    super();
+    this.#seedr = seedr;
+    this.#options = options;
+  }
+
+  /**
+   * Whether the wishlist is checked at every interval.
+   */
+  get running(): boolean {
+    return this.#timer !== undefined;
+  }
+
+  /**
+   * Promotes the items that fit now.
+   * Concurrent calls share the same run.
+   * @returns {Promise<T.WishlistPromotion>} Promise resolving the promotion.
+   */
+  promote(): Promise<T.WishlistPromotion> {
+    this.#promoting ??= this.#promote().finally(() => {
+      this.#promoting = undefined;
+    });
+    return this.#promoting;
+  }
+
+  /**
+   * Starts checking immediately and then at every interval.
+   */
+  start(): void {
+    if (this.#timer) return;
+    const tick = () => {
+      this.promote()
+        .catch((e) => {
+          if (this.listenerCount('error')) this.emit('error', e);
+        })
+        .finally(() => {
+          if (this.#timer) {
+            this.#timer = setTimeout(tick, this.#options.interval ?? 60000);
+          }
+        });
+    };
+    this.#timer = setTimeout(tick, 0);
+  }
+
+  /**
+   * Stops checking, a promotion in progress completes.
+   */
+  stop(): void {
+    clearTimeout(this.#timer);
+    this.#timer = undefined;
+  }
+
+  async #promote(): Promise<T.WishlistPromotion> {
+    const { interval, ...options } = this.#options;
+    const promotion = await this.#seedr.promoteWishlist(options);
+    if (promotion.promoted.length && !options.dryRun) {
+      this.emit('promoted', promotion);
+    }
+    return promotion;
+  }
+}
@@ -0,0 +1,479 @@
+import * as T from './types';
+import { SeedrExtended } from './SeedrExtended';
+import { FilePersistence } from './State';
+import { SeedrAPIError } from './Errors';
+import { joinPath, splitPath } from './utils';
+
+import os from 'os';
+import path from 'path';
+import fs from 'fs';
+import { parseArgs } from 'util';
+import readline from 'readline';
+import { Writable } from 'stream';
+
+const USAGE = `Usage: seedr <command> [options]
+
+Commands:
+  login [--device] [--username <email>]
+  ls [path] [--recursive]
+  add <magnet|url|file> [--folder <path>]
+  rm <path...>
+  mv <path> <new-name|folder/>  (alias: rename)
+  mkdir <path>
+  search <query>
+  get <path> [--url] [--dest <dir>]
+  wishlist [rm <id> | clear | dedupe | promote | export | import <file>]
+           [--sort size|created|title]
+  usage
+  devices
+
+Options:
+  --json             Print JSON output
+  --config <path>    Auth state file (env SEEDR_CONFIG)
+  -h, --help         Show this help
+
+Environment:
+  SEEDR_BASE_URL     Server base URL (defaults to https://www.seedr.cc)
+  SEEDR_USERNAME     Email for login, prompted otherwise
+  SEEDR_PASSWORD     Password for login, prompted without echo otherwise`;
+
+/**
+ * Input / output used by the CLI, replaceable for testing.
+ */
+export type CliIO = {
+  out: (text: string) => void;
+  err: (text: string) => void;
+  /** Writes to stderr without a trailing newline, to redraw progress with `\r`. */
+  progress: (text: string) => void;
+  prompt: (question: string, options?: { hidden?: boolean }) => Promise<string>;
+  env: Record<string, string | undefined>;
+};
+
+type Context = {
+  seedr: SeedrExtended;
+  args: string[];
+  values: ReturnType<typeof parse>['values'];
+  io: CliIO;
+  print: (data: unknown, human: () => string) => void;
+};
+
+function parse(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      json: { type: 'boolean' },
+      config: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+      device: { type: 'boolean' },
+      username: { type: 'string' },
+      recursive: { type: 'boolean', short: 'r' },
+      folder: { type: 'string' },
+      url: { type: 'boolean' },
+      dest: { type: 'string' },
+      sort: { type: 'string' },
+    },
+  });
+}
+
+/**
+ * Default location of the auth state file, following XDG / APPDATA conventions.
+ * @param {Record<string, string | undefined>} env - Environment variables.
+ * @returns {string} Path of the auth state file.
+ */
+export function defaultConfigPath(
+  env: Record<string, string | undefined>
+): string {
+  if (env.SEEDR_CONFIG) return env.SEEDR_CONFIG;
+  const base =
+    process.platform == 'win32'
+      ? env.APPDATA ?? path.join(os.homedir(), 'AppData', 'Roaming')
+      : env.XDG_CONFIG_HOME ?? path.join(os.homedir(), '.config');
+  return path.join(base, 'seedr-js', 'auth_state.json');
+}
+
+/**
+ * Formats a byte count for humans, eg. `1.5 GB`.
+ * @param {number} bytes - Byte count.
+ * @returns {string} Formatted size.
+ */
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit ? value.toFixed(1) : value} ${units[unit]}`;
+}
+
+function table(rows: string[][]): string {
+  const widths = rows.reduce<number[]>(
+    (widths, row) =>
+      row.map((cell, i) => Math.max(widths[i] ?? 0, cell.length)),
+    []
+  );
+  return rows
+    .map((row) =>
+      row
+        .map((cell, i) => (i < row.length - 1 ? cell.padEnd(widths[i]!) : cell))
+        .join('  ')
+    )
+    .join('\n');
+}
+
+function required(args: string[], count: number, usage: string): void {
+  if (args.length < count) throw new Error(`Usage: seedr ${usage}`);
+}
+
+async function login({ seedr, values, io, print }: Context): Promise<void> {
+  if (values.device) {
+    await seedr.auth.authorizeDevice({
+      onCode: (code) =>
+        io.err(
+          `Open ${code.verification_url} and enter the code: ${code.user_code}`
+        ),
+    });
+  } else {
+    // Not taken as an option, to keep it out of the shell history and process list.
+    const username =
+      values.username ?? io.env.SEEDR_USERNAME ?? (await io.prompt('Email: '));
+    const password =
+      io.env.SEEDR_PASSWORD ??
+      (await io.prompt('Password: ', { hidden: true }));
+    await seedr.auth.loginOAuth(username, password);
+  }
+  print({ result: true }, () => 'Logged in');
+}
+
+async function ls({ seedr, args, values, print }: Context): Promise<void> {
+  const target = await seedr.resolvePath(args[0] ?? '/');
+  if (target.type == 'file') {
+    print(target, () =>
+      table([['-', formatBytes(target.file.size), target.path]])
+    );
+    return;
+  }
+  if (values.recursive) {
+    const entries: T.TreeEntry[] = [];
+    for await (const entry of seedr.walk({ folder_id: target.id })) {
+      entries.push(entry);
+    }
+    print(entries, () =>
+      table(
+        entries.map((entry) =>
+          entry.type == 'folder'
+            ? ['d', formatBytes(entry.folder.size), entry.path]
+            : ['-', formatBytes(entry.file.size), entry.path]
+        )
+      )
+    );
+    return;
+  }
+  const details = await seedr.list('folder', target.id);
+  print(details, () =>
+    table([
+      ...details.torrents.map((i) => ['t', `${i.progress}%`, i.name]),
+      ...details.folders.map((i) => ['d', formatBytes(i.size), i.name]),
+      ...details.files.map((i) => ['-', formatBytes(i.size), i.name]),
+    ])
+  );
+}
+
+async function add({ seedr, args, values, io, print }: Context): Promise<void> {
+  required(args, 1, 'add <magnet|url|file> [--folder <path>]');
+  const source = args[0]!;
+  let folder_id: number | undefined;
+  if (values.folder) {
+    const folder = await seedr.resolvePath(values.folder);
+    if (folder.type != 'folder')
+      throw new Error(`Not a folder: ${folder.path}`);
+    folder_id = folder.id;
+  }
+  const response = source.startsWith('magnet:')
+    ? await seedr.addTorrent({ torrent_magnet: source, folder_id })
+    : /^https?:\/\//.test(source)
+    ? await seedr.addTorrent({ torrent_url: source, folder_id })
+    : await seedr.addTorrent({ torrent_file: source, folder_id });
+  if (folder_id !== undefined && !/^(magnet:|https?:\/\/)/.test(source)) {
+    io.err('Seedr downloads uploads into the root, ignoring --folder');
+  }
+  print(response, () =>
+    response.result === true
+      ? `Added ${response.title} (${response.user_torrent_id})`
+      : `${response.result}`
+  );
+}
+
+async function rm({ seedr, args, print }: Context): Promise<void> {
+  required(args, 1, 'rm <path...>');
+  const ids: { folder: number[]; file: number[] } = { folder: [], file: [] };
+  for (const arg of args) {
+    const entry = await seedr.resolvePath(arg);
+    if (entry.path == '/') throw new Error('Refusing to delete root');
+    ids[entry.type].push(entry.id);
+  }
+  const response = await seedr.delete(ids);
+  print(response, () => `Deleted ${args.length} item(s)`);
+}
+
+async function mv({ seedr, args, print }: Context): Promise<void> {
+  required(args, 2, 'mv <path> <new-name|folder/>');
+  const entry = await seedr.resolvePath(args[0]!);
+  const target = args[1]!;
+  const ids =
+    entry.type == 'folder' ? { folder: [entry.id] } : { file: [entry.id] };
+  let name = target;
+  if (target.includes('/')) {
+    // Into `dir/` or an existing folder, else into the parent and renamed.
+    const segments = splitPath(target);
+    const existing = await seedr.resolvePath(target).catch(() => undefined);
+    const into = target.endsWith('/') || existing?.type == 'folder';
+    name = into ? path.posix.basename(entry.path) : segments.at(-1) ?? '';
+    const folder = joinPath(...(into ? segments : segments.slice(0, -1)));
+    if (folder != path.posix.dirname(entry.path)) {
+      await seedr.move(ids, folder);
+    }
+  }
+  if (name != path.posix.basename(entry.path)) {
+    await (entry.type == 'folder'
+      ? seedr.renameFolder(entry.id, name)
+      : seedr.renameFile(entry.id, name));
+  }
+  print({ result: true }, () => `Moved ${entry.path} to ${target}`);
+}
+
+async function mkdir({ seedr, args, print }: Context): Promise<void> {
+  required(args, 1, 'mkdir <path>');
+  const folder = await seedr.mkdirp(args[0]!);
+  print(folder, () => `Created ${joinPath(args[0]!)}`);
+}
+
+async function search({ seedr, args, print }: Context): Promise<void> {
+  required(args, 1, 'search <query>');
+  const results = await seedr.searchFiles(args.join(' '));
+  print(results, () =>
+    table([
+      ...results.folders.map((i) => ['d', formatBytes(i.size), i.fullname]),
+      ...results.files.map((i) => ['-', formatBytes(i.size), i.name]),
+    ])
+  );
+}
+
+async function get({ seedr, args, values, io, print }: Context): Promise<void> {
+  required(args, 1, 'get <path> [--url] [--dest <dir>]');
+  const entry = await seedr.resolvePath(args[0]!);
+  if (values.url) {
+    if (entry.type != 'file') throw new Error(`Not a file: ${entry.path}`);
+    const response = await seedr.fetchFile(entry.id);
+    print(response, () => response.url);
+    return;
+  }
+  // Redrawn when the percentage changes, or every 250 ms without a total.
+  let percent: number | undefined;
+  let shown = 0;
+  const onProgress = ({ bytes, total }: T.DownloadProgress) => {
+    const now = Date.now();
+    const current = total ? Math.floor((bytes / total) * 100) : undefined;
+    if (shown && current === percent && now - shown < 250) return;
+    percent = current;
+    shown = now;
+    io.progress(
+      `\r${formatBytes(bytes)}${
+        total ? ` / ${formatBytes(total)} (${current}%)` : ''
+      }`
+    );
+  };
+  let files: T.DownloadedFile[];
+  try {
+    files = await seedr.download(
+      entry.type == 'file' ? { file: entry.file } : { folder: entry.id },
+      values.dest ?? '.',
+      { onProgress: values.json ? undefined : onProgress }
+    );
+  } finally {
+    if (shown) io.progress('\n');
+  }
+  print(files, () => files.map((file) => file.path).join('\n'));
+}
+
+function sortQuery(sort?: string): T.WishlistQuery | undefined {
+  if (sort === undefined) return;
+  if (sort != 'size' && sort != 'created' && sort != 'title') {
+    throw new Error(`Unknown sort: ${sort}`);
+  }
+  return { sort };
+}
+
+async function wishlist({
+  seedr,
+  args,
+  values,
+  print,
+}: Context): Promise<void> {
+  if (args[0] == 'rm') {
+    required(args, 2, 'wishlist rm <id>');
+    const response = await seedr.deleteWishlistItem(Number(args[1]));
+    print(response, () => `Removed ${args[1]}`);
+  } else if (args[0] == 'clear') {
+    await seedr.clearWishlist();
+    print({ result: true }, () => 'Wishlist cleared');
+  } else if (args[0] == 'dedupe') {
+    const removed = await seedr.dedupeWishlist();
+    print(removed, () => `Removed ${removed.length} duplicates`);
+  } else if (args[0] == 'promote') {
+    const promotion = await seedr.promoteWishlist();
+    print(promotion, () =>
+      [
+        ...promotion.promoted.map((item) => `Added ${item.title}`),
+        `${promotion.remaining.length} left in the wishlist`,
+      ].join('\n')
+    );
+  } else if (args[0] == 'export') {
+    const magnets = await seedr.exportWishlist(sortQuery(values.sort));
+    print(magnets.split('\n').filter(Boolean), () => magnets.trimEnd());
+  } else if (args[0] == 'import') {
+    required(args, 2, 'wishlist import <file>');
+    const results = await seedr.importWishlist(
+      fs.readFileSync(args[1]!, 'utf-8')
+    );
+    print(results, () =>
+      table(results.map((result) => [result.status, result.magnet]))
+    );
+  } else {
+    const items = await seedr.getWishlist(sortQuery(values.sort));
+    print(items, () =>
+      table(items.map((i) => [String(i.id), formatBytes(i.size), i.title]))
+    );
+  }
+}
+
+async function usage({ seedr, print }: Context): Promise<void> {
+  const response = await seedr.getUsage();
+  print(response, () =>
+    table([
+      [
+        'Space',
+        `${formatBytes(response.space_used)} / ${formatBytes(
+          response.space_max
+        )}`,
+      ],
+      ['Bandwidth', formatBytes(response.bandwidth_used)],
+    ])
+  );
+}
+
+async function devices({ seedr, print }: Context): Promise<void> {
+  const response = await seedr.getDevices();
+  print(response.devices, () =>
+    table(response.devices.map((i) => [i.client_id, i.client_name]))
+  );
+}
+
+const COMMANDS: Record<string, (context: Context) => Promise<void>> = {
+  login,
+  ls,
+  add,
+  rm,
+  mv,
+  rename: mv,
+  mkdir,
+  search,
+  get,
+  wishlist,
+  usage,
+  devices,
+};
+
+/**
+ * Runs the `seedr` command line interface.
+ * @param {string[]} argv - Arguments without the node / script path.
+ * @param {Partial<CliIO>} [io] - (optional) Input / output overrides.
+ * @returns {Promise<number>} Promise resolving the exit code.
+ */
+export async function main(
+  argv: string[],
+  io: Partial<CliIO> = {}
+): Promise<number> {
+  const cli: CliIO = {
+    out: io.out ?? ((text) => process.stdout.write(`${text}\n`)),
+    err: io.err ?? ((text) => process.stderr.write(`${text}\n`)),
+    progress: io.progress ?? ((text) => process.stderr.write(text)),
+    prompt: io.prompt ?? prompt,
+    env: io.env ?? process.env,
+  };
+  let parsed: ReturnType<typeof parse>;
+  try {
+    parsed = parse(argv);
+  } catch (e) {
+    cli.err(`${(e as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+  const { values, positionals } = parsed;
+  const [command, ...args] = positionals;
+  const run = command && COMMANDS[command];
+  if (values.help || !run) {
+    (values.help ? cli.out : cli.err)(USAGE);
+    return values.help ? 0 : 2;
+  }
+
+  const config = values.config ?? defaultConfigPath(cli.env);
+  fs.mkdirSync(path.dirname(config), { recursive: true });
+  const seedr = new SeedrExtended(new FilePersistence(config), {
+    baseUrl: cli.env.SEEDR_BASE_URL,
+  });
+  try {
+    await run({
+      seedr,
+      args,
+      values,
+      io: cli,
+      print: (data, human) =>
+        cli.out(values.json ? JSON.stringify(data, null, 2) : human()),
+    });
+    return 0;
+  } catch (e) {
+    if (values.json && e instanceof SeedrAPIError) {
+      cli.err(
+        JSON.stringify({
+          name: e.name,
+          message: e.message,
+          status: e.status,
+          error: e.error,
+          func: e.func,
+        })
+      );
+    } else {
+      cli.err(`${(e as Error).name}: ${(e as Error).message}`);
+    }
+    return 1;
+  }
+}
+
+function prompt(
+  question: string,
+  options: { hidden?: boolean } = {}
+): Promise<string> {
+  let muted = false;
+  // Echo of hidden answers is dropped once the question is written.
+  const output = new Writable({
+    write(chunk, encoding, callback) {
+      if (!muted) process.stderr.write(chunk, encoding);
+      callback();
+    },
+  });
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output,
+    terminal: process.stdin.isTTY,
+  });
+  return new Promise((resolve) => {
+    rl.question(question, (answer) => {
+      rl.close();
+      if (muted) process.stderr.write('\n');
+      resolve(answer);
+    });
+    muted = !!options.hidden;
+  });
+}
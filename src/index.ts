@@ -1,6 +1,135 @@
-export { NoPersistence, FilePersistence } from './State';
+export {
+  NoPersistence,
+  FilePersistence,
+  EncryptedFilePersistence,
+  EnvPersistence,
+  KeyValuePersistence,
+  FileJsonPersistence,
+  FileQueuePersistence,
+  FileDeliveryPersistence,
+  FileFeedPersistence,
+} from './State';
+export {
+  SeedrAPIError,
+  AuthError,
+  NotFoundError,
+  QuotaError,
+  RateLimitError,
+  TransportError,
+  UnexpectedResponseError,
+  ChecksumError,
+  DuplicateError,
+} from './Errors';
+export { Transport, DEFAULT_BASE_URL, IDEMPOTENT_FUNCS } from './Transport';
+export { ConsoleLogger, noopLogger } from './Logger';
+export {
+  MockServer,
+  type MockServerOptions,
+  type WireTorrent,
+} from './MockServer';
+export { TorrentWatcher, parseTorrent } from './TorrentWatcher';
+export { TorrentQueue } from './TorrentQueue';
+export { FolderSync } from './FolderSync';
+export { SeedrPool } from './SeedrPool';
+export { Notifier, signPayload } from './Notifier';
+export { FeedWatcher, parseFeed, parseEpisode } from './Feed';
+export { WishlistPromoter, filterWishlist, wishlistMagnet } from './Wishlist';
+export { parseScanTree, matchesSelection, rankScanResults } from './Scan';
+export { parseTorrentFile, parseMagnet } from './TorrentInfo';
+export {
+  decode as decodeBencode,
+  encode as encodeBencode,
+  type BencodeValue,
+  type BencodeInput,
+} from './Bencode';
 export {
   SeedrExtended as Seedr,
   SeedrExtended as default,
 } from './SeedrExtended';
-export { type IStore } from './types';
+export {
+  type IStore,
+  type IKeyValue,
+  type IQueueStore,
+  type QueueSource,
+  type QueueItem,
+  type TorrentQueueOptions,
+  type TorrentQueueEvents,
+  type ClientOptions,
+  type RetryPolicy,
+  type Logger,
+  type LogLevel,
+  type LogFields,
+  type RequestHooks,
+  type RequestEvent,
+  type ResponseEvent,
+  type RequestErrorEvent,
+  type ValidationMode,
+  type AddTorrentOptions,
+  type TorrentFileSource,
+  type TorrentInfo,
+  type TorrentDuplicate,
+  type TorrentPreflight,
+  type RDuplicateTorrent,
+  type TreeEntry,
+  type WalkOptions,
+  type RetentionRule,
+  type CleanupPolicy,
+  type CleanupItem,
+  type CleanupReport,
+  type SyncOptions,
+  type SyncAction,
+  type SyncPlan,
+  type SyncManifest,
+  type SyncManifestEntry,
+  type FolderSyncEvents,
+  type NotificationType,
+  type NotificationEvent,
+  type WebhookTarget,
+  type CommandTarget,
+  type Delivery,
+  type DeliveryLog,
+  type IDeliveryStore,
+  type NotifierOptions,
+  type NotifierEvents,
+  type FeedItem,
+  type Episode,
+  type FeedFilter,
+  type FeedConfig,
+  type FeedState,
+  type IFeedStore,
+  type FeedWatcherOptions,
+  type FeedSkipReason,
+  type FeedWatcherEvents,
+  type WishlistQuery,
+  type PromoteOptions,
+  type WishlistPromotion,
+  type WishlistImport,
+  type WishlistPromoterOptions,
+  type WishlistPromoterEvents,
+  type ScanTorrent,
+  type ScanTreeNode,
+  type ScanSelection,
+  type ScanResult,
+  type ScanAddOptions,
+  type ScanAddResult,
+  type PoolAccount,
+  type SeedrPoolOptions,
+  type Tagged,
+  type PoolAccountStatus,
+  type PoolAddOptions,
+  type PoolListing,
+  type SeedrPoolEvents,
+  type FileQuery,
+  type FileEntry,
+  type FileQueryResult,
+  type RPlayVideo,
+  type RSubtitles,
+  type Subtitle,
+  type VideoStream,
+  type DownloadOptions,
+  type DownloadProgress,
+  type DownloadedFile,
+  type TorrentStatus,
+  type TorrentWatcherOptions,
+  type TorrentWatcherEvents,
+} from './types';
@@ -1,3 +1,5 @@
+import type { Agents } from 'got';
+
 export type Either<L, R> =
   | ({ [K in keyof L]: L[K] } & { [K in keyof R]: never })
   | ({ [K in keyof L]: never } & { [K in keyof R]: R[K] });
@@ -31,9 +33,127 @@ export type RTokenRefresh = {
   scope?: string;
 };
 
+export type RetryPolicy = {
+  /** Maximum number of retries for idempotent functions. Defaults to 2. */
+  limit?: number;
+  /** Initial backoff delay in ms, doubled on every retry. Defaults to 500. */
+  delay?: number;
+  /** Upper bound of the backoff delay in ms. Defaults to 10000. */
+  maxDelay?: number;
+  /** Resource API functions to retry. Defaults to `IDEMPOTENT_FUNCS`. */
+  funcs?: string[];
+};
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/** Structured fields attached to a log entry. */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Leveled logger with structured fields, compatible with most loggers (eg. `pino`, `winston`) through a thin adapter.
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+/**
+ * Describes one HTTP attempt made by `Transport.request`.
+ */
+export type RequestEvent = {
+  /** Seedr API function name, or the endpoint for Auth calls. */
+  func: string;
+  method: 'GET' | 'POST';
+  path: string;
+  /** Number of retries before this attempt, 0 for the first one. */
+  retries: number;
+};
+
+export type ResponseEvent = RequestEvent & {
+  status: number;
+  /** Duration of the attempt in ms. */
+  duration: number;
+  /** Whether the attempt is retried because of the status. */
+  retrying: boolean;
+};
+
+export type RequestErrorEvent = RequestEvent & {
+  error: Error;
+  /** Duration of the attempt in ms. */
+  duration: number;
+  /** Whether the attempt is retried after the failure. */
+  retrying: boolean;
+};
+
+/**
+ * Request lifecycle hooks, eg. for metrics and traces. Errors thrown by hooks are logged and ignored.
+ */
+export type RequestHooks = {
+  /** Called before every attempt. */
+  onRequest?: (event: RequestEvent) => void;
+  /** Called when an attempt received a response, of any status. */
+  onResponse?: (event: ResponseEvent) => void;
+  /** Called when an attempt failed without a usable response. */
+  onError?: (event: RequestErrorEvent) => void;
+};
+
+/**
+ * How responses not matching their schema are reported: `strict` throws, `warn` logs, `off` ignores.
+ * Known quirks (numeric strings, 0/1 flags, date strings) are normalized in every mode.
+ */
+export type ValidationMode = 'strict' | 'warn' | 'off';
+
+export type ClientOptions = {
+  /** Server base URL. Defaults to `https://www.seedr.cc`. */
+  baseUrl?: string;
+  /** Request timeout in ms. */
+  timeout?: number;
+  /** Retry / backoff policy for idempotent functions. */
+  retry?: RetryPolicy;
+  /** HTTP(S) agents, eg. a proxy agent. */
+  agent?: Agents;
+  /** Headers added to every request. */
+  headers?: Record<string, string>;
+  /** `User-Agent` header sent with every request. */
+  userAgent?: string;
+  /** Renews the Access Token this many ms before it expires. Defaults to 30000. */
+  refreshMargin?: number;
+  /** Logger for client diagnostics. Defaults to discarding everything. */
+  logger?: Logger;
+  /** Request lifecycle hooks. */
+  hooks?: RequestHooks;
+  /** Response validation mode. Defaults to `warn`. */
+  validation?: ValidationMode;
+};
+
 export interface IStore {
   save(state: AuthState): void | Promise<void>;
   load(): AuthState | Promise<AuthState>;
+  /**
+   * (optional) Runs `fn` holding an exclusive lock shared by every process using the store.
+   * When provided, token renewals reload the state under the lock, so only one process refreshes.
+   */
+  lock?<R>(fn: () => Promise<R>): Promise<R>;
+}
+
+/**
+ * Persistence of `TorrentQueue` items.
+ */
+export interface IQueueStore {
+  save(items: QueueItem[]): void | Promise<void>;
+  load(): QueueItem[] | Promise<QueueItem[]>;
+}
+
+/**
+ * Minimal key/value store, compatible with Redis-like clients (eg. `ioredis`, `redis`, `Map`).
+ */
+export interface IKeyValue {
+  get(
+    key: string
+  ): string | null | undefined | Promise<string | null | undefined>;
+  set(key: string, value: string): unknown;
 }
 
 export type AuthState = {
@@ -48,7 +168,9 @@ export type AuthState = {
   xbmc?: {
     device_code: string;
     user_code: string;
-    expiry: number;
+    /** Expiry of a pending code, undefined once authorized. */
+    expiry?: number;
+    interval?: number;
   };
   credential?: {
     username: string;
@@ -64,7 +186,7 @@ export type Folder = {
   play_audio: boolean;
   play_video: boolean;
   is_shared: boolean;
-  last_update: string;
+  last_update: Date;
 };
 
 export type File = {
@@ -74,11 +196,11 @@ export type File = {
   folder_id: number;
   folder_file_id: number;
   file_id: number;
-  last_update: string;
+  last_update: Date;
   play_audio: boolean;
   play_video: boolean;
   video_progress: string;
-  is_lost: number;
+  is_lost: boolean;
   thumb: string;
 };
 
@@ -95,25 +217,39 @@ export type Torrent = {
   uploading_to: number;
   seeders: number;
   leechers: number;
-  warnings: null | any;
-  stopped: number;
-  progress: string;
+  warnings: unknown;
+  stopped: boolean;
+  /** Progress percentage, 0 - 100. */
+  progress: number;
   progress_url: string;
-  last_update: string;
+  last_update: Date;
 };
 
-export type RAddTorrent = SeedrSuccess & {
+export type RAddTorrent = RTorrentAdded | RTorrentNotAdded;
+
+export type RTorrentAdded = SeedrSuccess & {
+  result: true;
   user_torrent_id: number;
   title: string;
   torrent_hash: string;
 };
 
+/**
+ * Response of a torrent Seedr did not add, `result` is a message such as `not_enough_space_added_to_wishlist`.
+ */
+export type RTorrentNotAdded = {
+  result: string;
+  code?: number;
+  /** Wishlist item the torrent was parked in, as the mock server reports it (not confirmed against the live API, `removeParked` falls back to the torrent hash). */
+  wt?: WishlistItem;
+};
+
 export type RFolderDetails = {
   space_max: number;
   space_used: number;
-  saw_walkthrough: number;
+  saw_walkthrough: boolean;
   t: number[];
-  timestamp: string;
+  timestamp: Date;
   folder_id: number;
   fullname: string;
   type: 'folder' | 'file' | 'torrent';
@@ -130,6 +266,44 @@ export type RFetchFile = SeedrSuccess & {
   name: string;
 };
 
+export type RPlayVideo = SeedrSuccess & {
+  /** HLS playlist (`.m3u8`) of the video. */
+  url_hls: string;
+  /** Preview image of the video. */
+  url_preview?: string;
+  /** Saved playback position in seconds. */
+  video_progress: number;
+};
+
+export type Subtitle = {
+  id: number;
+  /** Language code, eg. `en`. */
+  language: string;
+  title: string;
+  /** URL of the subtitle file (SRT / VTT). */
+  url: string;
+};
+
+export type RSubtitles = SeedrSuccess & {
+  subtitles: Subtitle[];
+};
+
+/**
+ * Everything needed to play a video file, see `SeedrExtended.getStream`.
+ */
+export type VideoStream = {
+  /** The `folder_file_id` of the file. */
+  id: number;
+  /** HLS playlist (`.m3u8`) of the video. */
+  hls: string;
+  /** Thumbnail / preview image, if any. */
+  thumb?: string;
+  /** Saved playback position in seconds. */
+  progress: number;
+  /** Subtitles in `AccountSettings.subtitles_language` first. */
+  subtitles: Subtitle[];
+};
+
 export type WishlistItem = {
   id: number;
   user_id: number;
@@ -138,15 +312,15 @@ export type WishlistItem = {
   torrent_hash: string;
   torrent_magnet: string;
   torrent_meta: string;
-  created: string;
+  created: Date;
   added: number;
-  is_private: number;
+  is_private: boolean;
 };
 
 export type UserAccount = {
   username: string;
   user_id: number;
-  premium: number;
+  premium: boolean;
   package_id: number;
   package_name: string;
   space_used: number;
@@ -178,7 +352,7 @@ export type RMemoryBandwidth = {
   bandwidth_max: number;
   space_used: number;
   space_max: number;
-  is_premium: number;
+  is_premium: boolean;
 };
 
 export type RScanResults = SeedrSuccess & {
@@ -217,3 +391,800 @@ export type RSearchResults = {
   folders: Folder[];
   files: File[];
 };
+
+/**
+ * Content of a .torrent file to upload: a local path, the bytes, or a readable stream.
+ */
+export type TorrentFileSource =
+  | string
+  | Uint8Array
+  | AsyncIterable<Uint8Array | string>;
+
+/**
+ * Options of `addTorrent`, exactly one of `torrent_magnet`, `torrent_file`, `torrent_url` or `wishlist_id` is required.
+ */
+export type AddTorrentOptions = {
+  /** Folder to download the torrent into (defaults to root). */
+  folder_id?: number;
+  wishlist_id?: number;
+  torrent_magnet?: string;
+  torrent_file?: TorrentFileSource;
+  /** Name of the uploaded `torrent_file`. */
+  filename?: string;
+  torrent_url?: string;
+  /**
+   * Pre-flight check before adding: `refuse` throws on duplicates or missing space,
+   * `dedupe` resolves the duplicates instead of adding the torrent again.
+   */
+  preflight?: 'refuse' | 'dedupe';
+  /**
+   * Wait for an uploaded `torrent_file` to complete and move it into `folder_id`, otherwise it stays in the root.
+   * Takes polling options, an `AbortSignal` and a `timeout` in ms (defaults to 3600000).
+   */
+  awaitPlacement?:
+    | boolean
+    | (TorrentWatcherOptions & { signal?: AbortSignal; timeout?: number });
+};
+
+/**
+ * Torrent metadata parsed locally from a .torrent file or magnet URI.
+ */
+export type TorrentInfo = {
+  source: 'file' | 'magnet';
+  /** v1 info hash (SHA-1, hex). */
+  infoHash?: string;
+  /** v2 info hash (SHA-256, hex). */
+  infoHashV2?: string;
+  name?: string;
+  /** Files with their path (including the torrent name) and size, empty for magnets. */
+  files: { path: string; size: number }[];
+  /** Total size in bytes, if known. */
+  size?: number;
+  trackers: string[];
+};
+
+/**
+ * Existing item matching a torrent: an active torrent or wishlist item with the same hash, or a folder with the same name.
+ */
+export type TorrentDuplicate =
+  | { type: 'torrent'; id: number; name: string; hash: string }
+  | { type: 'folder'; id: number; name: string }
+  | { type: 'wishlist'; id: number; name: string; hash: string };
+
+export type TorrentPreflight = {
+  /** Parsed torrent, `undefined` if it could not be read locally. */
+  info?: TorrentInfo;
+  /** Free space of the account in bytes. */
+  free: number;
+  /** Whether the torrent fits in the free space, `undefined` if its size is unknown. */
+  fits?: boolean;
+  duplicates: TorrentDuplicate[];
+};
+
+/**
+ * Result of `addTorrent` with `preflight: 'dedupe'` when the torrent already exists.
+ */
+export type RDuplicateTorrent = {
+  result: 'duplicate';
+  duplicates: TorrentDuplicate[];
+  info?: TorrentInfo;
+};
+
+export type TreeEntry =
+  | { type: 'folder'; id: number; path: string; folder: Folder }
+  | { type: 'file'; id: number; path: string; file: File };
+
+export type WalkOptions = {
+  /** Folder to start from (defaults to root). */
+  folder_id?: number;
+  /** Path of the folder to start from, alternative to `folder_id`. */
+  path?: string;
+  /** Maximum depth of sub-folders to descend into, `0` lists only the start folder. */
+  maxDepth?: number;
+  /** Maximum number of simultaneous `list_contents` calls. Defaults to 4. */
+  concurrency?: number;
+};
+
+export type DownloadProgress = {
+  /** Local path of the file currently being written. */
+  path: string;
+  /** Bytes written so far, across all files of the download. */
+  bytes: number;
+  /** Total bytes of the download, if known. */
+  total?: number;
+  /** Transfer rate in bytes per second. */
+  rate: number;
+  /** Estimated seconds remaining, if `total` is known. */
+  eta?: number;
+};
+
+export type DownloadOptions = {
+  /** Verify files against `File.hash` after download. Defaults to false. */
+  verify?: boolean;
+  /** Maximum number of files downloaded in parallel for folders. Defaults to 2. */
+  concurrency?: number;
+  /** Attempts to resume / re-fetch an expired URL per file. Defaults to 3. */
+  retries?: number;
+  /** Cancels the download, partial files are kept for resuming. */
+  signal?: AbortSignal;
+  /** Called whenever data is written. */
+  onProgress?: (progress: DownloadProgress) => void;
+};
+
+export type DownloadedFile = {
+  /** The `folder_file_id` of the file. */
+  id: number;
+  /** Local path of the file. */
+  path: string;
+  /** Size in bytes. */
+  size: number;
+  /** Whether the file was already complete locally and skipped. */
+  skipped: boolean;
+};
+
+export type TorrentStatus = {
+  id: number;
+  name: string;
+  hash: string;
+  /** Folder polled for the torrent, `undefined` for root. */
+  folder_id?: number;
+  size: number;
+  /** Progress percentage, 0 - 100. */
+  progress: number;
+  /** Download rate in bytes per second. */
+  download_rate: number;
+  seeders: number;
+  leechers: number;
+  stopped: boolean;
+  warnings: unknown;
+  /** Raw torrent from `list` results, `undefined` until first seen. */
+  torrent?: Torrent;
+};
+
+export type TorrentWatcherOptions = {
+  /** Polling interval in ms. Defaults to 5000. */
+  interval?: number;
+  /** Time in ms without progress after which `stalled` is emitted. Defaults to 300000. */
+  stallTimeout?: number;
+  /** Folders to poll for torrents, root is always polled. */
+  folders?: number[];
+  /** Consecutive failed polls after which `awaitTorrent` rejects with the last error. Defaults to 5. */
+  maxPollErrors?: number;
+};
+
+export type TorrentWatcherEvents = {
+  progress: [status: TorrentStatus];
+  stalled: [status: TorrentStatus];
+  warning: [status: TorrentStatus, warnings: unknown];
+  completed: [status: TorrentStatus, folder: Folder];
+  removed: [status: TorrentStatus];
+  failed: [status: TorrentStatus, error: Error];
+  error: [error: unknown];
+};
+
+/**
+ * Torrent to add through `TorrentQueue`, exactly one of `torrent_magnet`, `torrent_url` or `torrent_file` is required.
+ */
+export type QueueSource = {
+  torrent_magnet?: string;
+  torrent_url?: string;
+  torrent_file?: TorrentFileSource;
+  /** Name of the uploaded `torrent_file`. */
+  filename?: string;
+  /** Folder to download the torrent into (defaults to root). */
+  folder_id?: number;
+  /** Higher priorities are submitted first, then in insertion order. Defaults to 0. */
+  priority?: number;
+  /** Size in bytes, when it cannot be parsed from the source (eg. magnets without `xl`). */
+  size?: number;
+};
+
+export type QueueItem = {
+  id: string;
+  priority: number;
+  /** Time the item was queued, epoch ms. */
+  added: number;
+  folder_id?: number;
+  torrent_magnet?: string;
+  torrent_url?: string;
+  /** Content of the .torrent file, base64 encoded. */
+  torrent_file?: string;
+  filename?: string;
+  name?: string;
+  /** Size in bytes, if known. */
+  size?: number;
+  /** `pending` until added to Seedr, then `submitted` until the torrent completes. */
+  status: 'pending' | 'submitted';
+  /** ID of the torrent once submitted. */
+  user_torrent_id?: number;
+  torrent_hash?: string;
+  /** Failed submission attempts. */
+  attempts: number;
+};
+
+export type TorrentQueueOptions = {
+  /** Persistence of the queue. Defaults to memory only. */
+  store?: IQueueStore;
+  /** Interval in ms between checks for free space. Defaults to 30000. */
+  interval?: number;
+  /** Maximum number of active torrents, including ones not added by the queue. Defaults to 1. */
+  maxActive?: number;
+  /** Bytes kept free when deciding whether an item fits. Defaults to 0. */
+  reserve?: number;
+  /** Submission attempts before an item fails. Defaults to 3. */
+  maxAttempts?: number;
+  /** Options of the `TorrentWatcher` following submitted torrents. */
+  watcher?: TorrentWatcherOptions;
+};
+
+export type TorrentQueueEvents = {
+  queued: [item: QueueItem];
+  submitted: [item: QueueItem, response: RAddTorrent];
+  completed: [item: QueueItem, folder: Folder];
+  failed: [item: QueueItem, error: Error];
+  error: [error: unknown];
+};
+
+/**
+ * Conditions selecting items for deletion, all defined conditions must hold.
+ */
+export type RetentionRule = {
+  /** Items last updated more than this many days ago. */
+  olderThanDays?: number;
+  /** Items larger than this many bytes. */
+  largerThan?: number;
+  /** Glob (`*`, `**`, `?`) or regular expression matched against the full path, globs without `/` match the name only. */
+  match?: string | RegExp;
+  /** Items already downloaded into this local directory with matching sizes, as `download()` writes them (or with their parent folders). */
+  downloadedTo?: string;
+};
+
+export type CleanupPolicy = {
+  /** Items matching any rule are deleted, each rule needs at least one criterion. Without rules, every top-level item of the start folder is a candidate for `freeSpace`, which is then required. */
+  rules?: RetentionRule[];
+  /** Only delete the least recently added candidates until this many bytes are free. */
+  freeSpace?: number;
+  /** Folder to clean up (defaults to root). */
+  folder_id?: number;
+  /** Path of the folder to clean up, alternative to `folder_id`. */
+  path?: string;
+  /** Report the items that would be deleted without deleting them. Defaults to false. */
+  dryRun?: boolean;
+  /** Maximum number of items per `delete` call. Defaults to 100. */
+  batchSize?: number;
+};
+
+export type CleanupItem = {
+  type: 'folder' | 'file';
+  /** Folder ID, or `folder_file_id` of files. */
+  id: number;
+  path: string;
+  size: number;
+  last_update: Date;
+  /** Index of the first matching rule, `undefined` for candidates without rules. */
+  rule?: number;
+};
+
+export type CleanupReport = {
+  dryRun: boolean;
+  /** Items deleted (or to delete in dry runs), in deletion order. */
+  items: CleanupItem[];
+  /** Total size of `items` in bytes. */
+  bytes: number;
+  /** Free space in bytes before the cleanup. */
+  freeBefore: number;
+  /** Expected free space in bytes after the cleanup. */
+  freeAfter: number;
+  /** Number of `delete` calls made. */
+  batches: number;
+};
+
+export type SyncOptions = {
+  /** Local directory mirroring the Seedr folder. */
+  localDir: string;
+  /** Seedr folder to sync (defaults to root). */
+  folder_id?: number;
+  /** Path of the Seedr folder to sync, alternative to `folder_id`. */
+  path?: string;
+  /** `download` mirrors Seedr onto the local directory, `two-way` also deletes from Seedr the files deleted locally since the last run. Defaults to `download`. */
+  mode?: 'download' | 'two-way';
+  /** Delete local files that do not exist on Seedr. Defaults to false. */
+  deleteOrphans?: boolean;
+  /** Delete files from Seedr once downloaded. Defaults to false. */
+  deleteRemote?: boolean;
+  /**
+   * Largest share of the synced files a plan may delete, counting local orphans and local deletions propagated to Seedr (not `deleteRemote`).
+   * Plans above it throw, guarding against an empty or wrong `localDir` or folder. Defaults to 0.5, 1 allows any.
+   */
+  maxDeleteRatio?: number;
+  /** Path of the state manifest. Defaults to `.seedr-sync.json` in `localDir`. */
+  manifest?: string;
+  /** Verify downloads against `File.hash`. Defaults to false. */
+  verify?: boolean;
+  /** Maximum number of files downloaded in parallel. Defaults to 2. */
+  concurrency?: number;
+  /** Interval in ms between runs in watch mode. Defaults to 60000. */
+  interval?: number;
+};
+
+export type SyncAction =
+  | { type: 'download'; path: string; file: File; reason: 'new' | 'changed' }
+  | { type: 'delete-local'; path: string; reason: 'orphan' }
+  | {
+      type: 'delete-remote';
+      path: string;
+      file: File;
+      reason: 'downloaded' | 'deleted-locally';
+    };
+
+export type SyncPlan = {
+  /** Actions in execution order, `path` is relative to the synced folder. */
+  actions: SyncAction[];
+  /** Number of files already in sync. */
+  unchanged: number;
+  /** Bytes to download. */
+  bytes: number;
+};
+
+export type SyncManifestEntry = {
+  /** The `folder_file_id` of the file. */
+  id: number;
+  size: number;
+  hash: string;
+  /** Modification time of the local file when synced, epoch ms. */
+  mtimeMs: number;
+  /** Whether the file was deleted from Seedr after download, so it is not an orphan. */
+  remoteDeleted?: boolean;
+};
+
+export type SyncManifest = {
+  version: 1;
+  /** Synced files by path relative to the synced folder. */
+  files: Record<string, SyncManifestEntry>;
+};
+
+export type FolderSyncEvents = {
+  plan: [plan: SyncPlan];
+  synced: [plan: SyncPlan];
+  error: [error: unknown];
+};
+
+export type BulkRenameOptions = {
+  /** Pattern replaced in names, as in `String.prototype.replace` (use the `g` flag for every occurrence). */
+  pattern: string | RegExp;
+  /** Replacement string (`$1` references groups) or function, as in `String.prototype.replace`. */
+  replacement: string | ((match: string, ...args: any[]) => string);
+  /** Folder whose items are renamed (defaults to root). */
+  folder_id?: number;
+  /** Path of the folder whose items are renamed, alternative to `folder_id`. */
+  path?: string;
+  /** Also rename items of sub-folders. Defaults to false. */
+  recursive?: boolean;
+  /** Types of items to rename. Defaults to both. */
+  types?: ('folder' | 'file')[];
+  /** Return the renames without applying them. Defaults to false. */
+  dryRun?: boolean;
+};
+
+export type RenameChange = {
+  type: 'folder' | 'file';
+  /** Folder ID, or `folder_file_id` of files. */
+  id: number;
+  /** Path before renaming. */
+  path: string;
+  name: string;
+  rename_to: string;
+};
+
+export type FileQuery = {
+  /** Text searched by name, through `search_files` unless walking the tree. */
+  text?: string;
+  /** File extensions, with or without the dot, case-insensitive. */
+  extensions?: string[];
+  /** Only playable video (`play_video`) or audio (`play_audio`) files. */
+  media?: 'video' | 'audio';
+  /** Minimum size in bytes. */
+  minSize?: number;
+  /** Maximum size in bytes. */
+  maxSize?: number;
+  /** Files last updated at or after this date. */
+  after?: Date;
+  /** Files last updated before this date. */
+  before?: Date;
+  /** Folder to search in, sub-folders included (defaults to root). */
+  folder_id?: number;
+  /** Path of the folder to search in, alternative to `folder_id`. */
+  path?: string;
+  /** Regular expression matched against file names, strings are case-insensitive. */
+  name?: string | RegExp;
+  /** Sort field. Defaults to `path`. */
+  sort?: 'name' | 'path' | 'size' | 'last_update';
+  /** Defaults to `asc`. */
+  order?: 'asc' | 'desc';
+  /** Number of matching files to skip. Defaults to 0. */
+  offset?: number;
+  /** Maximum number of files returned. */
+  limit?: number;
+  /** `search` uses `search_files` only, `walk` walks the tree, `auto` walks when the search fails or finds nothing. Defaults to `auto`, or `walk` without `text`. */
+  source?: 'auto' | 'search' | 'walk';
+};
+
+export type FileEntry = Extract<TreeEntry, { type: 'file' }>;
+
+export type FileQueryResult = {
+  /** Matching files with their full path, sorted and paginated. */
+  files: FileEntry[];
+  /** Number of matching files before pagination. */
+  total: number;
+  /** Whether the files come from `search_files` or a tree walk. */
+  source: 'search' | 'walk';
+};
+
+export type NotificationType =
+  | 'torrent.started'
+  | 'torrent.stalled'
+  | 'torrent.completed'
+  | 'torrent.failed'
+  | 'torrent.removed'
+  | 'storage.threshold';
+
+/**
+ * Event sent by `Notifier` as the JSON body of webhooks.
+ */
+export type NotificationEvent = {
+  /** Unique ID, stable across delivery attempts. */
+  id: string;
+  type: NotificationType;
+  /** Creation time, epoch ms. */
+  created: number;
+  /** Torrent status for `torrent.*` events, or the crossed threshold and usage for `storage.threshold`. */
+  data: Record<string, unknown>;
+};
+
+export type WebhookTarget = {
+  url: string;
+  /** Key of the `X-Seedr-Signature` HMAC-SHA256 of `<timestamp>.<body>`. */
+  secret?: string;
+  /** Event types to send. Defaults to all. */
+  events?: NotificationType[];
+  headers?: Record<string, string>;
+};
+
+export type CommandTarget = {
+  /** Executable run with the event as JSON on stdin and in `SEEDR_EVENT`. */
+  command: string;
+  args?: string[];
+  /** Event types to run the command for. Defaults to all. */
+  events?: NotificationType[];
+};
+
+export type Delivery = {
+  id: string;
+  event: NotificationEvent;
+  /** Webhook URL or command. */
+  target: string;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  /** Time of the next attempt of pending deliveries, epoch ms. */
+  next: number;
+  /** Error of the last failed attempt. */
+  error?: string;
+};
+
+/**
+ * State of `Notifier`, persisted so restarts neither resend nor drop events.
+ */
+export type DeliveryLog = {
+  /** Keys of events already created, eg. `torrent.completed:<id>`. */
+  keys: string[];
+  /** Pending deliveries and the most recent finished ones. */
+  deliveries: Delivery[];
+  /** Torrents started and not yet finished, followed again after a restart. */
+  torrents: { id: number; name: string; hash: string; folder_id?: number }[];
+  /** Whether usage was at or above each threshold at the last check. */
+  storage: Record<string, boolean>;
+};
+
+/**
+ * Persistence of the `Notifier` delivery log.
+ */
+export interface IDeliveryStore {
+  save(log: DeliveryLog): void | Promise<void>;
+  load(): DeliveryLog | undefined | Promise<DeliveryLog | undefined>;
+}
+
+export type NotifierOptions = {
+  webhooks?: WebhookTarget[];
+  commands?: CommandTarget[];
+  /** Persistence of the delivery log. Defaults to memory only. */
+  store?: IDeliveryStore;
+  /** Ratios of `space_used` to `space_max` emitting `storage.threshold` when crossed in either direction, eg. `[0.9]`. */
+  storageThresholds?: number[];
+  /** Interval in ms between usage checks and delivery retries. Defaults to 30000. */
+  interval?: number;
+  /** Attempts before a delivery fails. Defaults to 5. */
+  maxAttempts?: number;
+  /** Delay in ms before the first retry, doubled for every attempt up to `maxDelay`. Defaults to 1000. */
+  retryDelay?: number;
+  /** Defaults to 600000. */
+  maxDelay?: number;
+  /** Timeout in ms of webhook requests and commands. Defaults to 10000. */
+  timeout?: number;
+  /** Finished deliveries kept in the log. Defaults to 100. */
+  history?: number;
+  watcher?: TorrentWatcherOptions;
+};
+
+export type NotifierEvents = {
+  event: [event: NotificationEvent];
+  delivered: [delivery: Delivery];
+  failed: [delivery: Delivery];
+  error: [error: unknown];
+};
+
+/**
+ * Item of an RSS or Atom feed.
+ */
+export type FeedItem = {
+  /** `guid` or `id`, else the link or title. */
+  id: string;
+  title: string;
+  /** Magnet URI found in the item. */
+  magnet?: string;
+  /** URL of a .torrent file, from an enclosure or link. */
+  url?: string;
+  /** Size in bytes, from the enclosure, torrent extensions or the magnet `xl`. */
+  size?: number;
+  published?: Date;
+};
+
+/**
+ * Show, season and episode parsed from names like `Show.Name.S01E02` or `Show Name 1x02`.
+ */
+export type Episode = {
+  /** Lowercase show name, words separated by single spaces. */
+  show: string;
+  season: number;
+  episode: number;
+};
+
+export type FeedFilter = {
+  /** Titles must match, strings are case-insensitive regular expressions. */
+  include?: string | RegExp;
+  /** Titles must not match, strings are case-insensitive regular expressions. */
+  exclude?: string | RegExp;
+  /** Minimum size in bytes, items of unknown size pass. */
+  minSize?: number;
+  /** Maximum size in bytes, items of unknown size pass. */
+  maxSize?: number;
+  /** Add each show episode once, across feeds, by `parseEpisode`. Defaults to false. */
+  dedupeEpisodes?: boolean;
+};
+
+export type FeedConfig = FeedFilter & {
+  url: string;
+  /** Folder to add torrents into, overrides `FeedWatcherOptions.folder_id`. */
+  folder_id?: number;
+};
+
+/**
+ * State of `FeedWatcher`, persisted so items are added once.
+ */
+export type FeedState = {
+  /** Keys of processed items, `<feed url>#<item id>`. */
+  seen: string[];
+  /** Keys of added episodes, `<show>:<season>:<episode>`. */
+  episodes: string[];
+};
+
+/**
+ * Persistence of the `FeedWatcher` state.
+ */
+export interface IFeedStore {
+  save(state: FeedState): void | Promise<void>;
+  load(): FeedState | undefined | Promise<FeedState | undefined>;
+}
+
+export type FeedWatcherOptions = FeedFilter & {
+  /** Feed URLs, or feeds with their own folder and filters, overriding the default ones. */
+  feeds: (string | FeedConfig)[];
+  /** Folder to add torrents into (defaults to root). */
+  folder_id?: number;
+  /** Persistence of seen items. Defaults to memory only. */
+  store?: IFeedStore;
+  /** Polling interval in ms. Defaults to 900000. */
+  interval?: number;
+  /** Timeout in ms of feed requests. Defaults to 30000. */
+  timeout?: number;
+};
+
+export type FeedSkipReason =
+  | 'no-torrent'
+  | 'include'
+  | 'exclude'
+  | 'size'
+  | 'duplicate';
+
+export type FeedWatcherEvents = {
+  added: [item: FeedItem, response: RAddTorrent, feed: string];
+  skipped: [item: FeedItem, reason: FeedSkipReason, feed: string];
+  error: [error: unknown];
+};
+
+export type WishlistQuery = {
+  /** Minimum size in bytes. */
+  minSize?: number;
+  /** Maximum size in bytes. */
+  maxSize?: number;
+  /** Items created at or after this date. */
+  after?: Date;
+  /** Items created before this date. */
+  before?: Date;
+  is_private?: boolean;
+  /** Sort field, unsorted by default. */
+  sort?: 'size' | 'created' | 'title';
+  /** Defaults to `asc`. */
+  order?: 'asc' | 'desc';
+};
+
+export type PromoteOptions = Omit<WishlistQuery, 'sort' | 'order'> & {
+  /** `size` promotes the smallest items first to fit as many as possible, `created` the oldest items that fit. Defaults to `size`. */
+  order?: 'size' | 'created';
+  /** Bytes to keep free. Defaults to 0. */
+  reserve?: number;
+  /** Folder to download the torrents into (defaults to root). */
+  folder_id?: number;
+  /** Return the items that would be promoted without adding them. Defaults to false. */
+  dryRun?: boolean;
+};
+
+export type WishlistPromotion = {
+  /** Items added as torrents, in promotion order. */
+  promoted: WishlistItem[];
+  /** Items left in the wishlist. */
+  remaining: WishlistItem[];
+  /** Free space in bytes after promoting, as estimated from sizes. */
+  free: number;
+};
+
+export type WishlistImport = {
+  magnet: string;
+  /** `wishlisted` when Seedr saved the torrent in the wishlist for lack of space. */
+  status: 'added' | 'wishlisted' | 'duplicate' | 'invalid' | 'failed';
+  response?: RAddTorrent;
+  error?: Error;
+};
+
+export type WishlistPromoterOptions = PromoteOptions & {
+  /** Interval in ms between checks for free space. Defaults to 60000. */
+  interval?: number;
+};
+
+export type WishlistPromoterEvents = {
+  promoted: [promotion: WishlistPromotion];
+  error: [error: unknown];
+};
+
+export type ScanTorrent = RScanResults['torrents'][number];
+
+/**
+ * File or folder of a scanned torrent, parsed from its `filenames` and `filesizes`.
+ */
+export type ScanTreeNode = {
+  name: string;
+  /** Path inside the torrent, empty for the root. */
+  path: string;
+  /** Size in bytes, the total of the contents for folders. */
+  size: number;
+  /** Contents of folders, undefined for files. */
+  children?: ScanTreeNode[];
+};
+
+export type ScanSelection = {
+  /** Titles must match, strings are case-insensitive regular expressions. */
+  include?: string | RegExp;
+  /** Titles must not match, strings are case-insensitive regular expressions. */
+  exclude?: string | RegExp;
+  /** Minimum size in bytes, torrents of unknown size pass. */
+  minSize?: number;
+  /** Maximum size in bytes, torrents of unknown size pass. */
+  maxSize?: number;
+  /** Minimum `pct`. */
+  minPct?: number;
+  /** Skip private torrents. Defaults to false. */
+  excludePrivate?: boolean;
+  /** Ranking field. Defaults to `pct`. */
+  sort?: 'pct' | 'size' | 'title';
+  /** Defaults to `desc`, or `asc` for titles. */
+  order?: 'asc' | 'desc';
+  /** Maximum number of torrents to select. */
+  limit?: number;
+};
+
+export type ScanResult = {
+  torrent: ScanTorrent;
+  /** Scanned page URL. */
+  page: string;
+  /** `size`, or the total of `filesizes`. */
+  size?: number;
+  tree: ScanTreeNode;
+};
+
+export type ScanAddOptions = ScanSelection & {
+  /** Folder to download the torrents into (defaults to root). */
+  folder_id?: number;
+  /** Return the selection without adding torrents. Defaults to false. */
+  dryRun?: boolean;
+};
+
+export type ScanAddResult = ScanResult & {
+  /** `selected` in dry runs, `wishlisted` when Seedr saved the torrent in the wishlist for lack of space. */
+  status:
+    | 'added'
+    | 'wishlisted'
+    | 'selected'
+    | 'duplicate'
+    | 'filtered'
+    | 'failed';
+  response?: RAddTorrent;
+  /** Existing torrent, folder or wishlist item of `duplicate` results. */
+  duplicate?: TorrentDuplicate;
+  error?: Error;
+};
+
+/**
+ * Account of a `SeedrPool`, with its own auth state.
+ */
+export type PoolAccount = {
+  /** Unique name, used to tag results. */
+  name: string;
+  /** Auth state persistence of the account. Defaults to `NoPersistence`. */
+  store?: IStore;
+  /** Client options, merged over `SeedrPoolOptions.client`. */
+  options?: ClientOptions;
+};
+
+export type SeedrPoolOptions = {
+  /** Client options shared by all accounts. */
+  client?: ClientOptions;
+  /** Bytes to keep free on every account when choosing one to add torrents to. Defaults to 0. */
+  reserve?: number;
+  /** Time in ms an account failing with a network or server error is out of rotation. Defaults to 300000. */
+  cooldown?: number;
+};
+
+/**
+ * Result of a `SeedrPool` operation, tagged with the name of its account.
+ */
+export type Tagged<T> = T & { account: string };
+
+export type PoolAccountStatus = {
+  name: string;
+  /** Whether the account is in rotation. */
+  active: boolean;
+  /** Error that took the account out of rotation. */
+  error?: unknown;
+  /** End of the cooldown, epoch ms, undefined when out of rotation until `enable`. */
+  until?: number;
+};
+
+export type PoolAddOptions = Pick<
+  AddTorrentOptions,
+  'torrent_magnet' | 'torrent_file' | 'filename' | 'torrent_url'
+> & {
+  /** Folder path to download the torrent into, created in the chosen account if missing (defaults to root). */
+  path?: string;
+  /** Account to add the torrent to, instead of the one with the most free space. */
+  account?: string;
+};
+
+export type PoolListing = {
+  folders: Tagged<Folder>[];
+  files: Tagged<File>[];
+  torrents: Tagged<Torrent>[];
+};
+
+export type SeedrPoolEvents = {
+  disabled: [account: string, error: unknown];
+  enabled: [account: string];
+};
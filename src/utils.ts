@@ -0,0 +1,128 @@
+/**
+ * Creates a limiter running at most `concurrency` tasks at once, in call order.
+ * @param {number} concurrency - Maximum number of tasks running simultaneously.
+ * @returns {<R>(task: () => Promise<R>) => Promise<R>} Function queueing a task.
+ */
+export function createLimiter(
+  concurrency: number
+): <R>(task: () => Promise<R>) => Promise<R> {
+  const queue: (() => void)[] = [];
+  let active = 0;
+  const next = () => {
+    if (active >= concurrency) return;
+    const run = queue.shift();
+    if (!run) return;
+    active++;
+    run();
+  };
+  return (task) =>
+    new Promise((resolve, reject) => {
+      queue.push(() =>
+        task()
+          .then(resolve, reject)
+          .finally(() => {
+            active--;
+            next();
+          })
+      );
+      next();
+    });
+}
+
+/**
+ * Splits a slash separated path into its non-empty segments.
+ * @param {string} path - Path such as `/Movies/2024/foo.mkv`.
+ * @returns {string[]} Path segments.
+ */
+export function splitPath(path: string): string[] {
+  return path.split('/').filter((segment) => segment.length);
+}
+
+/**
+ * Joins path segments into an absolute slash separated path.
+ * @param {string[]} segments - Path segments.
+ * @returns {string} Path such as `/Movies/2024/foo.mkv`.
+ */
+export function joinPath(...segments: string[]): string {
+  return '/' + segments.flatMap(splitPath).join('/');
+}
+
+/**
+ * Waits for a duration, rejecting early with the abort reason if `signal` is aborted.
+ * @param {number} ms - Duration in milliseconds.
+ * @param {AbortSignal} [signal] - (optional) Cancels the wait.
+ * @returns {Promise<void>} Promise resolving after the duration.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Reads a stream / async iterable to the end.
+ * @param {AsyncIterable<Uint8Array | string>} stream - Stream to read.
+ * @returns {Promise<Buffer>} Promise resolving the concatenated content.
+ */
+export async function readAll(
+  stream: AsyncIterable<Uint8Array | string>
+): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(
+      typeof chunk == 'string'
+        ? Buffer.from(chunk, 'utf-8')
+        : Buffer.from(chunk)
+    );
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Replaces a pattern with either a replacement string or function, as `String.prototype.replace`,
+ * whose overloads only accept one or the other.
+ * @param {string} value - String to replace in.
+ * @param {string | RegExp} pattern - Pattern to replace.
+ * @param {string | Function} replacement - Replacement string (`$1` references groups) or function.
+ * @returns {string} The string with the pattern replaced.
+ */
+export function replacePattern(
+  value: string,
+  pattern: string | RegExp,
+  replacement: string | ((match: string, ...args: any[]) => string)
+): string {
+  return value.replace(pattern, replacement as string);
+}
+
+/**
+ * Converts a glob to a regular expression: `**` matches across `/`, `*` within a segment and `?` a single character.
+ * @param {string} glob - Glob such as `/Movies/**\/*.mkv`.
+ * @returns {RegExp} Case-insensitive expression matching the whole string.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]!;
+    if (char == '*' && glob[i + 1] == '*') {
+      // `**/` also matches no folder at all.
+      source += glob[i + 2] == '/' ? '(?:.*/)?' : '.*';
+      i += glob[i + 2] == '/' ? 2 : 1;
+    } else if (char == '*') {
+      source += '[^/]*';
+    } else if (char == '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, 'i');
+}
@@ -0,0 +1,288 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+
+import { Auth } from '../src/Auth';
+import { AuthError } from '../src/Errors';
+import { MockServer } from '../src/MockServer';
+import { NoPersistence } from '../src/State';
+import * as T from '../src/types';
+
+let server: MockServer;
+
+beforeEach(async () => {
+  server = new MockServer();
+  await server.start();
+});
+
+afterEach(async () => {
+  await server.stop();
+});
+
+function createAuth(state: T.AuthState = {}) {
+  const store = new NoPersistence(state);
+  return { store, auth: new Auth(store, { baseUrl: server.url }) };
+}
+
+describe('loginOAuth', () => {
+  test('stores access and refresh tokens', async () => {
+    const { store, auth } = createAuth();
+    const response = await auth.loginOAuth(server.username, server.password);
+    expect(response.refresh_token).toBeString();
+    expect(store.load().access?.token).toBe(response.access_token);
+    expect(store.load().refresh?.token).toBe(response.refresh_token);
+    expect(store.load().credential).toBeUndefined();
+  });
+
+  test('saves credentials when requested', async () => {
+    const { store, auth } = createAuth();
+    await auth.loginOAuth(server.username, server.password, true);
+    expect(store.load().credential).toEqual({
+      username: server.username,
+      password: server.password,
+    });
+  });
+
+  test('throws AuthError on wrong password', async () => {
+    const { auth } = createAuth();
+    const error = await auth
+      .loginOAuth(server.username, 'wrong')
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(AuthError);
+    expect(error.status).toBe(400);
+    expect(error.error).toBe('invalid_grant');
+    expect(error.func).toBe('token.php');
+  });
+
+  test('throws AuthError without credentials', async () => {
+    const { auth } = createAuth();
+    await expect(auth.loginOAuth()).rejects.toBeInstanceOf(AuthError);
+  });
+
+  test('throws AuthError when a valid token exists', async () => {
+    const { auth } = createAuth();
+    await auth.loginOAuth(server.username, server.password);
+    await expect(
+      auth.loginOAuth(server.username, server.password)
+    ).rejects.toThrow('Valid Token already exists');
+  });
+});
+
+describe('refreshTokenOAuth', () => {
+  test('obtains a new access token', async () => {
+    const { store, auth } = createAuth();
+    const login = await auth.loginOAuth(server.username, server.password);
+    const refresh = await auth.refreshTokenOAuth();
+    expect(refresh.access_token).not.toBe(login.access_token);
+    expect(store.load().access?.token).toBe(refresh.access_token);
+  });
+
+  test('throws AuthError without refresh token', async () => {
+    const { auth } = createAuth();
+    await expect(auth.refreshTokenOAuth()).rejects.toBeInstanceOf(AuthError);
+  });
+
+  test('throws AuthError on invalid refresh token', async () => {
+    const { auth } = createAuth({ refresh: { token: 'invalid' } });
+    await expect(auth.refreshTokenOAuth()).rejects.toBeInstanceOf(AuthError);
+  });
+});
+
+describe('device code', () => {
+  test('authorizes after approval', async () => {
+    const { store, auth } = createAuth();
+    const code = await auth.obtainDeviceCode();
+    expect(store.load().xbmc?.user_code).toBe(code.user_code);
+
+    const pending = await auth.refreshTokenXBMC().catch((e) => e);
+    expect(pending).toBeInstanceOf(AuthError);
+    expect(pending.error).toBe('authorization_pending');
+
+    server.authorizeDevice(code.user_code);
+    const token = await auth.refreshTokenXBMC();
+    expect(store.load().access?.token).toBe(token.access_token);
+    expect(server.devices).toHaveLength(1);
+  });
+
+  test('refuses a second code while one is pending', async () => {
+    const { auth } = createAuth();
+    await auth.obtainDeviceCode();
+    await expect(auth.obtainDeviceCode()).rejects.toBeInstanceOf(AuthError);
+  });
+
+  test('throws AuthError without device code', async () => {
+    const { auth } = createAuth();
+    await expect(auth.refreshTokenXBMC()).rejects.toBeInstanceOf(AuthError);
+  });
+});
+
+describe('authorizeDevice', () => {
+  test('polls until authorized', async () => {
+    server.deviceInterval = 0;
+    const { store, auth } = createAuth();
+    const token = await auth.authorizeDevice({
+      onCode: (code) => {
+        setTimeout(() => server.authorizeDevice(code.user_code), 20);
+      },
+    });
+    expect(store.load().access?.token).toBe(token.access_token);
+    expect(store.load().xbmc?.expiry).toBeUndefined();
+  });
+
+  test('resumes a pending code', async () => {
+    server.deviceInterval = 0;
+    const { auth } = createAuth();
+    const code = await auth.obtainDeviceCode();
+    server.authorizeDevice(code.user_code);
+    let shown: string | undefined;
+    await auth.authorizeDevice({
+      onCode: (code) => {
+        shown = code.user_code;
+      },
+    });
+    expect(shown).toBe(code.user_code);
+    expect(server.calls.filter((i) => i == 'device/code')).toHaveLength(1);
+  });
+
+  test('re-issues an expired code', async () => {
+    const { store, auth } = createAuth({
+      xbmc: { device_code: 'old', user_code: 'OLD', expiry: Date.now() - 1 },
+    });
+    const code = await auth.obtainDeviceCode();
+    expect(code.user_code).not.toBe('OLD');
+    expect(store.load().xbmc?.device_code).toBe(code.device_code);
+  });
+
+  test('throws AuthError when the code expires', async () => {
+    server.deviceInterval = 0;
+    server.deviceCodeTTL = 0;
+    const { auth } = createAuth();
+    const error = await auth.authorizeDevice().catch((e) => e);
+    expect(error).toBeInstanceOf(AuthError);
+    expect(error.error).toBe('expired_token');
+  });
+
+  test('stops when aborted', async () => {
+    const controller = new AbortController();
+    const { auth } = createAuth();
+    const promise = auth.authorizeDevice({ signal: controller.signal });
+    controller.abort(new Error('aborted'));
+    await expect(promise).rejects.toThrow('aborted');
+  });
+});
+
+describe('getAccessToken', () => {
+  test('returns a valid token without requests', async () => {
+    const { auth } = createAuth({
+      access: { token: 'token', expiry: Date.now() + 60000 },
+    });
+    expect(await auth.getAccessToken()).toBe('token');
+    expect(server.calls).toEqual([]);
+  });
+
+  test('refreshes an expired token', async () => {
+    const { store, auth } = createAuth({
+      access: { token: 'old', expiry: Date.now() - 1000 },
+      refresh: { token: await loginRefreshToken() },
+    });
+    const token = await auth.getAccessToken();
+    expect(token).not.toBe('old');
+    expect(store.load().access?.token).toBe(token);
+  });
+
+  test('logs in again with saved credentials when refresh fails', async () => {
+    const { store, auth } = createAuth({
+      access: { token: 'old', expiry: Date.now() - 1000 },
+      refresh: { token: 'invalid' },
+      credential: { username: server.username, password: server.password },
+    });
+    const token = await auth.getAccessToken();
+    expect(token).not.toBe('old');
+    expect(store.load().refresh?.token).not.toBe('invalid');
+  });
+
+  test('refreshes with the device code', async () => {
+    const { auth } = createAuth();
+    const code = await auth.obtainDeviceCode();
+    server.authorizeDevice(code.user_code);
+    const token = await auth.getAccessToken();
+    expect(token).toBeString();
+    expect(server.calls).toContain('device/authorize');
+  });
+
+  test('throws AuthError when not logged in', async () => {
+    const { auth } = createAuth();
+    await expect(auth.getAccessToken()).rejects.toBeInstanceOf(AuthError);
+  });
+});
+
+describe('token renewal', () => {
+  test('concurrent callers share a single refresh', async () => {
+    const refresh = await loginRefreshToken();
+    server.calls = [];
+    const { auth } = createAuth({
+      access: { token: 'old', expiry: Date.now() - 1000 },
+      refresh: { token: refresh },
+    });
+    const tokens = await Promise.all(
+      Array.from({ length: 20 }, () => auth.getAccessToken())
+    );
+    expect(new Set(tokens).size).toBe(1);
+    expect(server.calls).toEqual(['token.php']);
+  });
+
+  test('renews ahead of expiry by refreshMargin', async () => {
+    const state = {
+      access: { token: 'old', expiry: Date.now() + 10000 },
+      refresh: { token: await loginRefreshToken() },
+    };
+    const store = new NoPersistence(structuredClone(state));
+    const lazy = new Auth(store, { baseUrl: server.url, refreshMargin: 0 });
+    expect(await lazy.getAccessToken()).toBe('old');
+    expect(await createAuth(state).auth.getAccessToken()).not.toBe('old');
+  });
+
+  test('keeps a still valid token when renewal fails', async () => {
+    const { auth } = createAuth({
+      access: { token: 'old', expiry: Date.now() + 10000 },
+      refresh: { token: 'invalid' },
+    });
+    expect(await auth.getAccessToken()).toBe('old');
+  });
+
+  test('refreshAccessToken skips an already replaced token', async () => {
+    const { auth } = createAuth({
+      access: { token: 'current', expiry: Date.now() + 60000 },
+    });
+    expect(await auth.refreshAccessToken('stale')).toBe('current');
+    expect(server.calls).toEqual([]);
+    await expect(auth.refreshAccessToken('current')).rejects.toBeInstanceOf(
+      AuthError
+    );
+  });
+
+  test('reloads the state under the store lock', async () => {
+    const store = new NoPersistence({
+      access: { token: 'old', expiry: Date.now() - 1000 },
+    });
+    let locks = 0;
+    const locked: T.IStore = {
+      save: (state) => store.save(state),
+      load: () => structuredClone(store.load()),
+      async lock(fn) {
+        locks++;
+        // Another process renewed the token meanwhile.
+        store.state.access = { token: 'other', expiry: Date.now() + 60000 };
+        return fn();
+      },
+    };
+    const auth = new Auth(locked, { baseUrl: server.url });
+    expect(await auth.getAccessToken()).toBe('other');
+    expect(locks).toBe(1);
+    expect(server.calls).toEqual([]);
+  });
+});
+
+async function loginRefreshToken(): Promise<string> {
+  const { auth } = createAuth();
+  return (await auth.loginOAuth(server.username, server.password))
+    .refresh_token;
+}
@@ -0,0 +1,113 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { ChecksumError } from '../src/Errors';
+import { MockServer } from '../src/MockServer';
+import { SeedrExtended } from '../src/SeedrExtended';
+import * as T from '../src/types';
+import { createClient } from './helpers';
+
+const CONTENT = Buffer.from('0123456789'.repeat(1000));
+
+let server: MockServer;
+let seedr: SeedrExtended;
+let dir: string;
+let file: T.File;
+
+beforeEach(async () => {
+  server = new MockServer();
+  await server.start();
+  seedr = await createClient(server);
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'seedr-download-'));
+  file = server.addFile(server.addFolder('Movies'), 'movie.mkv', CONTENT);
+});
+
+afterEach(async () => {
+  await server.stop();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('download', () => {
+  test('downloads and verifies a file', async () => {
+    const [result] = await seedr.download({ file }, dir, { verify: true });
+    expect(result).toEqual({
+      id: file.folder_file_id,
+      path: path.join(dir, 'movie.mkv'),
+      size: CONTENT.length,
+      skipped: false,
+    });
+    expect(fs.readFileSync(result!.path)).toEqual(CONTENT);
+  });
+
+  test('downloads a file by folder_file_id', async () => {
+    await seedr.download({ file: file.folder_file_id }, dir);
+    expect(fs.readFileSync(path.join(dir, 'movie.mkv'))).toEqual(CONTENT);
+  });
+
+  test('recreates the folder structure and reports progress', async () => {
+    const season = server.addFolder('Season 1', file.folder_id);
+    server.addFile(season, 'episode.mkv', Buffer.from('episode'));
+    const progress: T.DownloadProgress[] = [];
+    const results = await seedr.download({ folder: file.folder_id }, dir, {
+      verify: true,
+      onProgress: (p) => progress.push(p),
+    });
+    expect(results.map((i) => path.relative(dir, i.path)).sort()).toEqual([
+      path.join('Movies', 'Season 1', 'episode.mkv'),
+      path.join('Movies', 'movie.mkv'),
+    ]);
+    const last = progress[progress.length - 1]!;
+    expect(last.bytes).toBe(CONTENT.length + 7);
+    expect(last.total).toBe(CONTENT.length + 7);
+    expect(last.eta).toBe(0);
+  });
+
+  test('resumes a partial file with Range', async () => {
+    const dest = path.join(dir, 'movie.mkv');
+    fs.writeFileSync(`${dest}.part`, 'X'.repeat(5000));
+    await seedr.download({ file }, dir);
+    const content = fs.readFileSync(dest);
+    expect(content.subarray(0, 5000).toString()).toBe('X'.repeat(5000));
+    expect(content.subarray(5000)).toEqual(CONTENT.subarray(5000));
+  });
+
+  test('rejects and removes a corrupt file on verification', async () => {
+    const dest = path.join(dir, 'movie.mkv');
+    fs.writeFileSync(`${dest}.part`, 'X'.repeat(5000));
+    await expect(
+      seedr.download({ file }, dir, { verify: true })
+    ).rejects.toBeInstanceOf(ChecksumError);
+    expect(fs.existsSync(`${dest}.part`)).toBe(false);
+    expect(fs.existsSync(dest)).toBe(false);
+  });
+
+  test('fetches the URL again when it expires', async () => {
+    server.failNext('ff_get', 403, { error: 'access_denied' });
+    await seedr.download({ file }, dir);
+    expect(server.calls.filter((i) => i == 'fetch_file')).toHaveLength(2);
+    expect(fs.readFileSync(path.join(dir, 'movie.mkv'))).toEqual(CONTENT);
+  });
+
+  test('skips complete files', async () => {
+    fs.writeFileSync(path.join(dir, 'movie.mkv'), CONTENT);
+    const [result] = await seedr.download({ file }, dir);
+    expect(result?.skipped).toBe(true);
+    expect(server.calls).not.toContain('ff_get');
+  });
+
+  test('cancels with an AbortSignal', async () => {
+    const controller = new AbortController();
+    controller.abort(new Error('cancelled'));
+    await expect(
+      seedr.download({ file }, dir, { signal: controller.signal })
+    ).rejects.toThrow('cancelled');
+    expect(fs.existsSync(path.join(dir, 'movie.mkv'))).toBe(false);
+  });
+
+  test('requires exactly one of file or folder', async () => {
+    await expect(seedr.download({}, dir)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,218 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+import { MockServer } from '../src/MockServer';
+import { SeedrExtended } from '../src/SeedrExtended';
+import { FeedWatcher, parseEpisode, parseFeed } from '../src/Feed';
+import { FileFeedPersistence } from '../src/State';
+import * as T from '../src/types';
+import { added, createClient, magnet } from './helpers';
+
+function link(name: string, hash: string, size: number): string {
+  return `<link>${magnet(name, hash, size).replace(/&/g, '&amp;')}</link>`;
+}
+
+function rss(...items: string[]): string {
+  return `<?xml version="1.0"?>
+<rss version="2.0" xmlns:torrent="http://xmlns.ezrss.it/0.1/">
+  <channel><title>Feed</title>${items.join('')}</channel>
+</rss>`;
+}
+
+function item(title: string, torrent: string, guid = title): string {
+  return `<item><title>${title}</title><guid>${guid}</guid>${torrent}</item>`;
+}
+
+const RSS = rss(
+  item(
+    'Show &amp; Tell S01E02 1080p',
+    `<enclosure url="https://example.com/a.torrent?id=1&amp;x=2" length="2048" type="application/x-bittorrent"/>`
+  ),
+  item(
+    '<![CDATA[Movie <2024>]]>',
+    `<torrent:magnetURI><![CDATA[${magnet(
+      'Movie',
+      'b'
+    )}]]></torrent:magnetURI><pubDate>Mon, 01 Jan 2024 00:00:00 GMT</pubDate>`
+  )
+);
+
+const ATOM = `<?xml version="1.0"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <entry>
+    <id>urn:entry:1</id>
+    <title>Other.Show.2x05.720p</title>
+    <updated>2024-02-01T00:00:00Z</updated>
+    <link rel="alternate" href="https://example.com/page/1"/>
+    <link rel="enclosure" type="application/x-bittorrent" href="https://example.com/b.torrent" length="4096"/>
+  </entry>
+</feed>`;
+
+describe('parseFeed', () => {
+  test('parses RSS enclosures and torrent extensions', () => {
+    const [first, second] = parseFeed(RSS);
+    expect(first).toEqual({
+      id: 'Show & Tell S01E02 1080p',
+      title: 'Show & Tell S01E02 1080p',
+      magnet: undefined,
+      url: 'https://example.com/a.torrent?id=1&x=2',
+      size: 2048,
+      published: undefined,
+    });
+    expect(second).toMatchObject({
+      title: 'Movie <2024>',
+      magnet: `magnet:?xt=urn:btih:${'b'.repeat(40)}&dn=Movie`,
+      published: new Date('2024-01-01T00:00:00Z'),
+    });
+  });
+
+  test('parses Atom links', () => {
+    expect(parseFeed(ATOM)).toEqual([
+      {
+        id: 'urn:entry:1',
+        title: 'Other.Show.2x05.720p',
+        magnet: undefined,
+        url: 'https://example.com/b.torrent',
+        size: 4096,
+        published: new Date('2024-02-01T00:00:00Z'),
+      },
+    ]);
+  });
+});
+
+describe('parseEpisode', () => {
+  test('parses common release names', () => {
+    expect(parseEpisode('[Group] Show.Name.S01E02.1080p')).toEqual({
+      show: 'show name',
+      season: 1,
+      episode: 2,
+    });
+    expect(parseEpisode('Show Name - 1x10 [720p]')).toEqual({
+      show: 'show name',
+      season: 1,
+      episode: 10,
+    });
+    expect(parseEpisode('Movie (2024) 1080p')).toBeUndefined();
+  });
+});
+
+describe('FeedWatcher', () => {
+  let server: MockServer;
+  let seedr: SeedrExtended;
+  let fixture: http.Server;
+  let base: string;
+  /** Feed documents served by path, missing paths respond 404. */
+  let feeds: Map<string, string>;
+
+  beforeEach(async () => {
+    server = new MockServer();
+    await server.start();
+    seedr = await createClient(server);
+    feeds = new Map();
+    fixture = http.createServer((req, res) => {
+      const body = feeds.get(req.url ?? '');
+      res.statusCode = body === undefined ? 404 : 200;
+      res.setHeader('content-type', 'application/rss+xml');
+      res.end(body);
+    });
+    await new Promise<void>((resolve) => fixture.listen(0, resolve));
+    base = `http://127.0.0.1:${(fixture.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => fixture.close(resolve));
+    await server.stop();
+  });
+
+  test('adds matching items into the target folder once', async () => {
+    const folder_id = server.addFolder('Shows');
+    feeds.set(
+      '/shows',
+      rss(
+        item('Show.S01E02.1080p', link('Show2', 'c', 100)),
+        item('Show.S01E01.1080p', link('Show1', 'a', 100)),
+        item('Show.S01E01.720p', link('Show1b', 'd', 50)),
+        item('Show.S01E03.CAM', link('Show3', 'e', 100)),
+        item('Huge.S01E04', link('Huge', 'f', 5000)),
+        item('No torrent', '<link>https://example.com/page</link>')
+      )
+    );
+    const watcher = new FeedWatcher(seedr, {
+      feeds: [`${base}/shows`],
+      folder_id,
+      exclude: /\bCAM\b/,
+      maxSize: 1000,
+      dedupeEpisodes: true,
+    });
+    const skipped: [string, T.FeedSkipReason][] = [];
+    watcher.on('skipped', (item, reason) => skipped.push([item.title, reason]));
+
+    const added = await watcher.poll();
+    // Oldest first: the last items of the feed.
+    expect(added.map((item) => item.title)).toEqual([
+      'Show.S01E01.720p',
+      'Show.S01E02.1080p',
+    ]);
+    expect(skipped).toEqual([
+      ['No torrent', 'no-torrent'],
+      ['Huge.S01E04', 'size'],
+      ['Show.S01E03.CAM', 'exclude'],
+      ['Show.S01E01.1080p', 'duplicate'],
+    ]);
+    const list = await seedr.list('folder', folder_id);
+    expect(list.torrents.map((torrent) => torrent.name).sort()).toEqual([
+      'Show1b',
+      'Show2',
+    ]);
+    expect(await watcher.poll()).toEqual([]);
+    expect(skipped).toHaveLength(4);
+  });
+
+  test('applies per-feed folders and filters to .torrent URLs', async () => {
+    const folder_id = server.addFolder('Other');
+    feeds.set('/atom', ATOM);
+    feeds.set('/rss', RSS);
+    const watcher = new FeedWatcher(seedr, {
+      feeds: [
+        `${base}/rss`,
+        { url: `${base}/atom`, folder_id, include: 'show' },
+      ],
+      include: 'movie',
+    });
+    const titles: string[] = [];
+    watcher.on('added', (item, response, feed) =>
+      titles.push(`${feed.slice(base.length)} ${added(response).title}`)
+    );
+    await watcher.poll();
+    expect(titles).toEqual(['/rss Movie', '/atom b']);
+    const list = await seedr.list('folder', folder_id);
+    expect(list.torrents.map((torrent) => torrent.name)).toEqual(['b']);
+  });
+
+  test('keeps polling other feeds and retries failed adds', async () => {
+    const store = new FileFeedPersistence(
+      path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'seedr-feed-')), 's.json')
+    );
+    try {
+      feeds.set('/rss', RSS);
+      const options = { feeds: [`${base}/missing`, `${base}/rss`], store };
+      let watcher = new FeedWatcher(seedr, options);
+      server.failNext('add_torrent', 400, { error: 'invalid_request' });
+      await expect(watcher.poll()).rejects.toThrow();
+      expect(server.torrents.size).toBe(1);
+
+      // Restarted: the added item is not added again, the failed one is retried.
+      watcher = new FeedWatcher(seedr, options);
+      await expect(watcher.poll()).rejects.toThrow();
+      expect(server.torrents.size).toBe(2);
+      expect(store.load()?.seen).toHaveLength(2);
+    } finally {
+      fs.rmSync(path.dirname(store.path), { recursive: true, force: true });
+    }
+  });
+});
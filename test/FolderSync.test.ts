@@ -0,0 +1,189 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { MockServer } from '../src/MockServer';
+import { SeedrExtended } from '../src/SeedrExtended';
+import { FolderSync } from '../src/FolderSync';
+import * as T from '../src/types';
+import { createClient } from './helpers';
+
+let server: MockServer;
+let seedr: SeedrExtended;
+let dir: string;
+let movies: number;
+
+function read(relative: string): string {
+  return fs.readFileSync(path.join(dir, relative), 'utf-8');
+}
+
+function summary(plan: T.SyncPlan): string[] {
+  return plan.actions.map((action) => `${action.type} ${action.path}`);
+}
+
+beforeEach(async () => {
+  server = new MockServer();
+  await server.start();
+  seedr = await createClient(server);
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'seedr-sync-'));
+  movies = server.addFolder('Movies');
+  server.addFile(movies, 'a.mkv', Buffer.from('movie a'));
+  server.addFile(server.addFolder('Extras', movies), 'b.txt', Buffer.from('b'));
+});
+
+afterEach(async () => {
+  fs.rmSync(dir, { recursive: true, force: true });
+  await server.stop();
+});
+
+describe('FolderSync', () => {
+  test('plans and downloads new files incrementally', async () => {
+    const sync = new FolderSync(seedr, { localDir: dir, path: '/Movies' });
+    const plan = await sync.plan();
+    expect(summary(plan)).toEqual(['download a.mkv', 'download Extras/b.txt']);
+    expect(plan.bytes).toBe(8);
+    expect(fs.readdirSync(dir)).toEqual([]);
+
+    await sync.run(plan);
+    expect(read('a.mkv')).toBe('movie a');
+    expect(read('Extras/b.txt')).toBe('b');
+    expect(await sync.plan()).toEqual({ actions: [], unchanged: 2, bytes: 0 });
+  });
+
+  test('downloads changed files and deletes orphans', async () => {
+    const sync = new FolderSync(seedr, {
+      localDir: dir,
+      folder_id: movies,
+      deleteOrphans: true,
+    });
+    await sync.run();
+    const [a] = [...server.files.values()].filter((i) => i.name == 'a.mkv');
+    server.files.delete(a!.folder_file_id);
+    server.addFile(movies, 'a.mkv', Buffer.from('movie A'));
+    fs.writeFileSync(path.join(dir, 'orphan.txt'), 'orphan');
+
+    const plan = await sync.plan();
+    expect(plan.actions.map((action) => action.reason)).toEqual([
+      'changed',
+      'orphan',
+    ]);
+    await sync.run(plan);
+    expect(read('a.mkv')).toBe('movie A');
+    expect(fs.existsSync(path.join(dir, 'orphan.txt'))).toBe(false);
+  });
+
+  test('keeps changed files when their download fails', async () => {
+    const sync = new FolderSync(seedr, { localDir: dir, folder_id: movies });
+    await sync.run();
+    const [a] = [...server.files.values()].filter((i) => i.name == 'a.mkv');
+    server.files.delete(a!.folder_file_id);
+    server.addFile(movies, 'a.mkv', Buffer.from('movie A'));
+
+    server.failNext('fetch_file', 403, { error: 'access_denied' });
+    await expect(sync.run()).rejects.toThrow();
+    expect(read('a.mkv')).toBe('movie a');
+    await sync.run();
+    expect(read('a.mkv')).toBe('movie A');
+    expect(fs.existsSync(path.join(dir, 'a.mkv.part'))).toBe(false);
+  });
+
+  test('trusts matching local files by hash', async () => {
+    fs.writeFileSync(path.join(dir, 'a.mkv'), 'movie a');
+    fs.writeFileSync(path.join(dir, 'stale.mkv'), 'movie b');
+    const sync = new FolderSync(seedr, { localDir: dir, path: '/Movies' });
+    expect(summary(await sync.plan())).toEqual(['download Extras/b.txt']);
+    fs.renameSync(path.join(dir, 'stale.mkv'), path.join(dir, 'a.mkv'));
+    expect((await sync.plan()).actions[0]).toMatchObject({
+      path: 'a.mkv',
+      reason: 'changed',
+    });
+  });
+
+  test('deletes remote files after download', async () => {
+    const sync = new FolderSync(seedr, {
+      localDir: dir,
+      path: '/Movies',
+      deleteRemote: true,
+      deleteOrphans: true,
+    });
+    const plan = await sync.run();
+    expect(summary(plan)).toEqual([
+      'download a.mkv',
+      'download Extras/b.txt',
+      'delete-remote a.mkv',
+      'delete-remote Extras/b.txt',
+    ]);
+    expect(server.files.size).toBe(0);
+    // Downloaded files are not orphans once removed from Seedr.
+    expect((await sync.plan()).actions).toEqual([]);
+    expect(read('a.mkv')).toBe('movie a');
+  });
+
+  test('propagates local deletions in two-way mode', async () => {
+    const sync = new FolderSync(seedr, {
+      localDir: dir,
+      path: '/Movies',
+      mode: 'two-way',
+    });
+    await sync.run();
+    fs.rmSync(path.join(dir, 'Extras', 'b.txt'));
+    const plan = await sync.run();
+    expect(plan.actions).toMatchObject([
+      {
+        type: 'delete-remote',
+        path: 'Extras/b.txt',
+        reason: 'deleted-locally',
+      },
+    ]);
+    expect([...server.files.values()].map((i) => i.name)).toEqual(['a.mkv']);
+  });
+
+  test('refuses plans wiping the synced files', async () => {
+    const options: T.SyncOptions = {
+      localDir: dir,
+      manifest: path.join(os.tmpdir(), `seedr-sync-${process.pid}.json`),
+      path: '/Movies',
+      mode: 'two-way',
+    };
+    try {
+      const sync = new FolderSync(seedr, options);
+      await sync.run();
+      // Unmounted: every synced file would be deleted from Seedr.
+      fs.rmSync(dir, { recursive: true });
+      await expect(sync.plan()).rejects.toThrow('Local directory not found');
+
+      fs.mkdirSync(dir);
+      await expect(sync.plan()).rejects.toThrow('Refusing to delete 2 of 2');
+      expect(server.files.size).toBe(2);
+
+      const plan = await new FolderSync(seedr, {
+        ...options,
+        maxDeleteRatio: 1,
+      }).plan();
+      expect(plan.actions).toHaveLength(2);
+    } finally {
+      fs.rmSync(options.manifest!, { force: true });
+    }
+  });
+
+  test('emits plan and synced in watch mode', async () => {
+    const sync = new FolderSync(seedr, {
+      localDir: dir,
+      path: '/Movies',
+      interval: 10,
+    });
+    const events: string[] = [];
+    sync.on('plan', () => events.push('plan'));
+    const synced = new Promise<T.SyncPlan>((resolve) =>
+      sync.once('synced', resolve)
+    );
+    sync.start();
+    expect(sync.running).toBe(true);
+    expect((await synced).actions).toHaveLength(2);
+    sync.stop();
+    expect(events).toEqual(['plan']);
+    expect(read('a.mkv')).toBe('movie a');
+  });
+});
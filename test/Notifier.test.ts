@@ -0,0 +1,272 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+import { MockServer } from '../src/MockServer';
+import { SeedrExtended } from '../src/SeedrExtended';
+import { Notifier, signPayload } from '../src/Notifier';
+import { FileDeliveryPersistence } from '../src/State';
+import * as T from '../src/types';
+import { added, createClient } from './helpers';
+
+const MAGNET =
+  'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567&dn=Example&xl=100';
+
+type Received = { headers: http.IncomingHttpHeaders; body: string };
+
+let server: MockServer;
+let seedr: SeedrExtended;
+let receiver: http.Server;
+let url: string;
+let received: Received[];
+/** Status codes of the next webhook responses, then 200. */
+let statuses: number[];
+let notifier: Notifier | undefined;
+
+function event(received: Received): T.NotificationEvent {
+  return JSON.parse(received.body);
+}
+
+function until(
+  notifier: Notifier,
+  name: keyof T.NotifierEvents,
+  count = 1
+): Promise<void> {
+  return new Promise((resolve) => {
+    const listener = () => {
+      if (--count) return;
+      notifier.off(name, listener);
+      resolve();
+    };
+    notifier.on(name, listener);
+  });
+}
+
+beforeEach(async () => {
+  server = new MockServer({ space_max: 1000 });
+  await server.start();
+  seedr = await createClient(server);
+  received = [];
+  statuses = [];
+  receiver = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      received.push({ headers: req.headers, body });
+      res.statusCode = statuses.shift() ?? 200;
+      res.end();
+    });
+  });
+  await new Promise<void>((resolve) => receiver.listen(0, resolve));
+  url = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hook`;
+});
+
+afterEach(async () => {
+  notifier?.stop();
+  notifier = undefined;
+  await new Promise((resolve) => receiver.close(resolve));
+  await server.stop();
+});
+
+describe('Notifier', () => {
+  test('posts signed events for tracked torrents', async () => {
+    notifier = new Notifier(seedr, {
+      webhooks: [{ url, secret: 'shh' }],
+      interval: 10,
+      watcher: { interval: 10 },
+    });
+    const response = added(await seedr.addTorrent({ torrent_magnet: MAGNET }));
+    await notifier.track(response);
+    const started = until(notifier, 'delivered');
+    notifier.start();
+    await started;
+
+    const completed = until(notifier, 'delivered');
+    const folder_id = server.completeTorrent(response.user_torrent_id);
+    await completed;
+
+    expect(received.map((r) => r.headers['x-seedr-event'])).toEqual([
+      'torrent.started',
+      'torrent.completed',
+    ]);
+    const [, last] = received;
+    expect(event(last!).data).toMatchObject({
+      id: response.user_torrent_id,
+      name: 'Example',
+      folder_id,
+    });
+    expect(last!.headers['x-seedr-signature']).toBe(
+      signPayload('shh', `${last!.headers['x-seedr-timestamp']}`, last!.body)
+    );
+    expect((await notifier.deliveries()).map((d) => d.status)).toEqual([
+      'delivered',
+      'delivered',
+    ]);
+  });
+
+  test('posts through the client transport without its headers', async () => {
+    const funcs: string[] = [];
+    seedr = await createClient(server, undefined, {
+      headers: { 'x-client': 'seedr' },
+      hooks: { onResponse: (event) => funcs.push(event.func) },
+    });
+    notifier = new Notifier(seedr, { webhooks: [{ url }] });
+    await notifier.notify('torrent.started', { id: 1 });
+    await notifier.flush();
+    expect(funcs).toContain('webhook');
+    expect(received[0]!.headers['x-client']).toBeUndefined();
+  });
+
+  test('retries failed deliveries with backoff', async () => {
+    notifier = new Notifier(seedr, {
+      webhooks: [{ url }],
+      retryDelay: 20,
+      maxAttempts: 3,
+    });
+    statuses = [500, 503];
+    await notifier.notify('torrent.started', { id: 1 });
+    await notifier.flush();
+    let [delivery] = await notifier.deliveries();
+    expect(delivery).toMatchObject({ status: 'pending', attempts: 1 });
+    expect(delivery!.next).toBeGreaterThan(Date.now());
+
+    // Not due yet.
+    await notifier.flush();
+    expect(received).toHaveLength(1);
+    await Bun.sleep(25);
+    await notifier.flush();
+    expect(delivery).toMatchObject({ status: 'pending', attempts: 2 });
+    await Bun.sleep(45);
+    await notifier.flush();
+    expect(delivery).toMatchObject({ status: 'delivered', attempts: 2 });
+    expect(new Set(received.map((r) => event(r).id)).size).toBe(1);
+
+    statuses = [500];
+    notifier = new Notifier(seedr, { webhooks: [{ url }], maxAttempts: 1 });
+    const failed = until(notifier, 'failed');
+    await notifier.notify('torrent.started', { id: 2 });
+    await notifier.flush();
+    await failed;
+    [delivery] = await notifier.deliveries();
+    expect(delivery?.status).toBe('failed');
+  });
+
+  test('notifies storage thresholds crossed in either direction', async () => {
+    notifier = new Notifier(seedr, {
+      webhooks: [{ url, events: ['storage.threshold'] }],
+      storageThresholds: [0.5, 0.9],
+    });
+    const events: T.NotificationEvent[] = [];
+    notifier.on('event', (event) => events.push(event));
+    const folder = server.addFolder('Used');
+    const file = server.addFile(folder, 'used.bin', 600);
+    await notifier.checkStorage();
+    await notifier.checkStorage();
+    server.files.delete(file.folder_file_id);
+    await notifier.checkStorage();
+    expect(events.map((e) => [e.data.threshold, e.data.direction])).toEqual([
+      [0.5, 'above'],
+      [0.5, 'below'],
+    ]);
+
+    // Other event types are not sent to this webhook.
+    await notifier.notify('torrent.started', { id: 1 });
+    await notifier.flush();
+    expect(received.map((r) => event(r).type)).toEqual([
+      'storage.threshold',
+      'storage.threshold',
+    ]);
+  });
+
+  test('runs commands with the event on stdin', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'seedr-notify-'));
+    const output = path.join(dir, 'event.json');
+    try {
+      notifier = new Notifier(seedr, {
+        commands: [
+          { command: 'sh', args: ['-c', `cat > ${output}`] },
+          { command: 'sh', args: ['-c', 'exit 3'] },
+        ],
+        maxAttempts: 1,
+      });
+      const created = await notifier.notify('torrent.stalled', { id: 1 });
+      await notifier.flush();
+      expect(JSON.parse(fs.readFileSync(output, 'utf-8'))).toEqual(created!);
+      const [, failed] = await notifier.deliveries();
+      expect(failed).toMatchObject({ status: 'failed' });
+      expect(failed!.error).toContain('code 3');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('FileDeliveryPersistence', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'seedr-notify-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('neither resends nor drops events after a restart', async () => {
+    const store = new FileDeliveryPersistence(path.join(dir, 'log.json'));
+    const options = { webhooks: [{ url }], store, retryDelay: 10 };
+    notifier = new Notifier(seedr, options);
+    expect(
+      await notifier.notify('torrent.started', { id: 1 }, 'started:1')
+    ).toBeDefined();
+    await notifier.flush();
+    statuses = [500];
+    await notifier.notify('torrent.started', { id: 2 }, 'started:2');
+    await notifier.flush();
+    expect(received).toHaveLength(2);
+
+    notifier = new Notifier(seedr, options);
+    expect(
+      await notifier.notify('torrent.started', { id: 1 }, 'started:1')
+    ).toBeUndefined();
+    await Bun.sleep(15);
+    await notifier.flush();
+    expect(received.map((r) => event(r).data.id)).toEqual([1, 2, 2]);
+    expect(store.load()?.deliveries.map((d) => d.status)).toEqual([
+      'delivered',
+      'delivered',
+    ]);
+  });
+
+  test('follows torrents started before a restart', async () => {
+    const store = new FileDeliveryPersistence(path.join(dir, 'log.json'));
+    const options = {
+      webhooks: [{ url }],
+      store,
+      interval: 10,
+      watcher: { interval: 10 },
+    };
+    notifier = new Notifier(seedr, options);
+    const folder_id = server.addFolder('Downloads');
+    const response = added(
+      await seedr.addTorrent({
+        torrent_magnet: MAGNET,
+        folder_id,
+      })
+    );
+    await notifier.track(response, { folder_id });
+    notifier.stop();
+
+    server.completeTorrent(response.user_torrent_id);
+    notifier = new Notifier(seedr, options);
+    const completed = until(notifier, 'delivered');
+    notifier.start();
+    await completed;
+    expect(event(received[0]!).type).toBe('torrent.completed');
+    expect(store.load()?.torrents).toEqual([]);
+  });
+});
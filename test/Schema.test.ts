@@ -0,0 +1,132 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+
+import { UnexpectedResponseError } from '../src/Errors';
+import { MockServer } from '../src/MockServer';
+import { FileSchema, TorrentSchema, parse } from '../src/Schema';
+import { SeedrExtended } from '../src/SeedrExtended';
+import * as T from '../src/types';
+import { createClient } from './helpers';
+
+let server: MockServer;
+
+beforeEach(async () => {
+  server = new MockServer();
+  await server.start();
+});
+
+afterEach(async () => {
+  await server.stop();
+});
+
+describe('normalization', () => {
+  test('converts numeric strings, flags and dates', () => {
+    const { value, issues } = parse(TorrentSchema, {
+      id: '12',
+      name: 'Example',
+      folder: '',
+      size: '1024',
+      hash: 'abc',
+      download_rate: 100,
+      torrent_quality: 0,
+      connected_to: 0,
+      downloading_from: 0,
+      uploading_to: 0,
+      seeders: '4',
+      leechers: 1,
+      warnings: '["No seeders"]',
+      stopped: '1',
+      progress: '45.5',
+      progress_url: '',
+      last_update: '2024-05-01 10:20:30',
+      extra: 'kept',
+    });
+    expect(issues).toEqual([]);
+    expect(value).toMatchObject({
+      id: 12,
+      size: 1024,
+      seeders: 4,
+      stopped: true,
+      progress: 45.5,
+      warnings: '["No seeders"]',
+      extra: 'kept',
+    });
+    expect(value.last_update).toEqual(new Date('2024-05-01T10:20:30Z'));
+  });
+
+  test('reports mismatches with their path', () => {
+    const { value, issues } = parse(FileSchema, {
+      name: 'movie.mkv',
+      size: 'large',
+      is_lost: 0,
+    });
+    expect(value.is_lost).toBe(false);
+    expect(value.size as unknown).toBe('large');
+    expect(issues).toContainEqual({
+      path: 'size',
+      message: 'expected number, got string',
+    });
+    expect(issues).toContainEqual({
+      path: 'last_update',
+      message: 'expected date, got undefined',
+    });
+  });
+});
+
+describe('validation modes', () => {
+  const MALFORMED = { result: true, devices: [{ client_id: 1 }] };
+
+  test('responses of the mock server are valid in strict mode', async () => {
+    const seedr = await createClient(server, undefined, {
+      validation: 'strict',
+    });
+    const folder_id = server.addFolder('Movies');
+    server.addFile(folder_id, 'movie.mkv', 1024);
+    server.addTorrent({ name: 'Active' });
+    server.addWishlistItem({ title: 'Wish', torrent_magnet: 'magnet:?' });
+    const details = await seedr.list('folder', folder_id);
+    expect(details.files[0]!.last_update).toBeInstanceOf(Date);
+    expect(details.files[0]!.is_lost).toBe(false);
+    expect((await seedr.list('folder')).torrents[0]!.progress).toBe(0);
+    const settings = await seedr.getAccountInfo();
+    expect(settings.account.premium).toBe(false);
+    expect(settings.account.wishlist[0]!.is_private).toBe(false);
+    expect((await seedr.getUsage()).is_premium).toBe(false);
+    await seedr.searchFiles('movie');
+    await seedr.getDevices();
+    await seedr.fetchFile(details.files[0]!.folder_file_id);
+  });
+
+  test('strict throws UnexpectedResponseError', async () => {
+    const seedr = await createClient(server, undefined, {
+      validation: 'strict',
+    });
+    server.failNext('get_devices', 200, MALFORMED);
+    const error = await seedr.getDevices().catch((e) => e);
+    expect(error).toBeInstanceOf(UnexpectedResponseError);
+    expect(error.func).toBe('get_devices');
+    expect(error.message).toContain('devices[0].client_name');
+  });
+
+  test('warn logs and returns the response', async () => {
+    const warnings: [string, T.LogFields?][] = [];
+    const seedr: SeedrExtended = await createClient(server, undefined, {
+      logger: {
+        debug() {},
+        info() {},
+        warn: (message, fields) => warnings.push([message, fields]),
+        error() {},
+      },
+    });
+    server.failNext('get_devices', 200, MALFORMED);
+    const response = await seedr.getDevices();
+    expect(response.devices[0]!.client_id).toBe('1');
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]![1]?.func).toBe('get_devices');
+  });
+
+  test('off only normalizes', async () => {
+    const seedr = await createClient(server, undefined, { validation: 'off' });
+    server.failNext('get_devices', 200, MALFORMED);
+    expect((await seedr.getDevices()).devices[0]!.client_id).toBe('1');
+  });
+});
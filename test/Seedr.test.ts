@@ -0,0 +1,346 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+
+import {
+  AuthError,
+  NotFoundError,
+  QuotaError,
+  RateLimitError,
+  TransportError,
+  UnexpectedResponseError,
+} from '../src/Errors';
+import { MockServer } from '../src/MockServer';
+import { SeedrExtended } from '../src/SeedrExtended';
+import * as T from '../src/types';
+import { added, createClient } from './helpers';
+
+const MAGNET =
+  'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567&dn=Example&xl=1024';
+
+let server: MockServer;
+let seedr: SeedrExtended;
+
+beforeEach(async () => {
+  server = new MockServer();
+  await server.start();
+  seedr = await createClient(server);
+});
+
+afterEach(async () => {
+  await server.stop();
+});
+
+describe('add torrents', () => {
+  test('addTorrentMagnet', async () => {
+    const response = added(await seedr.addTorrentMagnet(MAGNET));
+    expect(response.result).toBe(true);
+    expect(response.title).toBe('Example');
+    expect(response.torrent_hash).toBe(
+      '0123456789abcdef0123456789abcdef01234567'
+    );
+    expect(server.torrents.get(response.user_torrent_id)?.size).toBe(1024);
+  });
+
+  test('addTorrentMagnet into folder', async () => {
+    const folder_id = server.addFolder('Target');
+    const response = added(await seedr.addTorrentMagnet(MAGNET, folder_id));
+    const list = await seedr.list('folder', folder_id);
+    expect(list.torrents.map((i) => i.id)).toEqual([response.user_torrent_id]);
+  });
+
+  test('addTorrentMagnet saves in wishlist without space', async () => {
+    server.space_max = 100;
+    const response = await seedr.addTorrentMagnet(MAGNET);
+    expect(response.result).toBe('not_enough_space_added_to_wishlist');
+    expect(await seedr.getWishlist()).toHaveLength(1);
+  });
+
+  test('addTorrentURL', async () => {
+    const response = added(
+      await seedr.addTorrentURL('https://example.com/file.torrent')
+    );
+    expect(response.title).toBe('file');
+  });
+
+  test('addTorrentFile', async () => {
+    const file = path.join(os.tmpdir(), `seedr-${Date.now()}.torrent`);
+    fs.writeFileSync(file, 'd4:infod4:name4:testee');
+    try {
+      const response = added(await seedr.addTorrentFile(file));
+      expect(response.result).toBe(true);
+      expect(response.title).toBe(path.basename(file, '.torrent'));
+    } finally {
+      fs.rmSync(file);
+    }
+  });
+
+  test('addTorrentFile from bytes', async () => {
+    const response = added(
+      await seedr.addTorrentFile(
+        Buffer.from('d4:infod4:name4:testee'),
+        'named.torrent'
+      )
+    );
+    expect(response.title).toBe('named');
+    expect(server.torrents.has(response.user_torrent_id)).toBe(true);
+  });
+
+  test('addTorrentFile from a stream', async () => {
+    const response = added(
+      await seedr.addTorrentFile(
+        Readable.from([Buffer.from('d4:info'), 'd4:name4:testee'])
+      )
+    );
+    expect(response.title).toBe('upload');
+  });
+
+  test('addTorrentFromWishlist', async () => {
+    const id = server.addWishlistItem({
+      title: 'Wish',
+      torrent_magnet: MAGNET,
+    });
+    const response = added(await seedr.addTorrentFromWishlist(id));
+    expect(response.title).toBe('Wish');
+    expect(server.wishlist.size).toBe(0);
+  });
+});
+
+describe('resources', () => {
+  test('scanPage', async () => {
+    server.scanResults.set('https://example.com', [
+      {
+        hash: 'abc',
+        magnet: MAGNET,
+        title: 'Example',
+        is_private: false,
+        pct: 100,
+      },
+    ]);
+    const response = await seedr.scanPage('https://example.com');
+    expect(response.torrents.map((i) => i.title)).toEqual(['Example']);
+  });
+
+  test('list', async () => {
+    const folder_id = server.addFolder('Movies');
+    const file = server.addFile(folder_id, 'movie.mkv', 2048);
+    server.addTorrent({ name: 'Active' });
+
+    const root = await seedr.list();
+    expect(root.folders.map((i) => i.name)).toEqual(['Movies']);
+    expect(root.folders[0]?.size).toBe(2048);
+    expect(root.torrents.map((i) => i.name)).toEqual(['Active']);
+
+    const movies = await seedr.list('folder', folder_id);
+    expect(movies.fullname).toBe('Movies');
+    expect(movies.files).toEqual([file]);
+  });
+
+  test('searchFiles', async () => {
+    const folder_id = server.addFolder('Movies');
+    server.addFile(folder_id, 'movie.mkv');
+    server.addFile(folder_id, 'notes.txt');
+    const response = await seedr.searchFiles('movie');
+    expect(response.folders.map((i) => i.name)).toEqual(['Movies']);
+    expect(response.files.map((i) => i.name)).toEqual(['movie.mkv']);
+  });
+
+  test('fetchFile', async () => {
+    const file = server.addFile(server.addFolder('Movies'), 'movie.mkv');
+    const response = await seedr.fetchFile(file.folder_file_id);
+    expect(response.name).toBe('movie.mkv');
+    expect(response.url).toStartWith(server.url);
+  });
+
+  test('addFolder', async () => {
+    await seedr.addFolder('New');
+    expect((await seedr.list()).folders.map((i) => i.name)).toEqual(['New']);
+  });
+
+  test('deleteWishlistItem', async () => {
+    const id = server.addWishlistItem({
+      title: 'Wish',
+      torrent_magnet: MAGNET,
+    });
+    await seedr.deleteWishlistItem(id);
+    expect(server.wishlist.size).toBe(0);
+  });
+
+  test('testToken', async () => {
+    expect(await seedr.testToken()).toEqual({ result: true });
+  });
+
+  test('getDevices', async () => {
+    expect((await seedr.getDevices()).devices).toEqual([]);
+  });
+
+  test('getAccountInfo', async () => {
+    const response = await seedr.getAccountInfo();
+    expect(response.account.username).toBe(server.username);
+    expect(response.settings.subtitles_language).toBe('en');
+  });
+
+  test('getUsage', async () => {
+    server.addFile(server.addFolder('Movies'), 'movie.mkv', 4096);
+    const response = await seedr.getUsage();
+    expect(response.space_used).toBe(4096);
+    expect(response.space_max).toBe(server.space_max);
+  });
+});
+
+describe('errors', () => {
+  test('retries once with a renewed token on 401', async () => {
+    server.expireTokens();
+    expect((await seedr.testToken()).result).toBe(true);
+    expect(server.calls.slice(-3)).toEqual(['test', 'token.php', 'test']);
+  });
+
+  test('AuthError on expired token', async () => {
+    const client = await createClient(server, {
+      access: { token: await seedr.auth.getAccessToken(), expiry: Infinity },
+    });
+    server.expireTokens();
+    const error = await client.testToken().catch((e) => e);
+    expect(error).toBeInstanceOf(AuthError);
+    expect(error.status).toBe(401);
+    expect(error.error).toBe('expired_token');
+    expect(error.func).toBe('test');
+  });
+
+  test('NotFoundError on missing items', async () => {
+    const error = await seedr.fetchFile(404).catch((e) => e);
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error.body).toEqual({
+      error: 'not_found',
+      error_description: 'File not found',
+    });
+  });
+
+  test('QuotaError on space errors', async () => {
+    server.failNext('add_torrent', 413, {
+      error: 'not_enough_space',
+      error_description: 'Not enough space',
+    });
+    await expect(seedr.addTorrentMagnet(MAGNET)).rejects.toBeInstanceOf(
+      QuotaError
+    );
+  });
+
+  test('RateLimitError is retried for idempotent functions', async () => {
+    server.failNext('list_contents', 429, { error: 'too_many_requests' });
+    expect((await seedr.list()).folder_id).toBe(1);
+
+    server.failNext('add_torrent', 429, { error: 'too_many_requests' });
+    await expect(seedr.addTorrentMagnet(MAGNET)).rejects.toBeInstanceOf(
+      RateLimitError
+    );
+  });
+
+  test('UnexpectedResponseError on other statuses', async () => {
+    server.failNext('add_folder', 500, { error: 'server_error' });
+    await expect(seedr.addFolder('New')).rejects.toBeInstanceOf(
+      UnexpectedResponseError
+    );
+  });
+
+  test('TransportError without a server', async () => {
+    await server.stop();
+    await expect(seedr.list()).rejects.toBeInstanceOf(TransportError);
+  });
+});
+
+describe('observability', () => {
+  function createLogger() {
+    const entries: [string, string, T.LogFields?][] = [];
+    const logger: T.Logger = {
+      debug: (message, fields) => entries.push(['debug', message, fields]),
+      info: (message, fields) => entries.push(['info', message, fields]),
+      warn: (message, fields) => entries.push(['warn', message, fields]),
+      error: (message, fields) => entries.push(['error', message, fields]),
+    };
+    return { entries, logger };
+  }
+
+  test('logs token renewal through the logger', async () => {
+    const { entries, logger } = createLogger();
+    const client = await createClient(server, undefined, { logger });
+    server.expireTokens();
+    await client.testToken();
+    expect(entries.map(([level, message]) => [level, message])).toEqual([
+      ['info', 'Token expired'],
+      ['info', 'Refreshing Token'],
+    ]);
+    expect(entries[1]![2]).toEqual({ grant: 'refresh_token' });
+  });
+
+  test('reports request lifecycle with retries', async () => {
+    const events: [string, unknown][] = [];
+    const client = await createClient(server, undefined, {
+      hooks: {
+        onRequest: (event) => events.push(['request', event]),
+        onResponse: (event) => events.push(['response', event]),
+      },
+    });
+    events.length = 0;
+    server.failNext('list_contents', 503, { error: 'unavailable' });
+    await client.list('folder');
+    expect(events.map(([name]) => name)).toEqual([
+      'request',
+      'response',
+      'request',
+      'response',
+    ]);
+    expect(events[1]![1]).toMatchObject({
+      func: 'list_contents',
+      method: 'POST',
+      path: '/oauth_test/resource.php',
+      status: 503,
+      retries: 0,
+      retrying: true,
+    });
+    expect(events[3]![1]).toMatchObject({
+      status: 200,
+      retries: 1,
+      retrying: false,
+      duration: expect.any(Number),
+    });
+  });
+
+  test('reports transport failures', async () => {
+    const errors: T.RequestErrorEvent[] = [];
+    const client = await createClient(
+      server,
+      { access: { token: 'token', expiry: Infinity } },
+      {
+        baseUrl: 'http://127.0.0.1:1',
+        retry: { limit: 0 },
+        hooks: { onError: (event) => errors.push(event) },
+      }
+    );
+    await expect(client.testToken()).rejects.toBeInstanceOf(TransportError);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]!.error).toBeInstanceOf(TransportError);
+    expect(errors[0]!.retrying).toBe(false);
+  });
+
+  test('ignores failing hooks', async () => {
+    const { entries, logger } = createLogger();
+    const client = await createClient(server, undefined, {
+      logger,
+      hooks: {
+        onResponse: () => {
+          throw new Error('broken');
+        },
+      },
+    });
+    expect((await client.testToken()).result).toBe(true);
+    expect(entries).toContainEqual([
+      'warn',
+      'Request hook onResponse failed',
+      { error: new Error('broken') },
+    ]);
+  });
+});
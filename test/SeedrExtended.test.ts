@@ -0,0 +1,915 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import type { AddressInfo } from 'net';
+
+import {
+  DuplicateError,
+  NotFoundError,
+  QuotaError,
+  SeedrAPIError,
+} from '../src/Errors';
+import { encode } from '../src/Bencode';
+import { MockServer } from '../src/MockServer';
+import { parseScanTree } from '../src/Scan';
+import { parseMagnet } from '../src/TorrentInfo';
+import { SeedrExtended } from '../src/SeedrExtended';
+import * as T from '../src/types';
+import { added, createClient } from './helpers';
+
+const MAGNET =
+  'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567&dn=Example';
+
+let server: MockServer;
+let seedr: SeedrExtended;
+
+beforeEach(async () => {
+  server = new MockServer();
+  await server.start();
+  seedr = await createClient(server);
+});
+
+afterEach(async () => {
+  await server.stop();
+});
+
+describe('addTorrent', () => {
+  test('dispatches to magnet, URL and wishlist', async () => {
+    const folder_id = server.addFolder('Target');
+    await seedr.addTorrent({ torrent_magnet: MAGNET, folder_id });
+    await seedr.addTorrent({ torrent_url: 'https://example.com/a.torrent' });
+    const id = server.addWishlistItem({
+      title: 'Wish',
+      torrent_magnet: MAGNET,
+    });
+    await seedr.addTorrent({ wishlist_id: id });
+    expect([...server.torrents.values()].map((i) => i.name)).toEqual([
+      'Example',
+      'a',
+      'Wish',
+    ]);
+  });
+
+  test('moves uploaded torrents into the folder once complete', async () => {
+    const folder_id = server.addFolder('Target');
+    const adding = seedr.addTorrent({
+      torrent_file: new Uint8Array(Buffer.from('d4:infod4:name4:testee')),
+      filename: 'file.torrent',
+      folder_id,
+      awaitPlacement: { interval: 5 },
+    });
+    // Seedr ignores the folder of uploads.
+    while (!server.torrents.size) await Bun.sleep(1);
+    const [torrent] = [...server.torrents.values()];
+    expect(torrent?.folder_id).toBe(1);
+    const completed = server.completeTorrent(torrent!.id);
+
+    const response = added(await adding);
+    expect(response.title).toBe('file');
+    expect(server.folders.get(completed)?.parent).toBe(folder_id);
+  });
+
+  test('returns uploads without awaitPlacement right after the add', async () => {
+    const folder_id = server.addFolder('Target');
+    const response = added(
+      await seedr.addTorrent({
+        torrent_file: new Uint8Array(Buffer.from('d4:infod4:name4:testee')),
+        folder_id,
+      })
+    );
+    expect(server.torrents.get(response.user_torrent_id)?.folder_id).toBe(1);
+  });
+
+  test('rejects uploads not placed within the timeout', async () => {
+    const adding = seedr.addTorrent({
+      torrent_file: new Uint8Array(Buffer.from('d4:infod4:name4:testee')),
+      folder_id: server.addFolder('Target'),
+      awaitPlacement: { interval: 5, timeout: 20 },
+    });
+    await expect(adding).rejects.toThrow('not complete after 20 ms');
+  });
+
+  test('requires exactly one source', () => {
+    expect(() => seedr.addTorrent({})).toThrow();
+    expect(() =>
+      seedr.addTorrent({ torrent_magnet: MAGNET, torrent_url: 'url' })
+    ).toThrow();
+  });
+});
+
+describe('preflight', () => {
+  const TORRENT = encode({
+    info: { length: 2048, name: 'Movie', pieces: Buffer.alloc(20) },
+  });
+
+  test('parses the torrent and reports free space', async () => {
+    server.space_max = 4096;
+    server.addFile(server.addFolder('Other'), 'a.bin', 1024);
+    const check = await seedr.preflight({ torrent_file: TORRENT });
+    expect(check.info?.name).toBe('Movie');
+    expect(check.info?.size).toBe(2048);
+    expect(check.free).toBe(3072);
+    expect(check.fits).toBe(true);
+    expect(check.duplicates).toEqual([]);
+    server.space_max = 2048;
+    expect((await seedr.preflight({ torrent_file: TORRENT })).fits).toBe(false);
+    expect(
+      (await seedr.preflight({ torrent_magnet: MAGNET })).fits
+    ).toBeUndefined();
+  });
+
+  test('finds torrents, folders and wishlist items', async () => {
+    const torrent = server.addTorrent({
+      name: 'Example',
+      hash: '0123456789ABCDEF0123456789ABCDEF01234567',
+    });
+    const folder_id = server.addFolder('Example');
+    const wish = server.addWishlistItem({
+      title: 'Wish',
+      torrent_magnet: MAGNET,
+    });
+    const check = await seedr.preflight({ torrent_magnet: MAGNET });
+    expect(check.duplicates).toEqual([
+      {
+        type: 'torrent',
+        id: torrent,
+        name: 'Example',
+        hash: '0123456789ABCDEF0123456789ABCDEF01234567',
+      },
+      { type: 'folder', id: folder_id, name: 'Example' },
+      {
+        type: 'wishlist',
+        id: wish,
+        name: 'Wish',
+        hash: '0123456789abcdef0123456789abcdef01234567',
+      },
+    ]);
+    const fromWishlist = await seedr.preflight({ wishlist_id: wish });
+    expect(fromWishlist.info?.name).toBe('Wish');
+    expect(fromWishlist.duplicates.map((i) => i.type)).toEqual(['torrent']);
+  });
+
+  test('fetches torrent URLs without the client headers', async () => {
+    const headers: http.IncomingHttpHeaders[] = [];
+    const host = http.createServer((req, res) => {
+      headers.push(req.headers);
+      res.end(TORRENT);
+    });
+    await new Promise<void>((resolve) => host.listen(0, resolve));
+    try {
+      seedr = await createClient(server, undefined, {
+        headers: { 'x-client': 'seedr' },
+      });
+      const { port } = host.address() as AddressInfo;
+      const check = await seedr.preflight({
+        torrent_url: `http://127.0.0.1:${port}/movie.torrent`,
+      });
+      expect(check.info?.name).toBe('Movie');
+      expect(headers[0]?.['x-client']).toBeUndefined();
+    } finally {
+      await new Promise((resolve) => host.close(resolve));
+    }
+  });
+
+  test('addTorrent refuses duplicates and oversized torrents', async () => {
+    await seedr.addTorrent({ torrent_magnet: MAGNET });
+    const error = await seedr
+      .addTorrent({ torrent_magnet: MAGNET, preflight: 'refuse' })
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(DuplicateError);
+    expect(error.duplicates[0].type).toBe('torrent');
+    server.space_max = 1024;
+    await expect(
+      seedr.addTorrent({ torrent_file: TORRENT, preflight: 'refuse' })
+    ).rejects.toBeInstanceOf(QuotaError);
+    expect(server.torrents.size).toBe(1);
+  });
+
+  test('addTorrent dedupes', async () => {
+    const first = await seedr.addTorrent({
+      torrent_file: Readable.from([TORRENT]),
+      preflight: 'dedupe',
+    });
+    expect(first.result).toBe(true);
+    const second = await seedr.addTorrent({
+      torrent_file: TORRENT,
+      preflight: 'dedupe',
+    });
+    expect(second.result).toBe('duplicate');
+    expect(server.torrents.size).toBe(1);
+  });
+});
+
+describe('wishlist', () => {
+  test('getWishlist and clearWishlist', async () => {
+    server.addWishlistItem({ title: 'One', torrent_magnet: MAGNET });
+    server.addWishlistItem({ title: 'Two', torrent_magnet: MAGNET });
+    expect((await seedr.getWishlist()).map((i) => i.title)).toEqual([
+      'One',
+      'Two',
+    ]);
+    await seedr.clearWishlist();
+    expect(await seedr.getWishlist()).toEqual([]);
+  });
+
+  test('removeParked removes the wishlist item of a torrent not added', async () => {
+    server.space_max = 100;
+    const response = await seedr.addTorrent({
+      torrent_magnet: `${MAGNET}&xl=1000`,
+    });
+    expect(response.result).toBe('not_enough_space_added_to_wishlist');
+    expect((await seedr.removeParked(response))?.title).toBe('Example');
+    expect(server.wishlist.size).toBe(0);
+
+    // Found by hash when the response does not carry the item.
+    await seedr.addTorrent({ torrent_magnet: `${MAGNET}&xl=1000` });
+    const removed = await seedr.removeParked(
+      { result: 'not_enough_space_added_to_wishlist' },
+      parseMagnet(MAGNET)
+    );
+    expect(removed?.title).toBe('Example');
+    expect(server.wishlist.size).toBe(0);
+  });
+
+  function wish(title: string, size: number, hash: string, created?: string) {
+    const id = server.addWishlistItem({
+      title,
+      torrent_magnet: `magnet:?xt=urn:btih:${hash.repeat(40)}&dn=${title}`,
+      size,
+    });
+    if (created) server.wishlist.get(id)!.created = created;
+    return id;
+  }
+
+  test('filters and sorts the wishlist', async () => {
+    wish('A', 600, 'a', '2024-01-01 00:00:00');
+    wish('B', 300, 'b', '2024-03-01 00:00:00');
+    server.wishlist.get(
+      wish('C', 200, 'c', '2024-02-01 00:00:00')
+    )!.is_private = 1;
+    const titles = async (query: Parameters<typeof seedr.getWishlist>[0]) =>
+      (await seedr.getWishlist(query)).map((item) => item.title);
+    expect(await titles({ sort: 'size' })).toEqual(['C', 'B', 'A']);
+    expect(await titles({ sort: 'created', order: 'desc' })).toEqual([
+      'B',
+      'C',
+      'A',
+    ]);
+    expect(await titles({ is_private: false, minSize: 400 })).toEqual(['A']);
+    expect(await titles({ after: new Date('2024-01-15') })).toEqual(['B', 'C']);
+  });
+
+  test('promoteWishlist adds the items that fit, smallest first', async () => {
+    server.space_max = 1000;
+    wish('A', 600, 'a');
+    wish('B', 300, 'b');
+    wish('C', 200, 'c');
+    wish('D', 500, 'd');
+    const dryRun = await seedr.promoteWishlist({ dryRun: true });
+    expect(dryRun.promoted.map((item) => item.title)).toEqual(['C', 'B', 'D']);
+    expect(dryRun.free).toBe(0);
+    expect(server.wishlist.size).toBe(4);
+
+    const promotion = await seedr.promoteWishlist({ reserve: 100 });
+    expect(promotion.promoted.map((item) => item.title)).toEqual(['C', 'B']);
+    expect(promotion.remaining.map((item) => item.title)).toEqual(['A', 'D']);
+    expect(promotion.free).toBe(500);
+    expect([...server.torrents.values()].map((t) => t.name)).toEqual([
+      'C',
+      'B',
+    ]);
+  });
+
+  test('promoteWishlist stops when Seedr refuses an item', async () => {
+    wish('A', 100, 'a');
+    wish('B', 200, 'b');
+    server.failNext('add_torrent', 200, { result: 'queue_full' });
+    const promotion = await seedr.promoteWishlist({ order: 'created' });
+    expect(promotion.promoted).toEqual([]);
+    expect(server.wishlist.size).toBe(2);
+  });
+
+  test('dedupeWishlist keeps the oldest item of each hash', async () => {
+    wish('Copy', 100, 'a', '2024-02-01 00:00:00');
+    const original = wish('Original', 100, 'a', '2024-01-01 00:00:00');
+    wish('Other', 100, 'b');
+    const removed = await seedr.dedupeWishlist();
+    expect(removed.map((item) => item.title)).toEqual(['Copy']);
+    expect([...server.wishlist.keys()]).toContain(original);
+    expect(server.wishlist.size).toBe(2);
+  });
+
+  test('exports and imports magnet lists', async () => {
+    wish('A', 100, 'a');
+    const b = wish('B', 2000, 'b');
+    server.wishlist.get(b)!.torrent_magnet = '';
+    const exported = await seedr.exportWishlist({ sort: 'title' });
+    expect(exported).toBe(
+      `magnet:?xt=urn:btih:${'a'.repeat(40)}&dn=A\n` +
+        `magnet:?xt=urn:btih:${'b'.repeat(40)}&dn=B&xl=2000\n`
+    );
+
+    server.wishlist.clear();
+    server.space_max = 1000;
+    const results = await seedr.importWishlist(
+      `# Exported\n${exported}${exported}\nmagnet:?dn=invalid\n`
+    );
+    expect(results.map((result) => result.status)).toEqual([
+      'added',
+      'wishlisted',
+      'duplicate',
+      'duplicate',
+      'invalid',
+    ]);
+    expect(server.torrents.size).toBe(1);
+    expect(server.wishlist.size).toBe(1);
+  });
+});
+
+describe('scan', () => {
+  function scanned(
+    title: string,
+    hash: string,
+    pct: number,
+    extra: Partial<T.ScanTorrent> = {}
+  ): T.ScanTorrent {
+    return {
+      hash: hash.repeat(40),
+      magnet: `magnet:?xt=urn:btih:${hash.repeat(40)}&dn=${title}&xl=100`,
+      title,
+      is_private: false,
+      pct,
+      ...extra,
+    };
+  }
+
+  beforeEach(() => {
+    server.scanResults.set('https://a.example', [
+      scanned('Movie 1080p', 'a', 50, { size: 300 }),
+      scanned('Movie 720p', 'b', 90, { size: 200 }),
+      scanned('Private', 'c', 100, { is_private: true }),
+    ]);
+    server.scanResults.set('https://b.example', [
+      scanned('Movie 720p', 'b', 90),
+      scanned('Huge', 'd', 100, { filesizes: [600, 600] }),
+      scanned('Active', 'e', 80),
+    ]);
+  });
+
+  test('parseScanTree builds folders from file paths', () => {
+    const tree = parseScanTree(
+      scanned('Pack', 'a', 0, {
+        filenames: ['Pack/S01/e1.mkv', 'Pack/S01/e2.mkv', 'Pack/info.nfo'],
+        filesizes: [100, 200, 1],
+      })
+    );
+    expect(tree).toEqual({
+      name: 'Pack',
+      path: '',
+      size: 301,
+      children: [
+        {
+          name: 'Pack',
+          path: 'Pack',
+          size: 301,
+          children: [
+            {
+              name: 'S01',
+              path: 'Pack/S01',
+              size: 300,
+              children: [
+                { name: 'e1.mkv', path: 'Pack/S01/e1.mkv', size: 100 },
+                { name: 'e2.mkv', path: 'Pack/S01/e2.mkv', size: 200 },
+              ],
+            },
+            { name: 'info.nfo', path: 'Pack/info.nfo', size: 1 },
+          ],
+        },
+      ],
+    });
+  });
+
+  test('scanPages merges, filters and ranks results', async () => {
+    const all = await seedr.scanPages([
+      'https://a.example',
+      'https://b.example',
+    ]);
+    expect(all.map((result) => result.torrent.title)).toEqual([
+      'Movie 1080p',
+      'Movie 720p',
+      'Private',
+      'Huge',
+      'Active',
+    ]);
+    expect(all[3]).toMatchObject({ page: 'https://b.example', size: 1200 });
+
+    const selected = await seedr.scanPages(
+      ['https://a.example', 'https://b.example'],
+      { excludePrivate: true, maxSize: 1000, minPct: 60 }
+    );
+    expect(selected.map((result) => result.torrent.title)).toEqual([
+      'Movie 720p',
+      'Active',
+    ]);
+    const bySize = await seedr.scanPages('https://a.example', {
+      include: 'movie',
+      sort: 'size',
+      order: 'asc',
+      limit: 1,
+    });
+    expect(bySize.map((result) => result.torrent.title)).toEqual([
+      'Movie 720p',
+    ]);
+  });
+
+  test('addFromPages adds the selection and reports every torrent', async () => {
+    const active = server.addTorrent({ name: 'Active', hash: 'e'.repeat(40) });
+    const folder_id = server.addFolder('Movies');
+    const report = async (options: T.ScanAddOptions) =>
+      (
+        await seedr.addFromPages(['https://a.example', 'https://b.example'], {
+          folder_id,
+          ...options,
+        })
+      ).map((result) => [result.torrent.title, result.status]);
+
+    expect(
+      await report({ excludePrivate: true, maxSize: 1000, dryRun: true })
+    ).toEqual([
+      ['Movie 720p', 'selected'],
+      ['Active', 'duplicate'],
+      ['Movie 1080p', 'selected'],
+      ['Private', 'filtered'],
+      ['Huge', 'filtered'],
+    ]);
+    expect(server.torrents.size).toBe(1);
+
+    expect(await report({ include: /movie/i, limit: 1 })).toEqual([
+      ['Movie 720p', 'added'],
+      ['Movie 1080p', 'filtered'],
+      ['Private', 'filtered'],
+      ['Huge', 'filtered'],
+      ['Active', 'filtered'],
+    ]);
+    const list = await seedr.list('folder', folder_id);
+    expect(list.torrents.map((torrent) => torrent.name)).toEqual([
+      'Movie 720p',
+    ]);
+
+    server.failNext('add_torrent', 400, { error: 'invalid_request' });
+    const results = await seedr.addFromPages('https://a.example', {
+      folder_id,
+    });
+    expect(results.map((result) => result.status)).toEqual([
+      'failed',
+      'duplicate',
+      'added',
+    ]);
+    expect(results[1]?.duplicate).toMatchObject({ type: 'torrent' });
+    expect(results[0]?.error).toBeInstanceOf(SeedrAPIError);
+    expect(server.torrents.has(active)).toBe(true);
+  });
+});
+
+describe('rename', () => {
+  test('renameFolder and renameFile', async () => {
+    const folder_id = server.addFolder('Old');
+    const file = server.addFile(folder_id, 'old.mkv');
+    await seedr.renameFolder(folder_id, 'New');
+    await seedr.renameFile(file.folder_file_id, 'new.mkv');
+    expect(server.folders.get(folder_id)?.name).toBe('New');
+    expect(server.files.get(file.folder_file_id)?.name).toBe('new.mkv');
+  });
+});
+
+describe('delete', () => {
+  test('deletes folders, files and torrents', async () => {
+    const folder_id = server.addFolder('Movies');
+    const file = server.addFile(server.addFolder('Other'), 'file.txt');
+    const torrent_id = server.addTorrent({ name: 'Active' });
+    server.addFile(folder_id, 'movie.mkv');
+    await seedr.delete({
+      folder: [folder_id],
+      file: [file.folder_file_id],
+      torrent: [torrent_id],
+    });
+    expect([...server.folders.values()].map((i) => i.name)).toEqual([
+      '',
+      'Other',
+    ]);
+    expect(server.files.size).toBe(0);
+    expect(server.torrents.size).toBe(0);
+  });
+
+  test('deleteAll', async () => {
+    server.addFile(server.addFolder('Movies'), 'movie.mkv');
+    server.addTorrent({ name: 'Active' });
+    await seedr.deleteAll();
+    const root = await seedr.list();
+    expect(root.folders).toEqual([]);
+    expect(root.torrents).toEqual([]);
+  });
+});
+
+describe('organize', () => {
+  test('mkdirp creates missing parents', async () => {
+    const movies = server.addFolder('Movies');
+    const folder = await seedr.mkdirp('/Movies/2024/Action');
+    expect(folder.name).toBe('Action');
+    expect(await seedr.getPath(folder.id)).toBe('/Movies/2024/Action');
+    expect(server.folders.get(folder.id)?.parent).not.toBe(movies);
+    expect((await seedr.mkdirp('Movies/2024/Action/')).id).toBe(folder.id);
+    expect([...server.folders.values()].map((i) => i.name)).toEqual([
+      '',
+      'Movies',
+      '2024',
+      'Action',
+    ]);
+    server.addFile(movies, 'movie.mkv');
+    await expect(seedr.mkdirp('/Movies/movie.mkv/x')).rejects.toThrow(
+      'Not a folder'
+    );
+  });
+
+  test('mkdirp deletes the temporary folder when placing it fails', async () => {
+    server.addFolder('Movies');
+    server.failNext('move', 400, { error: 'invalid_request' });
+    await expect(seedr.mkdirp('/Movies/2024')).rejects.toThrow();
+    expect([...server.folders.values()].map((i) => i.name)).toEqual([
+      '',
+      'Movies',
+    ]);
+  });
+
+  test('move by ID or path', async () => {
+    const movies = server.addFolder('Movies');
+    const other = server.addFolder('Other');
+    const file = server.addFile(other, 'movie.mkv');
+    await seedr.move({ file: [file.folder_file_id] }, '/Movies');
+    await seedr.move({ folder: [other] }, movies);
+    const [moved] = (await seedr.list('folder', movies)).files;
+    expect(await seedr.getPath(moved!)).toBe('/Movies/movie.mkv');
+    expect(await seedr.getPath(other)).toBe('/Movies/Other');
+    await expect(
+      seedr.move({ folder: [movies] }, other)
+    ).rejects.toBeInstanceOf(SeedrAPIError);
+    await expect(
+      seedr.move({ folder: [other] }, '/Movies/movie.mkv')
+    ).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  test('bulkRename by pattern', async () => {
+    const movies = server.addFolder('Movies');
+    server.addFile(movies, 'Some.Movie.2024.1080p.WEB.mkv');
+    server.addFile(movies, 'Other.Movie.2023.720p.mkv');
+    server.addFolder('Some.Show.S01.1080p', movies);
+
+    const pattern = /\.(\d{4}|S\d{2})?\.?(720p|1080p).*?(\.mkv)?$/;
+    const changes = await seedr.bulkRename({
+      path: '/Movies',
+      pattern,
+      replacement: (_, year, __, ext = '') => (year ? ` (${year})` : '') + ext,
+      dryRun: true,
+    });
+    expect(changes.map((i) => [i.type, i.rename_to])).toEqual([
+      ['file', 'Some.Movie (2024).mkv'],
+      ['file', 'Other.Movie (2023).mkv'],
+      ['folder', 'Some.Show (S01)'],
+    ]);
+    expect([...server.files.values()][0]?.name).toBe(
+      'Some.Movie.2024.1080p.WEB.mkv'
+    );
+
+    await seedr.bulkRename({
+      path: '/Movies',
+      pattern: /\./g,
+      replacement: ' ',
+      types: ['folder'],
+    });
+    expect([...server.folders.values()].map((i) => i.name)).toContain(
+      'Some Show S01 1080p'
+    );
+    await expect(
+      seedr.bulkRename({
+        path: '/Movies',
+        pattern: /.*\.mkv$/,
+        replacement: 'movie.mkv',
+      })
+    ).rejects.toThrow('Rename conflict');
+  });
+});
+
+describe('query', () => {
+  beforeEach(() => {
+    const movies = server.addFolder('Movies');
+    const old = server.addFile(movies, 'Old Movie.mkv', 3000);
+    server.files.get(old.folder_file_id)!.last_update = '2020-01-01 00:00:00';
+    server.addFile(movies, 'New Movie.mp4', 2000);
+    server.addFile(movies, 'poster.jpg', 10);
+    const music = server.addFolder('Music');
+    server.addFile(music, 'song.mp3', 500);
+    server.addFile(server.addFolder('Live', music), 'concert.mkv', 1000);
+  });
+
+  const paths = (result: { files: { path: string }[] }) =>
+    result.files.map((i) => i.path);
+
+  test('filters the tree', async () => {
+    expect(paths(await seedr.query({ media: 'video' }))).toEqual([
+      '/Movies/New Movie.mp4',
+      '/Movies/Old Movie.mkv',
+      '/Music/Live/concert.mkv',
+    ]);
+    expect(
+      paths(await seedr.query({ extensions: ['.MKV'], path: '/Music' }))
+    ).toEqual(['/Music/Live/concert.mkv']);
+    expect(
+      paths(await seedr.query({ minSize: 500, maxSize: 2000, name: /^[a-z]/ }))
+    ).toEqual(['/Music/Live/concert.mkv', '/Music/song.mp3']);
+    expect(
+      paths(await seedr.query({ before: new Date('2021-01-01') }))
+    ).toEqual(['/Movies/Old Movie.mkv']);
+    expect(
+      paths(
+        await seedr.query({ after: new Date('2021-01-01'), media: 'audio' })
+      )
+    ).toEqual(['/Music/song.mp3']);
+  });
+
+  test('sorts and paginates', async () => {
+    const result = await seedr.query({
+      sort: 'size',
+      order: 'desc',
+      offset: 1,
+      limit: 2,
+    });
+    expect(paths(result)).toEqual([
+      '/Movies/New Movie.mp4',
+      '/Music/Live/concert.mkv',
+    ]);
+    expect(result.total).toBe(5);
+    expect(result.source).toBe('walk');
+  });
+
+  test('uses the server search and falls back to the tree', async () => {
+    const movie = await seedr.query({ text: 'movie', extensions: ['mkv'] });
+    expect(movie).toMatchObject({ total: 1, source: 'search' });
+    expect(paths(movie)).toEqual(['/Movies/Old Movie.mkv']);
+    expect(paths(await seedr.query({ text: 'live' }))).toEqual([
+      '/Music/Live/concert.mkv',
+    ]);
+
+    server.failNext('search_files', 500, { error: 'server_error' });
+    server.failNext('search_files', 500, { error: 'server_error' });
+    server.failNext('search_files', 500, { error: 'server_error' });
+    server.failNext('search_files', 500, { error: 'server_error' });
+    const fallback = await seedr.query({ text: 'SONG' });
+    expect(fallback.source).toBe('walk');
+    expect(paths(fallback)).toEqual(['/Music/song.mp3']);
+    expect(
+      await seedr.query({ text: 'song', source: 'search', media: 'video' })
+    ).toEqual({ files: [], total: 0, source: 'search' });
+  });
+});
+
+describe('streaming', () => {
+  test('getStream with preferred subtitles first', async () => {
+    server.settings.subtitles_language = 'fr';
+    const video = server.addFile(server.addFolder('Movies'), 'movie.mkv', 100);
+    server.addSubtitle(video.folder_file_id, { language: 'en', content: 'EN' });
+    const fr = server.addSubtitle(video.folder_file_id, {
+      language: 'FR',
+      title: 'Français',
+      content: '1\n00:00:01,000 --> 00:00:02,000\nBonjour',
+    });
+
+    const stream = await seedr.getStream(video);
+    expect(stream.hls).toEndWith(`/hls/${video.folder_file_id}/index.m3u8`);
+    expect(stream.thumb).toBe(video.thumb);
+    expect(stream.progress).toBe(0);
+    expect(stream.subtitles.map((i) => i.id)).toEqual([fr, fr - 1]);
+    expect(await seedr.fetchSubtitle(stream.subtitles[0]!)).toContain(
+      'Bonjour'
+    );
+    expect((await seedr.getThumbnail(video)).toString()).toBe(
+      `thumb:${video.folder_file_id}`
+    );
+  });
+
+  test('reads and saves playback progress', async () => {
+    const video = server.addFile(server.addFolder('Movies'), 'movie.mp4', 100);
+    await seedr.setVideoProgress(video.folder_file_id, 125.7);
+    expect(await seedr.getVideoProgress(video.folder_file_id)).toBe(125);
+    const [file] = (await seedr.list('folder', video.folder_id)).files;
+    expect(file?.video_progress).toBe('125');
+  });
+
+  test('rejects files that are not videos', async () => {
+    const file = server.addFile(server.addFolder('Docs'), 'notes.txt', 10);
+    await expect(seedr.getStream(file)).rejects.toBeInstanceOf(SeedrAPIError);
+    await expect(seedr.getThumbnail(file)).rejects.toBeInstanceOf(
+      NotFoundError
+    );
+  });
+});
+
+describe('cleanup', () => {
+  let old: number;
+  let recent: number;
+
+  beforeEach(() => {
+    old = server.addFolder('Old');
+    server.folders.get(old)!.last_update = '2020-01-01 00:00:00';
+    server.addFile(old, 'old.mkv', 300);
+    recent = server.addFolder('Recent');
+    server.addFile(recent, 'recent.mkv', 200);
+    server.addFile(recent, 'notes.txt', 10);
+  });
+
+  test('reports matching items in dry runs', async () => {
+    const report = await seedr.cleanup({
+      rules: [{ olderThanDays: 30 }, { match: '*.txt' }],
+      dryRun: true,
+    });
+    expect(report.items.map((i) => [i.path, i.rule])).toEqual([
+      ['/Old', 0],
+      ['/Recent/notes.txt', 1],
+    ]);
+    expect(report).toMatchObject({ dryRun: true, bytes: 310, batches: 0 });
+    expect(report.freeAfter - report.freeBefore).toBe(310);
+    expect(server.files.size).toBe(3);
+  });
+
+  test('deletes in batches', async () => {
+    const report = await seedr.cleanup({
+      rules: [{ largerThan: 100, match: /\.mkv$/ }],
+      batchSize: 1,
+    });
+    expect(report.items.map((i) => i.path)).toEqual([
+      '/Old/old.mkv',
+      '/Recent/recent.mkv',
+    ]);
+    expect(report.batches).toBe(2);
+    // Global patterns keep no state between items.
+    const global = await seedr.cleanup({
+      rules: [{ match: /\.txt$/g }],
+      dryRun: true,
+    });
+    expect(global.items.map((i) => i.path)).toEqual(['/Recent/notes.txt']);
+    expect([...server.files.values()].map((i) => i.name)).toEqual([
+      'notes.txt',
+    ]);
+  });
+
+  test('frees space from the least recently added items', async () => {
+    // Updated before Old, but added after it.
+    server.folders.get(recent)!.last_update = '2019-01-01 00:00:00';
+    const report = await seedr.cleanup({
+      freeSpace: server.space_max - server.space_used + 100,
+    });
+    expect(report.items.map((i) => i.path)).toEqual(['/Old']);
+    expect(server.folders.has(old)).toBe(false);
+    expect(server.folders.has(recent)).toBe(true);
+  });
+
+  test('refuses policies selecting everything', async () => {
+    await expect(seedr.cleanup({ dryRun: true })).rejects.toThrow(
+      'requires rules or freeSpace'
+    );
+    await expect(seedr.cleanup({ rules: [] })).rejects.toThrow(
+      'requires rules or freeSpace'
+    );
+    await expect(
+      seedr.cleanup({ rules: [{ match: '*.txt' }, {}] })
+    ).rejects.toThrow('rule 1 has no criteria');
+    expect(server.files.size).toBe(3);
+  });
+
+  test('only deletes items downloaded locally', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'seedr-cleanup-'));
+    try {
+      fs.mkdirSync(path.join(dir, 'Recent'));
+      fs.writeFileSync(
+        path.join(dir, 'Recent', 'recent.mkv'),
+        Buffer.alloc(200)
+      );
+      fs.writeFileSync(path.join(dir, 'Recent', 'notes.txt'), 'partial');
+      const report = await seedr.cleanup({
+        rules: [{ downloadedTo: dir }],
+        dryRun: true,
+      });
+      expect(report.items.map((i) => i.path)).toEqual(['/Recent/recent.mkv']);
+
+      fs.writeFileSync(path.join(dir, 'Recent', 'notes.txt'), Buffer.alloc(10));
+      const folder = await seedr.cleanup({
+        rules: [{ downloadedTo: dir }],
+        path: '/Recent',
+        dryRun: true,
+      });
+      expect(folder.items.map((i) => i.path)).toEqual([
+        '/Recent/recent.mkv',
+        '/Recent/notes.txt',
+      ]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('deletes folders after download', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'seedr-cleanup-'));
+    try {
+      const movies = server.addFolder('Movies');
+      const movie = server.addFolder('Movie', movies);
+      server.addFile(movie, 'movie.mkv', 100);
+      await seedr.download({ folder: movie }, dir);
+
+      const report = await seedr.cleanup({
+        rules: [{ downloadedTo: dir }],
+        path: '/Movies',
+      });
+      expect(report.items.map((i) => i.path)).toEqual(['/Movies/Movie']);
+      expect(server.folders.has(movie)).toBe(false);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('tree', () => {
+  let movies: number;
+  let year: number;
+
+  beforeEach(() => {
+    movies = server.addFolder('Movies');
+    year = server.addFolder('2024', movies);
+    server.addFile(year, 'foo.mkv', 100);
+    server.addFile(movies, 'readme.txt', 10);
+    server.addFile(server.addFolder('Music'), 'song.mp3', 20);
+  });
+
+  test('walk yields every folder and file depth-first', async () => {
+    const paths: string[] = [];
+    for await (const entry of seedr.walk()) paths.push(entry.path);
+    expect(paths).toEqual([
+      '/Movies',
+      '/Movies/readme.txt',
+      '/Movies/2024',
+      '/Movies/2024/foo.mkv',
+      '/Music',
+      '/Music/song.mp3',
+    ]);
+  });
+
+  test('walk respects maxDepth and start folder', async () => {
+    const shallow: string[] = [];
+    for await (const entry of seedr.walk({ maxDepth: 0 })) {
+      shallow.push(entry.path);
+    }
+    expect(shallow).toEqual(['/Movies', '/Music']);
+
+    const nested: string[] = [];
+    for await (const entry of seedr.walk({ path: '/Movies', concurrency: 1 })) {
+      nested.push(entry.path);
+    }
+    expect(nested).toEqual([
+      '/Movies/readme.txt',
+      '/Movies/2024',
+      '/Movies/2024/foo.mkv',
+    ]);
+
+    const byId: string[] = [];
+    for await (const entry of seedr.walk({ folder_id: year })) {
+      byId.push(entry.path);
+    }
+    expect(byId).toEqual(['/Movies/2024/foo.mkv']);
+  });
+
+  test('resolvePath', async () => {
+    const file = await seedr.resolvePath('/Movies/2024/foo.mkv');
+    expect(file.type).toBe('file');
+    expect(file.id).toBe(server.files.get(file.id)!.folder_file_id);
+
+    const folder = await seedr.resolvePath('Movies/2024/');
+    expect(folder).toMatchObject({
+      type: 'folder',
+      id: year,
+      path: '/Movies/2024',
+    });
+
+    expect((await seedr.resolvePath('/')).id).toBe(1);
+    await expect(seedr.resolvePath('/Movies/missing')).rejects.toBeInstanceOf(
+      NotFoundError
+    );
+  });
+
+  test('getPath', async () => {
+    expect(await seedr.getPath(year)).toBe('/Movies/2024');
+    const { files } = await seedr.list('folder', year);
+    expect(await seedr.getPath(files[0]!)).toBe('/Movies/2024/foo.mkv');
+    expect(await seedr.getPath(1)).toBe('/');
+  });
+});
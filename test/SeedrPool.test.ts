@@ -0,0 +1,170 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+
+import { MockServer } from '../src/MockServer';
+import { SeedrPool } from '../src/SeedrPool';
+import { AuthError, QuotaError, UnexpectedResponseError } from '../src/Errors';
+import { NoPersistence } from '../src/State';
+import * as T from '../src/types';
+import { magnet } from './helpers';
+
+/**
+ * Creates a pool over `servers` by name, logging in every account.
+ */
+async function createPool(
+  servers: Record<string, MockServer>,
+  options?: T.SeedrPoolOptions
+): Promise<SeedrPool> {
+  const pool = new SeedrPool(
+    Object.entries(servers).map(([name, server]) => ({
+      name,
+      store: new NoPersistence(),
+      options: { baseUrl: server.url, retry: { delay: 1, limit: 0 } },
+    })),
+    options
+  );
+  for (const [name, server] of Object.entries(servers)) {
+    await pool.get(name).auth.loginOAuth(server.username, server.password);
+  }
+  return pool;
+}
+
+describe('SeedrPool', () => {
+  let small: MockServer;
+  let large: MockServer;
+  let pool: SeedrPool;
+
+  beforeEach(async () => {
+    small = new MockServer({ space_max: 1000 });
+    large = new MockServer({ space_max: 3000 });
+    await small.start();
+    await large.start();
+    pool = await createPool({ small, large });
+  });
+
+  afterEach(async () => {
+    await small.stop();
+    await large.stop();
+  });
+
+  test('adds torrents to the account with the most free space', async () => {
+    const first = await pool.addTorrent({
+      torrent_magnet: magnet('First', 'a', 2500),
+    });
+    expect(first).toMatchObject({ result: true, account: 'large' });
+
+    // 500 bytes left on large, small has the most free space.
+    const second = await pool.addTorrent({
+      torrent_magnet: magnet('Second', 'b', 400),
+      path: 'Movies',
+    });
+    expect(second.account).toBe('small');
+    const movies = [...small.folders.values()].find(
+      (folder) => folder.name == 'Movies'
+    );
+    expect([...small.torrents.values()][0]?.folder_id).toBe(movies!.id);
+
+    await expect(
+      pool.addTorrent({ torrent_magnet: magnet('Huge', 'c', 2000) })
+    ).rejects.toThrow(QuotaError);
+    expect(small.wishlist.size + large.wishlist.size).toBe(0);
+  });
+
+  test('tries the next account when Seedr wishlists the torrent', async () => {
+    // Usage is out of date: large fills up between getUsage and the add.
+    large.addFile(1, 'big.bin', 2800);
+    const original = pool.usage.bind(pool);
+    pool.usage = async () =>
+      (await original()).map((usage) =>
+        usage.account == 'large' ? { ...usage, space_used: 0 } : usage
+      );
+    const response = await pool.addTorrent({
+      torrent_magnet: magnet('Movie', 'd', 600),
+      path: 'Movies/2024',
+    });
+    expect(response.account).toBe('small');
+    expect(large.wishlist.size).toBe(0);
+    // Folders created on large for the refused add are removed.
+    const names = (server: MockServer) =>
+      [...server.folders.values()].map((f) => f.name).filter(Boolean);
+    expect(names(large)).toEqual([]);
+    expect(names(small)).toEqual(['Movies', '2024']);
+  });
+
+  test('tries the next account when one fails while adding', async () => {
+    large.failNext('add_torrent', 403, { error: 'access_denied' });
+    const response = await pool.addTorrent({
+      torrent_magnet: magnet('Movie', 'f', 100),
+    });
+    expect(response.account).toBe('small');
+    expect(pool.accounts[1]).toMatchObject({ name: 'large', active: false });
+  });
+
+  test('surfaces torrents refused for other reasons than space', async () => {
+    large.failNext('add_torrent', 200, { result: 'invalid_torrent' });
+    await expect(
+      pool.addTorrent({ torrent_magnet: magnet('Movie', 'g', 100) })
+    ).rejects.toThrow(UnexpectedResponseError);
+    expect(small.torrents.size).toBe(0);
+  });
+
+  test('aggregates listings and routes operations to the owning account', async () => {
+    small.addFile(1, 'a.mkv', 10);
+    large.addFile(1, 'b.mkv', 20);
+    large.addFolder('Shows');
+
+    const listing = await pool.list();
+    expect(
+      listing.files.map((file) => `${file.account}:${file.name}`).sort()
+    ).toEqual(['large:b.mkv', 'small:a.mkv']);
+    const folder = listing.folders[0]!;
+    expect(folder).toMatchObject({ name: 'Shows', account: 'large' });
+    expect((await pool.list(folder)).folders).toEqual([]);
+
+    const found = await pool.searchFiles('mkv');
+    const file = found.files.find((file) => file.account == 'small')!;
+    const fetched = await pool.fetchFile(file);
+    expect(fetched.account).toBe('small');
+    expect(fetched.url).toStartWith(small.url);
+
+    await pool.delete({ file: listing.files, folder: [folder] });
+    expect(small.files.size + large.files.size).toBe(0);
+    expect([...large.folders.values()].map((f) => f.name)).not.toContain(
+      'Shows'
+    );
+  });
+
+  test('takes failing accounts out of rotation', async () => {
+    const disabled: string[] = [];
+    const enabled: string[] = [];
+    pool.on('disabled', (name) => disabled.push(name));
+    pool.on('enabled', (name) => enabled.push(name));
+
+    small.failNext('get_memory_bandwidth', 403, { error: 'access_denied' });
+    const usage = await pool.usage();
+    expect(usage.map((usage) => usage.account)).toEqual(['large']);
+    expect(disabled).toEqual(['small']);
+    expect(pool.accounts[0]).toMatchObject({ name: 'small', active: false });
+    expect(pool.accounts[0]!.error).toBeInstanceOf(AuthError);
+
+    // Only large is in rotation, even with more space on small.
+    large.addFile(1, 'big.bin', 2900);
+    await expect(
+      pool.addTorrent({ torrent_magnet: magnet('Movie', 'e', 500) })
+    ).rejects.toThrow(QuotaError);
+
+    pool.enable('small');
+    expect(enabled).toEqual(['small']);
+    expect(
+      await pool.addTorrent({ torrent_magnet: magnet('Movie', 'e', 500) })
+    ).toMatchObject({ account: 'small' });
+  });
+
+  test('puts accounts back after their cooldown', async () => {
+    pool = await createPool({ small, large }, { cooldown: 20 });
+    small.failNext('get_memory_bandwidth', 503, { error: 'unavailable' });
+    expect(await pool.usage()).toHaveLength(1);
+    expect(pool.accounts[0]!.active).toBe(false);
+    await Bun.sleep(30);
+    expect(await pool.usage()).toHaveLength(2);
+  });
+});
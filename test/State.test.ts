@@ -0,0 +1,189 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+
+import {
+  EncryptedFilePersistence,
+  EnvPersistence,
+  FilePersistence,
+  KeyValuePersistence,
+} from '../src/State';
+import { MockServer } from '../src/MockServer';
+import { SeedrExtended } from '../src/SeedrExtended';
+import * as T from '../src/types';
+
+const STATE: T.AuthState = {
+  access: { token: 'access', expiry: 1 },
+  credential: { username: 'user@example.com', password: 'secret' },
+};
+
+let dir: string;
+let file: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'seedr-state-'));
+  file = path.join(dir, 'auth_state.json');
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('EncryptedFilePersistence', () => {
+  test('round trips without plain text on disk', () => {
+    new EncryptedFilePersistence(file, 'passphrase').save(STATE);
+    const raw = fs.readFileSync(file, 'utf-8');
+    expect(raw).not.toContain('secret');
+    expect(raw).not.toContain('user@example.com');
+    expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+    expect(new EncryptedFilePersistence(file, 'passphrase').load()).toEqual(
+      STATE
+    );
+    expect(fs.readdirSync(dir)).toEqual(['auth_state.json']);
+  });
+
+  test('accepts a raw 32 byte key', () => {
+    const key = crypto.randomBytes(32);
+    new EncryptedFilePersistence(file, key).save(STATE);
+    expect(new EncryptedFilePersistence(file, key).load()).toEqual(STATE);
+    expect(() => new EncryptedFilePersistence(file, Buffer.alloc(16))).toThrow(
+      '32 bytes'
+    );
+  });
+
+  test('rejects a wrong key or tampered file', () => {
+    new EncryptedFilePersistence(file, 'passphrase').save(STATE);
+    expect(() => new EncryptedFilePersistence(file, 'wrong').load()).toThrow(
+      'Unable to decrypt'
+    );
+    const contents = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    contents.data = Buffer.from('tampered').toString('base64');
+    fs.writeFileSync(file, JSON.stringify(contents));
+    expect(() =>
+      new EncryptedFilePersistence(file, 'passphrase').load()
+    ).toThrow('Unable to decrypt');
+  });
+
+  test('migrates a plain-JSON file on request only', () => {
+    new FilePersistence(file).save(STATE);
+    expect(() =>
+      new EncryptedFilePersistence(file, 'passphrase').load()
+    ).toThrow('not encrypted');
+    expect(fs.readFileSync(file, 'utf-8')).toContain('secret');
+
+    const store = EncryptedFilePersistence.migrate(file, 'passphrase');
+    expect(store.load()).toEqual(STATE);
+    expect(fs.readFileSync(file, 'utf-8')).not.toContain('secret');
+    expect(() => EncryptedFilePersistence.migrate(file, 'passphrase')).toThrow(
+      'already encrypted'
+    );
+    expect(new EncryptedFilePersistence(file, 'passphrase').load()).toEqual(
+      STATE
+    );
+  });
+
+  test('persists a login', async () => {
+    const server = new MockServer();
+    await server.start();
+    try {
+      const seedr = new SeedrExtended(
+        new EncryptedFilePersistence(file, 'passphrase'),
+        { baseUrl: server.url }
+      );
+      await seedr.auth.loginOAuth(server.username, server.password, true);
+      const state = new EncryptedFilePersistence(file, 'passphrase').load();
+      expect(state.access?.token).toBeString();
+      expect(state.credential?.password).toBe(server.password);
+    } finally {
+      await server.stop();
+    }
+  });
+});
+
+describe('FilePersistence', () => {
+  test('lock runs callers one at a time', async () => {
+    const store = new FilePersistence(file);
+    const order: string[] = [];
+    const task = (name: string) =>
+      store.lock(async () => {
+        order.push(`${name}:start`);
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        order.push(`${name}:end`);
+      });
+    await Promise.all([task('a'), task('b')]);
+    expect(order).toEqual(['a:start', 'a:end', 'b:start', 'b:end']);
+    expect(fs.existsSync(`${file}.lock`)).toBe(false);
+  });
+
+  test('lock takes over a stale lock file', async () => {
+    fs.writeFileSync(`${file}.lock`, '');
+    const past = new Date(Date.now() - 60000);
+    fs.utimesSync(`${file}.lock`, past, past);
+    expect(await new FilePersistence(file).lock(async () => 'done')).toBe(
+      'done'
+    );
+  });
+});
+
+describe('EnvPersistence', () => {
+  test('reads a JSON state', () => {
+    const store = new EnvPersistence({
+      SEEDR_AUTH_STATE: JSON.stringify(STATE),
+    });
+    expect(store.load()).toEqual(STATE);
+  });
+
+  test('reads individual variables', () => {
+    const state = new EnvPersistence(
+      {
+        APP_REFRESH_TOKEN: 'refresh',
+        APP_DEVICE_CODE: 'device',
+        APP_USERNAME: 'user',
+        APP_PASSWORD: 'pass',
+      },
+      'APP_'
+    ).load();
+    expect(state.refresh).toEqual({ token: 'refresh' });
+    expect(state.xbmc?.device_code).toBe('device');
+    expect(state.xbmc?.expiry).toBeUndefined();
+    expect(state.credential).toEqual({ username: 'user', password: 'pass' });
+    expect(state.access).toBeUndefined();
+  });
+
+  test('keeps saved changes in memory only', () => {
+    const env = { SEEDR_ACCESS_TOKEN: 'access' };
+    const store = new EnvPersistence(env);
+    expect(store.load().access?.expiry).toBe(Infinity);
+    store.save(STATE);
+    expect(store.load()).toEqual(STATE);
+    expect(env).toEqual({ SEEDR_ACCESS_TOKEN: 'access' });
+  });
+});
+
+describe('KeyValuePersistence', () => {
+  test('stores JSON under the key', async () => {
+    const map = new Map<string, string>();
+    const store = new KeyValuePersistence(map, 'auth');
+    expect(await store.load()).toEqual({});
+    await store.save(STATE);
+    expect(JSON.parse(map.get('auth')!)).toEqual(STATE);
+    expect(await new KeyValuePersistence(map, 'auth').load()).toEqual(STATE);
+  });
+
+  test('awaits async stores', async () => {
+    const data: Record<string, string> = {};
+    const store = new KeyValuePersistence({
+      get: async (key) => data[key] ?? null,
+      set: async (key, value) => {
+        data[key] = value;
+        return 'OK';
+      },
+    });
+    await store.save(STATE);
+    expect(Object.keys(data)).toEqual(['seedr-js:auth_state']);
+    expect(await store.load()).toEqual(STATE);
+  });
+});
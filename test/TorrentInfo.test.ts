@@ -0,0 +1,141 @@
+import { describe, test, expect } from 'bun:test';
+
+import crypto from 'crypto';
+
+import { decode, encode } from '../src/Bencode';
+import { parseMagnet, parseTorrentFile } from '../src/TorrentInfo';
+
+const HASH = '0123456789abcdef0123456789abcdef01234567';
+
+describe('bencode', () => {
+  test('round trips values', () => {
+    const value = {
+      int: -42,
+      list: [Buffer.from('a'), 0, [Buffer.from('nested')]],
+      str: Buffer.from('spam'),
+    };
+    const encoded = encode(value);
+    expect(encoded.toString()).toBe(
+      'd3:inti-42e4:listl1:ai0el6:nestedee3:str4:spame'
+    );
+    expect(decode(encoded)).toEqual(value);
+  });
+
+  test('rejects invalid data', () => {
+    expect(() => decode(Buffer.from('i01e'))).toThrow('bad integer');
+    expect(() => decode(Buffer.from('5:abc'))).toThrow('bad string');
+    expect(() => decode(Buffer.from('l1:a'))).toThrow('unexpected end');
+    expect(() => decode(Buffer.from('i1ei2e'))).toThrow('trailing data');
+  });
+});
+
+describe('parseTorrentFile', () => {
+  test('single file v1 torrent', () => {
+    const info = { length: 1024, name: 'movie.mkv', pieces: Buffer.alloc(20) };
+    const parsed = parseTorrentFile(
+      encode({ announce: 'udp://tracker', info })
+    );
+    expect(parsed).toEqual({
+      source: 'file',
+      infoHash: crypto.createHash('sha1').update(encode(info)).digest('hex'),
+      infoHashV2: undefined,
+      name: 'movie.mkv',
+      files: [{ path: 'movie.mkv', size: 1024 }],
+      size: 1024,
+      trackers: ['udp://tracker'],
+    });
+  });
+
+  test('hashes the info dictionary as received', () => {
+    // Keys out of order, re-encoding would change the hash.
+    const raw = Buffer.from('d4:infod4:name1:a6:lengthi1eee');
+    const hash = crypto
+      .createHash('sha1')
+      .update('d4:name1:a6:lengthi1ee')
+      .digest('hex');
+    expect(parseTorrentFile(raw).infoHash).toBe(hash);
+  });
+
+  test('multi file torrent with trackers and padding', () => {
+    const parsed = parseTorrentFile(
+      encode({
+        announce: 'http://a',
+        'announce-list': [['http://a', 'http://b'], ['http://c']],
+        info: {
+          name: 'Show',
+          pieces: Buffer.alloc(20),
+          files: [
+            { length: 10, path: ['S01', 'E01.mkv'] },
+            { length: 6, path: ['.pad', '6'], attr: 'p' },
+            { length: 20, path: ['S01', 'E02.mkv'] },
+          ],
+        },
+      })
+    );
+    expect(parsed.files).toEqual([
+      { path: 'Show/S01/E01.mkv', size: 10 },
+      { path: 'Show/S01/E02.mkv', size: 20 },
+    ]);
+    expect(parsed.size).toBe(30);
+    expect(parsed.trackers).toEqual(['http://a', 'http://b', 'http://c']);
+  });
+
+  test('v2 torrent', () => {
+    const info = {
+      'file tree': {
+        'a.txt': { '': { length: 5 } },
+        dir: { 'b.txt': { '': { length: 7 } } },
+      },
+      'meta version': 2,
+      name: 'v2',
+    };
+    const parsed = parseTorrentFile(encode({ info }));
+    expect(parsed.infoHash).toBeUndefined();
+    expect(parsed.infoHashV2).toBe(
+      crypto.createHash('sha256').update(encode(info)).digest('hex')
+    );
+    expect(parsed.files).toEqual([
+      { path: 'v2/a.txt', size: 5 },
+      { path: 'v2/dir/b.txt', size: 7 },
+    ]);
+  });
+
+  test('rejects data without info', () => {
+    expect(() => parseTorrentFile(encode({ announce: 'x' }))).toThrow(
+      'missing info'
+    );
+  });
+});
+
+describe('parseMagnet', () => {
+  test('hex and base32 info hashes', () => {
+    const parsed = parseMagnet(
+      `magnet:?xt=urn:btih:${HASH.toUpperCase()}&dn=Example&xl=1024&tr=udp%3A%2F%2Fa&tr=udp%3A%2F%2Fb`
+    );
+    expect(parsed).toEqual({
+      source: 'magnet',
+      infoHash: HASH,
+      infoHashV2: undefined,
+      name: 'Example',
+      files: [],
+      size: 1024,
+      trackers: ['udp://a', 'udp://b'],
+    });
+    expect(
+      parseMagnet('magnet:?xt=urn:btih:AERUKZ4JVPG66AJDIVTYTK6N54ASGRLH')
+        .infoHash
+    ).toBe(HASH);
+  });
+
+  test('v2 multihash', () => {
+    const v2 = 'ab'.repeat(32);
+    const parsed = parseMagnet(`magnet:?xt=urn:btmh:1220${v2}`);
+    expect(parsed.infoHashV2).toBe(v2);
+    expect(parsed.infoHash).toBeUndefined();
+  });
+
+  test('rejects URIs without info hash', () => {
+    expect(() => parseMagnet('https://example.com')).toThrow();
+    expect(() => parseMagnet('magnet:?dn=Example')).toThrow('info hash');
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { MockServer } from '../src/MockServer';
+import { SeedrExtended } from '../src/SeedrExtended';
+import { TorrentQueue } from '../src/TorrentQueue';
+import { FileQueuePersistence } from '../src/State';
+import { encode } from '../src/Bencode';
+import * as T from '../src/types';
+import { createClient, magnet } from './helpers';
+
+let server: MockServer;
+let seedr: SeedrExtended;
+let queue: TorrentQueue;
+
+beforeEach(async () => {
+  server = new MockServer({ space_max: 1000 });
+  await server.start();
+  seedr = await createClient(server);
+  queue = new TorrentQueue(seedr, { watcher: { interval: 10 } });
+});
+
+afterEach(async () => {
+  queue.stop();
+  await server.stop();
+});
+
+describe('add', () => {
+  test('parses names and sizes of magnets and files', async () => {
+    const queued: T.QueueItem[] = [];
+    queue.on('queued', (item) => queued.push(item));
+    const item = await queue.add({ torrent_magnet: magnet('A', 'a', 600) });
+    expect(item).toMatchObject({ name: 'A', size: 600, status: 'pending' });
+
+    const file = encode({
+      info: { name: 'B', length: 300, 'piece length': 16384, pieces: '' },
+    });
+    const uploaded = await queue.add({ torrent_file: file, priority: 1 });
+    expect(uploaded).toMatchObject({ name: 'B', size: 300, priority: 1 });
+    expect(queued).toEqual([item, uploaded]);
+    expect((await queue.list()).map((i) => i.name)).toEqual(['B', 'A']);
+  });
+
+  test('requires exactly one torrent', async () => {
+    await expect(queue.add({})).rejects.toThrow('Exactly one');
+  });
+});
+
+describe('process', () => {
+  test('waits for space before submitting the next torrent', async () => {
+    const submitted: string[] = [];
+    queue.on('submitted', (item) => submitted.push(item.name!));
+    await queue.add({ torrent_magnet: magnet('A', 'a', 600) });
+    await queue.add({ torrent_magnet: magnet('B', 'b', 600) });
+    const completed = new Promise<[T.QueueItem, T.Folder]>((resolve) =>
+      queue.once('completed', (item, folder) => resolve([item, folder]))
+    );
+
+    await queue.process();
+    expect(submitted).toEqual(['A']);
+    await queue.process();
+    expect(submitted).toEqual(['A']);
+    expect(server.wishlist.size).toBe(0);
+
+    const [torrent] = server.torrents.keys();
+    const folder_id = server.completeTorrent(torrent!);
+    const [item, folder] = await completed;
+    expect(item.name).toBe('A');
+    expect(folder.id).toBe(folder_id);
+
+    // The completed folder still takes space.
+    await queue.process();
+    expect(submitted).toEqual(['A']);
+    server.folders.delete(folder_id);
+    for (const [id, file] of server.files) {
+      if (file.folder_id == folder_id) server.files.delete(id);
+    }
+    await queue.process();
+    expect(submitted).toEqual(['A', 'B']);
+  });
+
+  test('moves uploads into their folder once complete', async () => {
+    const folder_id = server.addFolder('Target');
+    const file = encode({
+      info: { name: 'B', length: 300, 'piece length': 16384, pieces: '' },
+    });
+    await queue.add({ torrent_file: file, filename: 'B.torrent', folder_id });
+    const completed = new Promise<T.Folder>((resolve) =>
+      queue.once('completed', (item, folder) => resolve(folder))
+    );
+    queue.start();
+    while (!server.torrents.size) await Bun.sleep(1);
+    const [torrent] = server.torrents.keys();
+    const folder = server.completeTorrent(torrent!);
+    expect((await completed).id).toBe(folder);
+    expect(server.folders.get(folder)?.parent).toBe(folder_id);
+  });
+
+  test('submits several torrents up to maxActive', async () => {
+    queue = new TorrentQueue(seedr, { maxActive: 2, reserve: 100 });
+    await queue.add({ torrent_magnet: magnet('A', 'a', 300) });
+    await queue.add({ torrent_magnet: magnet('B', 'b', 300) });
+    await queue.add({ torrent_magnet: magnet('C', 'c', 100) });
+    await queue.process();
+    const items = await queue.list();
+    expect(items.map((i) => [i.name, i.status])).toEqual([
+      ['A', 'submitted'],
+      ['B', 'submitted'],
+      ['C', 'pending'],
+    ]);
+  });
+
+  test('takes back torrents parked in the wishlist', async () => {
+    // Smaller than the actual torrent, which does not fit.
+    await queue.add({ torrent_magnet: magnet('A', 'a', 600), size: 100 });
+    server.addFile(server.addFolder('Used'), 'used.bin', 500);
+    await queue.process();
+    expect(server.wishlist.size).toBe(0);
+    expect((await queue.list())[0]?.status).toBe('pending');
+    expect(server.torrents.size).toBe(0);
+  });
+
+  test('fails items after maxAttempts', async () => {
+    queue = new TorrentQueue(seedr, { maxAttempts: 2 });
+    const failed: Error[] = [];
+    queue.on('failed', (_, error) => failed.push(error));
+    await queue.add({ torrent_magnet: magnet('A', 'a', 100) });
+    server.failNext('add_torrent', 400, { error: 'invalid_request' });
+    await queue.process();
+    expect((await queue.list())[0]?.attempts).toBe(1);
+    server.failNext('add_torrent', 400, { error: 'invalid_request' });
+    await queue.process();
+    expect(failed).toHaveLength(1);
+    expect(await queue.list()).toEqual([]);
+  });
+});
+
+describe('FileQueuePersistence', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'seedr-queue-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('resumes queued and submitted items', async () => {
+    const store = new FileQueuePersistence(path.join(dir, 'queue.json'));
+    queue = new TorrentQueue(seedr, { store });
+    await queue.add({ torrent_magnet: magnet('A', 'a', 100) });
+    await queue.add({ torrent_magnet: magnet('B', 'b', 100) });
+    await queue.process();
+    queue.stop();
+
+    const resumed = new TorrentQueue(seedr, {
+      store,
+      watcher: { interval: 10 },
+    });
+    expect((await resumed.list()).map((i) => i.status)).toEqual([
+      'submitted',
+      'pending',
+    ]);
+    const completed = new Promise<T.QueueItem>((resolve) =>
+      resumed.once('completed', resolve)
+    );
+    await resumed.process();
+    server.completeTorrent([...server.torrents.keys()][0]!);
+    expect((await completed).name).toBe('A');
+    resumed.stop();
+    expect(store.load().map((i) => i.name)).toEqual(['B']);
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+
+import { AuthError, NotFoundError, SeedrAPIError } from '../src/Errors';
+import { MockServer } from '../src/MockServer';
+import { SeedrExtended } from '../src/SeedrExtended';
+import { TorrentWatcher, parseTorrent } from '../src/TorrentWatcher';
+import * as T from '../src/types';
+import { added, createClient } from './helpers';
+
+const MAGNET =
+  'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567&dn=Example&xl=1024';
+
+let server: MockServer;
+let seedr: SeedrExtended;
+let watcher: TorrentWatcher;
+
+beforeEach(async () => {
+  server = new MockServer();
+  await server.start();
+  seedr = await createClient(server);
+  watcher = new TorrentWatcher(seedr, { interval: 10, stallTimeout: 0 });
+});
+
+afterEach(async () => {
+  watcher.stop();
+  await server.stop();
+});
+
+describe('parseTorrent', () => {
+  test('parses numeric fields', async () => {
+    const id = server.addTorrent({ name: 'Example', size: 100 });
+    server.updateTorrent(id, {
+      progress: '45.5',
+      download_rate: '2048',
+      seeders: '3',
+      stopped: 0,
+    });
+    const [torrent] = (await seedr.list()).torrents;
+    expect(parseTorrent(torrent!)).toMatchObject({
+      id,
+      progress: 45.5,
+      download_rate: 2048,
+      seeders: 3,
+      stopped: false,
+    });
+  });
+});
+
+describe('events', () => {
+  test('emits progress, stalled and warning', async () => {
+    const id = server.addTorrent({ name: 'Example' });
+    const events: string[] = [];
+    watcher.on('progress', (s) => events.push(`progress ${s.progress}`));
+    watcher.on('stalled', (s) => events.push(`stalled ${s.progress}`));
+    watcher.on('warning', (_, w) => events.push(`warning ${w}`));
+
+    await watcher.poll();
+    server.updateTorrent(id, { progress: '50', warnings: 'No seeders' });
+    await watcher.poll();
+    await watcher.poll();
+    expect(events).toEqual([
+      'progress 0',
+      'progress 50',
+      'warning No seeders',
+      'stalled 50',
+    ]);
+  });
+
+  test('emits completed with the resulting folder', async () => {
+    const id = server.addTorrent({ name: 'Example' });
+    const completed: [T.TorrentStatus, T.Folder][] = [];
+    watcher.on('completed', (...args) => completed.push(args));
+    await watcher.poll();
+    const folder_id = server.completeTorrent(id);
+    await watcher.poll();
+    expect(completed).toHaveLength(1);
+    expect(completed[0]![0]).toMatchObject({ id, progress: 100 });
+    expect(completed[0]![1].id).toBe(folder_id);
+  });
+
+  test('emits removed and failed', async () => {
+    const removed = server.addTorrent({ name: 'Removed' });
+    const stopped = server.addTorrent({ name: 'Stopped' });
+    const events: string[] = [];
+    watcher.on('removed', (s) => events.push(`removed ${s.name}`));
+    watcher.on('failed', (s) => events.push(`failed ${s.name}`));
+    await watcher.poll();
+    server.torrents.delete(removed);
+    server.updateTorrent(stopped, { stopped: 1, progress: '10' });
+    await watcher.poll();
+    expect(events).toEqual(['failed Stopped', 'removed Removed']);
+  });
+});
+
+describe('awaitTorrent', () => {
+  test('resolves once the torrent completes', async () => {
+    const response = added(await seedr.addTorrentMagnet(MAGNET));
+    const promise = watcher.awaitTorrent(response);
+    await watcher.poll();
+    const folder_id = server.completeTorrent(response.user_torrent_id);
+    expect((await promise).id).toBe(folder_id);
+  });
+
+  test('resolves torrents completed before the first poll', async () => {
+    const folder_id = server.addFolder('Target');
+    const response = added(await seedr.addTorrentMagnet(MAGNET, folder_id));
+    const completed = server.completeTorrent(response.user_torrent_id);
+    const folder = await seedr.awaitTorrent(response, {
+      folder_id,
+      interval: 10,
+    });
+    expect(folder.id).toBe(completed);
+  });
+
+  test('resolves torrents awaited by ID completed before the first poll', async () => {
+    const response = added(await seedr.addTorrentMagnet(MAGNET));
+    const promise = watcher.awaitTorrent(response.user_torrent_id);
+    const completed = server.completeTorrent(response.user_torrent_id);
+    expect((await promise).id).toBe(completed);
+  });
+
+  test('rejects torrents awaited by an unknown ID', async () => {
+    const folder = server.folders.get(server.addFolder('Unrelated'))!;
+    folder.last_update = '2020-01-01 00:00:00';
+    const removed: T.TorrentStatus[] = [];
+    watcher.on('removed', (status) => removed.push(status));
+    await expect(watcher.awaitTorrent(12345)).rejects.toBeInstanceOf(
+      NotFoundError
+    );
+    expect(removed.map((status) => status.id)).toEqual([12345]);
+  });
+
+  test('rejects after consecutive failed polls', async () => {
+    watcher = new TorrentWatcher(seedr, { interval: 1, maxPollErrors: 2 });
+    const errors: unknown[] = [];
+    watcher.on('error', (e) => errors.push(e));
+    const id = server.addTorrent({ name: 'Example' });
+    server.failNext('list_contents', 403, { error: 'access_denied' });
+    server.failNext('list_contents', 403, { error: 'access_denied' });
+    await expect(watcher.awaitTorrent(id)).rejects.toBeInstanceOf(AuthError);
+    expect(errors).toHaveLength(2);
+  });
+
+  test('rejects when removed or stopped', async () => {
+    const removed = added(await seedr.addTorrentMagnet(MAGNET));
+    const promise = watcher.awaitTorrent(removed.user_torrent_id);
+    await watcher.poll();
+    server.torrents.delete(removed.user_torrent_id);
+    await expect(promise).rejects.toBeInstanceOf(NotFoundError);
+
+    const stopped = server.addTorrent({ name: 'Stopped' });
+    server.updateTorrent(stopped, { stopped: 1 });
+    await expect(watcher.awaitTorrent(stopped)).rejects.toBeInstanceOf(
+      SeedrAPIError
+    );
+  });
+
+  test('rejects when aborted', async () => {
+    const id = server.addTorrent({ name: 'Example' });
+    const controller = new AbortController();
+    const promise = watcher.awaitTorrent(id, { signal: controller.signal });
+    controller.abort(new Error('aborted'));
+    await expect(promise).rejects.toThrow('aborted');
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+
+import { MockServer } from '../src/MockServer';
+import { SeedrExtended } from '../src/SeedrExtended';
+import { WishlistPromoter } from '../src/Wishlist';
+import * as T from '../src/types';
+import { createClient } from './helpers';
+
+let server: MockServer;
+let seedr: SeedrExtended;
+let promoter: WishlistPromoter;
+
+beforeEach(async () => {
+  server = new MockServer({ space_max: 1000 });
+  await server.start();
+  seedr = await createClient(server);
+});
+
+afterEach(async () => {
+  promoter.stop();
+  await server.stop();
+});
+
+describe('WishlistPromoter', () => {
+  test('promotes items as space frees up', async () => {
+    const used = server.addFile(server.addFolder('Used'), 'used.bin', 900);
+    server.addWishlistItem({
+      title: 'Wish',
+      torrent_magnet: `magnet:?xt=urn:btih:${'a'.repeat(40)}&dn=Wish`,
+      size: 500,
+    });
+    promoter = new WishlistPromoter(seedr, { interval: 10 });
+    const promoted = new Promise<T.WishlistPromotion>((resolve) =>
+      promoter.once('promoted', resolve)
+    );
+    expect((await promoter.promote()).promoted).toEqual([]);
+    promoter.start();
+    expect(promoter.running).toBe(true);
+    server.files.delete(used.folder_file_id);
+
+    const promotion = await promoted;
+    expect(promotion.promoted.map((item) => item.title)).toEqual(['Wish']);
+    expect(server.wishlist.size).toBe(0);
+    expect(server.torrents.size).toBe(1);
+  });
+});
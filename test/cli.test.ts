@@ -0,0 +1,173 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { main, formatBytes } from '../src/cli';
+import { MockServer } from '../src/MockServer';
+
+const MAGNET =
+  'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567&dn=Example';
+
+let server: MockServer;
+let dir: string;
+let prompts: { question: string; hidden?: boolean }[];
+
+beforeEach(async () => {
+  server = new MockServer();
+  await server.start();
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'seedr-cli-'));
+  prompts = [];
+});
+
+afterEach(async () => {
+  await server.stop();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+async function run(...argv: string[]) {
+  const out: string[] = [];
+  const err: string[] = [];
+  const progress: string[] = [];
+  const code = await main(argv, {
+    out: (text) => out.push(text),
+    err: (text) => err.push(text),
+    progress: (text) => progress.push(text),
+    prompt: async (question, options) => {
+      prompts.push({ question, ...options });
+      return question == 'Password: ' ? server.password : '';
+    },
+    env: {
+      SEEDR_BASE_URL: server.url,
+      SEEDR_CONFIG: path.join(dir, 'config', 'auth_state.json'),
+    },
+  });
+  return {
+    code,
+    out: out.join('\n'),
+    err: err.join('\n'),
+    progress: progress.join(''),
+  };
+}
+
+async function login() {
+  const result = await run('login', '--username', server.username);
+  expect(result.code).toBe(0);
+}
+
+describe('cli', () => {
+  test('prints usage', async () => {
+    expect((await run('--help')).code).toBe(0);
+    expect((await run()).code).toBe(2);
+    expect((await run('unknown')).err).toContain('Usage: seedr');
+  });
+
+  test('login stores the auth state', async () => {
+    await login();
+    const state = JSON.parse(
+      fs.readFileSync(path.join(dir, 'config', 'auth_state.json'), 'utf-8')
+    );
+    expect(state.access.token).toBeString();
+    expect(state.credential).toBeUndefined();
+    expect(prompts).toEqual([{ question: 'Password: ', hidden: true }]);
+  });
+
+  test('login with device code polls until authorized', async () => {
+    server.deviceInterval = 0;
+    const code = await main(['login', '--device'], {
+      out: () => {},
+      err: (text) => {
+        const user_code = /code: (\w+)/.exec(text)?.[1];
+        if (user_code) setTimeout(() => server.authorizeDevice(user_code), 20);
+      },
+      env: {
+        SEEDR_BASE_URL: server.url,
+        SEEDR_CONFIG: path.join(dir, 'auth_state.json'),
+      },
+    });
+    expect(code).toBe(0);
+    expect(
+      server.calls.filter((i) => i == 'device/authorize').length
+    ).toBeGreaterThan(1);
+  });
+
+  test('ls, mkdir, mv and rm', async () => {
+    await login();
+    const movies = server.addFolder('Movies');
+    server.addFile(movies, 'movie.mkv', 2048);
+
+    expect((await run('ls')).out).toContain('Movies');
+    expect((await run('ls', '/Movies')).out).toContain('movie.mkv');
+    expect((await run('ls', '-r')).out).toContain('/Movies/movie.mkv');
+
+    expect((await run('mkdir', 'New')).code).toBe(0);
+    expect((await run('mv', '/Movies/movie.mkv', 'film.mkv')).code).toBe(0);
+    expect((await run('rm', '/New')).code).toBe(0);
+    expect((await run('mkdir', '/Movies/2024/Action')).code).toBe(0);
+    expect((await run('mv', '/Movies/film.mkv', '/Movies/2024/')).code).toBe(0);
+    expect(
+      (await run('mv', '/Movies/2024/film.mkv', '/Movies/2024/Action/a.mkv'))
+        .code
+    ).toBe(0);
+
+    const { out } = await run('ls', '--json', '-r');
+    expect(JSON.parse(out).map((i: { path: string }) => i.path)).toEqual([
+      '/Movies',
+      '/Movies/2024',
+      '/Movies/2024/Action',
+      '/Movies/2024/Action/a.mkv',
+    ]);
+  });
+
+  test('add, wishlist, usage and devices', async () => {
+    await login();
+    expect((await run('add', MAGNET)).out).toContain('Added Example');
+    server.addWishlistItem({ title: 'Wish', torrent_magnet: MAGNET });
+    expect((await run('wishlist')).out).toContain('Wish');
+    server.addWishlistItem({ title: 'Copy', torrent_magnet: MAGNET });
+    expect((await run('wishlist', 'dedupe')).out).toBe('Removed 1 duplicates');
+    const exported = path.join(dir, 'wishlist.txt');
+    fs.writeFileSync(exported, (await run('wishlist', 'export')).out);
+    expect(fs.readFileSync(exported, 'utf-8')).toContain(MAGNET);
+    expect((await run('wishlist', 'import', exported)).out).toContain(
+      'duplicate'
+    );
+    expect((await run('wishlist', 'clear')).code).toBe(0);
+    expect(server.wishlist.size).toBe(0);
+    expect(JSON.parse((await run('usage', '--json')).out).space_max).toBe(
+      server.space_max
+    );
+    expect(JSON.parse((await run('devices', '--json')).out)).toEqual([]);
+  });
+
+  test('search and get', async () => {
+    await login();
+    server.addFile(server.addFolder('Movies'), 'movie.mkv', Buffer.from('x'));
+    expect((await run('search', 'movie')).out).toContain('movie.mkv');
+    expect((await run('get', '/Movies/movie.mkv', '--url')).out).toStartWith(
+      server.url
+    );
+    const dest = path.join(dir, 'downloads');
+    expect((await run('get', '/Movies', '--dest', dest, '--json')).code).toBe(
+      0
+    );
+    expect(
+      fs.readFileSync(path.join(dest, 'Movies', 'movie.mkv'), 'utf-8')
+    ).toBe('x');
+    const { progress } = await run('get', '/Movies', '--dest', dest);
+    expect(progress).toBe('\r1 B / 1 B (100%)\n');
+  });
+
+  test('reports errors with exit code 1', async () => {
+    await login();
+    const { code, err } = await run('ls', '/missing', '--json');
+    expect(code).toBe(1);
+    expect(JSON.parse(err).name).toBe('NotFoundError');
+  });
+
+  test('formatBytes', () => {
+    expect(formatBytes(512)).toBe('512 B');
+    expect(formatBytes(1536)).toBe('1.5 KB');
+  });
+});
@@ -0,0 +1,41 @@
+import { MockServer } from '../src/MockServer';
+import { SeedrExtended } from '../src/SeedrExtended';
+import { NoPersistence } from '../src/State';
+import * as T from '../src/types';
+
+/**
+ * Creates a client pointed at `server`, logged in unless `state` is given.
+ */
+export async function createClient(
+  server: MockServer,
+  state?: T.AuthState,
+  options?: T.ClientOptions
+): Promise<SeedrExtended> {
+  const seedr = new SeedrExtended(new NoPersistence(state), {
+    baseUrl: server.url,
+    retry: { delay: 1 },
+    ...options,
+  });
+  if (!state) await seedr.auth.loginOAuth(server.username, server.password);
+  return seedr;
+}
+
+/**
+ * Narrows the response of an add to an added torrent, failing the test otherwise.
+ */
+export function added(
+  response: T.RAddTorrent | T.RDuplicateTorrent
+): T.RTorrentAdded {
+  if (response.result !== true) {
+    throw new Error(`Torrent not added: ${response.result}`);
+  }
+  return response;
+}
+
+/**
+ * Builds a magnet URI with a hash repeating `hash`, and an `xl` size if given.
+ */
+export function magnet(name: string, hash: string, size?: number): string {
+  const xl = size === undefined ? '' : `&xl=${size}`;
+  return `magnet:?xt=urn:btih:${hash.repeat(40)}&dn=${name}${xl}`;
+}